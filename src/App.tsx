@@ -1,33 +1,85 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import Header from './components/Header';
 import ControlPanel from './components/ControlPanel';
 import MapView from './components/MapView';
 import ResultsModal from './components/ResultsModal';
-import { fetchOptimizationWithProgress, getInitialState, type OptimizationResult, type Asset } from './api/client';
+import { assessAssetHealth, fetchOptimizationWithProgress, getInitialState, importContractData, predictAssetHireDurations, selectScheduleDay, selectTradeOff, type OptimizationResult, type Asset } from './api/client';
+import type { DepotAssignmentMode } from './api/depots';
+import { DEFAULT_FLEET, type Vehicle } from './api/fleet';
+import { DEFAULT_PRIORITY_CONFIG, type PriorityConfig } from './api/priorityEngine';
+import { loadBacklog, saveBacklog, type Backlog } from './api/backlog';
+import { DEFAULT_CLUSTERING, type ClusteringOptions } from './api/clustering';
+import type { TravelMatrixProviderId } from './api/travelMatrix';
+import { isOfflineMode } from './api/mapServices';
+import type { ContractDataset, DatasetValidationReport } from './api/dataset';
+import { DEFAULT_HEALTH_THRESHOLDS, type HealthThresholds } from './api/healthModel';
+import { OptimizationAbortedError } from './api/optimizerProtocol';
+import type { OptimizerJob } from './api/optimizerWorkerClient';
 
 export interface SimulationParams {
   utilizationRate: number;
-  hireDuration: number;
+  hireDuration: number; // 没有历史合同可训练租期预测时的默认租期（天），见 hireDuration.ts
+  depotAssignment: DepotAssignmentMode; // owning: 合同所属仓库；cheapest: 允许改派到最近仓库
+  shiftStart: string; // 车辆班次开始 "HH:MM"
+  shiftEnd: string; // 车辆班次结束 "HH:MM"
+  seed: number | null; // 固定随机种子以复现方案；null = 每次运行使用新种子
+  fleet: Vehicle[]; // 车队配置（只有 available 的车辆参与规划）
+  priority: PriorityConfig; // 优先级引擎的权重和本周容量
+  clustering: ClusteringOptions; // 每辆车初始工地分组的聚类方法和均衡方式
+  travelProvider: TravelMatrixProviderId; // 行驶距离/时间矩阵的来源
+  health: HealthThresholds; // 健康评分的检查/严重阈值
 }
 
 function App() {
   const [simulationParams, setSimulationParams] = useState<SimulationParams>({
     utilizationRate: 85,
     hireDuration: 15,
+    depotAssignment: 'owning',
+    shiftStart: '06:00',
+    shiftEnd: '18:00',
+    seed: null,
+    fleet: DEFAULT_FLEET,
+    priority: DEFAULT_PRIORITY_CONFIG,
+    clustering: DEFAULT_CLUSTERING,
+    travelProvider: isOfflineMode() ? 'roadGraph' : 'roadFactor',
+    health: DEFAULT_HEALTH_THRESHOLDS,
   });
   
   const [isLoading, setIsLoading] = useState(false);
   const [initialAssets, setInitialAssets] = useState<Asset[]>([]);
+  const [datasetValidation, setDatasetValidation] = useState<DatasetValidationReport | null>(null); // 数据集校验报告
   const [results, setResults] = useState<OptimizationResult | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [taskPoolAnalyzed, setTaskPoolAnalyzed] = useState(false); // 任务池是否已分析
   const [optimizationProgress, setOptimizationProgress] = useState<any>(null); // 优化进度（实时候选解）
+  const [optimizerJob, setOptimizerJob] = useState<OptimizerJob | null>(null); // 正在运行的Worker优化任务
+  const [isPaused, setIsPaused] = useState(false);
+  const [backlog, setBacklog] = useState<Backlog>(loadBacklog); // 跨规划周期保留的推迟工地
+  
+  // 健康评分随计划日期重新评估，与 SCHEDULE_INSPECTION 决策使用同一日期（未设置时沿用数据快照日期）
+  // 租期预测同样按计划日期，交换决策和需求预测使用同样的预测
+  const referenceDate = simulationParams.priority.referenceDate;
+  const hireDuration = simulationParams.hireDuration;
+  const assets = useMemo(
+    () => predictAssetHireDurations(
+      referenceDate ? assessAssetHealth(initialAssets, referenceDate) : initialAssets,
+      referenceDate,
+      hireDuration
+    ),
+    [initialAssets, referenceDate, hireDuration]
+  );
 
   // 在应用加载时获取初始的设备状态
   useEffect(() => {
     const loadInitialData = async () => {
-      const { assets } = await getInitialState();
+      const { assets, planningDate, validation } = await getInitialState();
       setInitialAssets(assets);
+      setDatasetValidation(validation ?? null);
+      // 合同到期和任务等待时间相对于数据快照日期计算（优化器和控制面板一致）
+      setSimulationParams(prev => ({
+        ...prev,
+        priority: { ...prev.priority, referenceDate: prev.priority.referenceDate ?? planningDate }
+      }));
     };
     loadInitialData();
   }, []);
@@ -54,21 +106,70 @@ function App() {
       // 使用带进度回调的优化函数
       const data = await fetchOptimizationWithProgress(
         simulationParams,
+        backlog,
         (progress) => {
           // 实时更新优化进度，传递给MapView渲染虚线
           console.log(`📊 Progress callback: Generation ${progress.generation}, Distance=${progress.totalDistance.toFixed(1)}km, Best=${progress.isBest}`);
           setOptimizationProgress(progress);
-        }
+        },
+        setOptimizerJob
       );
       
       setResults(data);
+      if (data.backlog) handleBacklogChange(data.backlog);
       setShowModal(true); // 显示弹窗
     } catch (error) {
-      console.error("优化请求失败:", error);
+      if (error instanceof OptimizationAbortedError) {
+        console.log("⏹️ 优化已取消");
+      } else {
+        console.error("优化请求失败:", error);
+      }
     } finally {
       setIsLoading(false);
       setOptimizationProgress(null); // 优化完成，清空进度
+      setOptimizerJob(null);
+      setIsPaused(false);
+    }
+  };
+
+  // CSV 导入：替换任务池，之前的优化结果作废，需要重新分析
+  const handleImportDataset = (dataset: ContractDataset, validation: DatasetValidationReport) => {
+    const { assets, planningDate } = importContractData(dataset, validation);
+    setInitialAssets(assets);
+    setDatasetValidation(validation);
+    setResults(null);
+    setTaskPoolAnalyzed(false);
+    if (planningDate) {
+      setSimulationParams(prev => ({ ...prev, priority: { ...prev.priority, referenceDate: planningDate } }));
+    }
+  };
+
+  const handleBacklogChange = (next: Backlog) => {
+    setBacklog(next);
+    saveBacklog(next);
+  };
+
+  const handleTogglePause = () => {
+    if (!optimizerJob) return;
+    if (isPaused) {
+      optimizerJob.resume();
+    } else {
+      optimizerJob.pause();
     }
+    setIsPaused(!isPaused);
+  };
+
+  // 调度员在Pareto前沿上选择另一个权衡方案：地图、路线详情和推迟工地切换到该方案，积压随之保存
+  const handleSelectTradeOff = (index: number) => {
+    if (!results) return;
+    const next = selectTradeOff(results, index);
+    setResults(next);
+    if (next.backlog && next.backlog !== results.backlog) handleBacklogChange(next.backlog);
+  };
+
+  // 切换周计划中显示的工作日
+  const handleSelectDay = (day: number) => {
+    setResults(prev => prev ? selectScheduleDay(prev, day) : prev);
   };
 
   return (
@@ -96,21 +197,36 @@ function App() {
           onAnalyzeTaskPool={handleAnalyzeTaskPool}
           onOptimize={handleOptimize}
           isLoading={isLoading}
+          isPaused={isPaused}
+          onTogglePause={optimizerJob ? handleTogglePause : undefined}
+          onCancelOptimize={optimizerJob ? () => optimizerJob.abort() : undefined}
           taskPoolAnalyzed={taskPoolAnalyzed}
-          assets={initialAssets}
+          assets={assets}
+          datasetValidation={datasetValidation}
+          onImportDataset={handleImportDataset}
+          backlog={backlog}
+          onClearBacklog={() => handleBacklogChange({})}
         />
         </div>
         <div style={{ flex: 1 }}>
           {/* 将初始设备、优化结果和实时进度都传递给地图 */}
           <MapView 
-            initialAssets={initialAssets} 
+            initialAssets={assets} 
             optimizationResults={results}
             optimizationProgress={optimizationProgress}
+            onSelectDay={handleSelectDay}
+            healthThresholds={simulationParams.health}
           />
         </div>
       </main>
       
-      <ResultsModal results={showModal ? results : null} onClose={() => setShowModal(false)} />
+      <ResultsModal
+        results={showModal ? results : null}
+        onClose={() => setShowModal(false)}
+        onSelectTradeOff={handleSelectTradeOff}
+        onSelectDay={handleSelectDay}
+        onReuseSeed={seed => setSimulationParams(prev => ({ ...prev, seed }))}
+      />
     </div>
   );
 }
@@ -0,0 +1,87 @@
+/**
+ * 待办积压 - 记录本周没有安排的工地，跨规划周期保留（localStorage）
+ * 推迟的周数按计划日期与首次推迟日期之差计算，同一周重复规划不会累加
+ * （计划日期早于今天时按今天计算，否则按固定的数据快照每周重新规划推迟周数不会增长）；
+ * 优先级引擎按推迟周数加分，工地不会一直排不上
+ */
+
+export interface BacklogEntry {
+  siteId: string;
+  firstDeferred: string; // 首次推迟时的计划日期（ISO）
+  lastDeferred: string;  // 最近一次推迟时的计划日期
+}
+
+export type Backlog = Record<string, BacklogEntry>;
+
+// 推迟原因：优先级未进入本周名单 / 本周车辆工时不足 / 车队中没有兼容车型
+export type DeferralReason = 'priority' | 'hours' | 'vehicle';
+
+export interface DeferredSite {
+  siteId: string;
+  reason: DeferralReason;
+  since: string;        // 首次推迟的计划日期
+  weeksDeferred: number;
+}
+
+const STORAGE_KEY = 'rpm-optimizer-backlog';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 读取保存的积压（无 localStorage 或数据损坏时返回空积压）
+ */
+export function loadBacklog(): Backlog {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    return stored ? JSON.parse(stored) as Backlog : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveBacklog(backlog: Backlog): void {
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(backlog));
+  } catch (error) {
+    console.warn('⚠️ Could not save backlog:', error);
+  }
+}
+
+/**
+ * 积压计龄使用的日期：计划日期和今天中较晚的一个
+ */
+export function getBacklogDate(planningDate: string | undefined, now: Date = new Date()): string {
+  const planned = planningDate ? Date.parse(planningDate) : NaN;
+  return planningDate && planned > now.getTime() ? planningDate : now.toISOString();
+}
+
+/**
+ * 工地在计划日期时已被推迟的整周数（不在积压中为0；按整天计算，忽略一天内的时刻）
+ */
+export function getWeeksDeferred(backlog: Backlog, siteId: string, planningDate: string): number {
+  const entry = backlog[siteId];
+  if (!entry) return 0;
+  const elapsed = Date.parse(planningDate) - Date.parse(entry.firstDeferred);
+  return Number.isFinite(elapsed) ? Math.max(0, Math.floor(Math.round(elapsed / DAY_MS) / 7)) : 0;
+}
+
+/**
+ * 规划完成后更新积压：已安排的工地移出，未安排的加入（保留首次推迟日期），
+ * 已不在任务池中的工地（任务已完成）一并移出
+ */
+export function updateBacklog(
+  backlog: Backlog,
+  planningDate: string,
+  poolSiteIds: string[],
+  scheduledSiteIds: Set<string>
+): Backlog {
+  const next: Backlog = {};
+  poolSiteIds.forEach(siteId => {
+    if (scheduledSiteIds.has(siteId)) return;
+    next[siteId] = {
+      siteId,
+      firstDeferred: backlog[siteId]?.firstDeferred ?? planningDate,
+      lastDeferred: planningDate,
+    };
+  });
+  return next;
+}
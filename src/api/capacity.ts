@@ -0,0 +1,242 @@
+/**
+ * 车辆容量模型 - 带容量约束的路线规划（CVRP）
+ * 根据 Asset.equipment 的数量估算每个工地的装载量，
+ * 并把一条访问顺序拆分成满足容量的多趟（中途回仓库装货/卸货），
+ * 单个工地超过整车容量时拆分为多次访问
+ */
+
+import { classifyTransportTask } from './dataset';
+
+interface Location {
+  lat: number;
+  lng: number;
+}
+
+// 装载量的三个维度
+export interface Load {
+  weightKg: number;
+  volumeM3: number;
+  slots: number; // 车斗位置（托盘/设备位）
+}
+
+export type VehicleCapacity = Load;
+
+// 默认车辆：平板半挂（12t / 40m³ / 24个位置）
+export const DEFAULT_VEHICLE_CAPACITY: VehicleCapacity = {
+  weightKg: 12000,
+  volumeM3: 40,
+  slots: 24,
+};
+
+export const EMPTY_LOAD: Load = { weightKg: 0, volumeM3: 0, slots: 0 };
+
+interface ItemProfile {
+  keywords: string[];
+  load: Load; // 单件装载量
+}
+
+// 设备单件装载量（按描述关键字匹配，先匹配先生效）
+const ITEM_PROFILES: ItemProfile[] = [
+  { keywords: ['quadguard'], load: { weightKg: 1800, volumeM3: 4, slots: 3 } },
+  { keywords: ['absorb'], load: { weightKg: 1000, volumeM3: 3, slots: 2 } },
+  { keywords: ['light tower'], load: { weightKg: 1200, volumeM3: 6, slots: 4 } },
+  { keywords: ['vms', 'message sign'], load: { weightKg: 1500, volumeM3: 6, slots: 4 } },
+  { keywords: ['db80', 'jj hook', 'concrete'], load: { weightKg: 2400, volumeM3: 1, slots: 1 } },
+  { keywords: ['bg800'], load: { weightKg: 600, volumeM3: 0.8, slots: 1 } },
+  { keywords: ['armorzone', 'amorzone', 'amrorzone', 'wfb', 'water filled'], load: { weightKg: 70, volumeM3: 0.9, slots: 0.5 } },
+  { keywords: ['gawk', 'screen'], load: { weightKg: 12, volumeM3: 0.1, slots: 0.05 } },
+  { keywords: ['end terminal', 'quicklink', 'quick link', 'transition', 'nose cone'], load: { weightKg: 150, volumeM3: 0.3, slots: 0.25 } },
+  { keywords: ['pin', 'tab', 'bung', 'bone', 'indicator', 'reflector', 'bolt', 'rod', 'plate'], load: { weightKg: 5, volumeM3: 0.01, slots: 0 } },
+];
+
+// 费用/人工/运输类明细行，不占车辆容量
+const NON_PHYSICAL_KEYWORDS = [
+  'truck', 'toll', 'fuel', 'labour', 'install', 'delivery', 'collection', 'transport',
+  'fee', 'spotter', 'dogman', 'crane', 'supervisor', 'demob', 'levy', 'charge', 'tech',
+];
+
+// 未识别设备的默认单件装载量
+const DEFAULT_ITEM_LOAD: Load = { weightKg: 50, volumeM3: 0.2, slots: 0.25 };
+
+/**
+ * 单件设备的装载量（费用类明细返回0）
+ */
+export function getItemLoad(description: string): Load {
+  const desc = description.toLowerCase();
+  // 先排除费用行（例如 "Delivery x 164 Amrorzones" 是运费，不是设备）
+  if (NON_PHYSICAL_KEYWORDS.some(k => desc.includes(k))) return EMPTY_LOAD;
+  const profile = ITEM_PROFILES.find(p => p.keywords.some(k => desc.includes(k)));
+  return profile ? profile.load : DEFAULT_ITEM_LOAD;
+}
+
+export function addLoads(a: Load, b: Load): Load {
+  return {
+    weightKg: a.weightKg + b.weightKg,
+    volumeM3: a.volumeM3 + b.volumeM3,
+    slots: a.slots + b.slots,
+  };
+}
+
+export function scaleLoad(load: Load, factor: number): Load {
+  return {
+    weightKg: load.weightKg * factor,
+    volumeM3: load.volumeM3 * factor,
+    slots: load.slots * factor,
+  };
+}
+
+/**
+ * 装载率：三个维度中最紧的那个（>1 表示超载）
+ */
+export function loadUtilisation(load: Load, capacity: VehicleCapacity): number {
+  return Math.max(
+    load.weightKg / capacity.weightKg,
+    load.volumeM3 / capacity.volumeM3,
+    load.slots / capacity.slots
+  );
+}
+
+/**
+ * 工地全部设备的装载量
+ */
+export function getEquipmentLoad(equipment: Array<{ description: string; quantity: number }> = []): Load {
+  return equipment.reduce(
+    (sum, item) => addLoads(sum, scaleLoad(getItemLoad(item.description), Math.max(0, item.quantity || 0))),
+    EMPTY_LOAD
+  );
+}
+
+// 工地一次访问需要送出/收回的装载量
+export interface SiteDemand {
+  delivery: Load;   // 从仓库带出
+  collection: Load; // 带回仓库
+}
+
+/**
+ * 根据运输任务类型决定设备是送出还是收回
+ * 同时有送货和回收的工地视为换货：送出一批、收回一批
+ */
+export function getSiteDemand(site: {
+  equipment?: Array<{ description: string; quantity: number }>;
+  transport_tasks?: Array<{ type: string }>;
+}): SiteDemand {
+  const load = getEquipmentLoad(site.equipment);
+  const tasks = site.transport_tasks || [];
+  const hasDelivery = tasks.some(t => classifyTransportTask(t.type) === 'delivery');
+  const hasCollection = tasks.some(t => classifyTransportTask(t.type) === 'collection');
+
+  return {
+    delivery: hasDelivery || !hasCollection ? load : EMPTY_LOAD,
+    collection: hasCollection ? load : EMPTY_LOAD,
+  };
+}
+
+// 参与容量规划的站点
+export interface CapacityStop {
+  siteId: string;
+  location: Location;
+  demand: SiteDemand;
+}
+
+// 规划后的站点（带趟次信息）
+export interface PlannedStop {
+  siteId: string;
+  location: Location;
+  delivery: Load;
+  collection: Load;
+  trip: number; // 第几趟（从0开始）
+  split?: { part: number; of: number }; // 拆分访问时的第几部分
+}
+
+export interface CapacitatedRoute {
+  route: Location[];        // 仓库 → 工地 ... → 仓库（→ 工地 ... → 仓库）
+  stops: PlannedStop[];
+  trips: number;
+  peakUtilisation: number;  // 各趟中最高的装载率
+}
+
+/**
+ * 一趟中车上的最大载荷：出发时装满所有送货，沿途送出、收回
+ */
+function peakTripLoad(stops: PlannedStop[]): Load {
+  let onboard = stops.reduce((sum, s) => addLoads(sum, s.delivery), EMPTY_LOAD);
+  let peak = onboard;
+
+  stops.forEach(stop => {
+    onboard = addLoads(addLoads(onboard, scaleLoad(stop.delivery, -1)), stop.collection);
+    peak = {
+      weightKg: Math.max(peak.weightKg, onboard.weightKg),
+      volumeM3: Math.max(peak.volumeM3, onboard.volumeM3),
+      slots: Math.max(peak.slots, onboard.slots),
+    };
+  });
+
+  return peak;
+}
+
+/**
+ * 超过整车容量的工地拆分为多次访问
+ */
+function splitOversizedStop(stop: CapacityStop, capacity: VehicleCapacity): PlannedStop[] {
+  const utilisation = Math.max(
+    loadUtilisation(stop.demand.delivery, capacity),
+    loadUtilisation(stop.demand.collection, capacity)
+  );
+  const parts = Math.max(1, Math.ceil(utilisation - 1e-9));
+
+  return Array.from({ length: parts }, (_, part) => ({
+    siteId: stop.siteId,
+    location: stop.location,
+    delivery: scaleLoad(stop.demand.delivery, 1 / parts),
+    collection: scaleLoad(stop.demand.collection, 1 / parts),
+    trip: 0,
+    split: parts > 1 ? { part: part + 1, of: parts } : undefined,
+  }));
+}
+
+/**
+ * 按访问顺序装车：装不下时先回仓库再出发（reload），超大工地拆分访问
+ */
+export function planCapacitatedTrips(
+  depot: Location,
+  orderedStops: CapacityStop[],
+  capacity: VehicleCapacity = DEFAULT_VEHICLE_CAPACITY
+): CapacitatedRoute {
+  const trips: PlannedStop[][] = [[]];
+
+  orderedStops.forEach(stop => {
+    splitOversizedStop(stop, capacity).forEach(part => {
+      const current = trips[trips.length - 1];
+      const candidate = [...current, part];
+
+      if (current.length > 0 && loadUtilisation(peakTripLoad(candidate), capacity) > 1 + 1e-9) {
+        trips.push([part]); // 回仓库重新装货
+      } else {
+        current.push(part);
+      }
+    });
+  });
+
+  const route: Location[] = [depot];
+  const stops: PlannedStop[] = [];
+  let peakUtilisation = 0;
+
+  trips.forEach((tripStops, tripIndex) => {
+    if (tripStops.length === 0) return;
+    tripStops.forEach(stop => {
+      stops.push({ ...stop, trip: tripIndex });
+      route.push(stop.location);
+    });
+    route.push(depot);
+    peakUtilisation = Math.max(peakUtilisation, loadUtilisation(peakTripLoad(tripStops), capacity));
+  });
+
+  if (route.length === 1) route.push(depot); // 空路线也返回仓库
+
+  return {
+    route,
+    stops,
+    trips: trips.filter(t => t.length > 0).length,
+    peakUtilisation,
+  };
+}
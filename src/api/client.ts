@@ -1,7 +1,37 @@
 // src/api/client.ts
 import type { SimulationParams } from "../App";
-import { optimizeRoutesWithAlternatives } from './routeOptimizer';
-import { optimizeWithProgress, type ProgressCallback } from './progressiveOptimizer';
+import type { ProgressCallback, VehicleCluster } from './progressiveOptimizer';
+import { runProgressiveOptimizer, runRouteOptimizer, type OptimizerJob } from './optimizerWorkerClient';
+import { DEPOTS, getOwningDepot } from './depots';
+import type { PlannedStop } from './capacity';
+import {
+  DEFAULT_SHIFT,
+  getSiteTimeWindow,
+  parseClock,
+  type ScheduledStop,
+  type TimeWindow,
+  type VehicleShift,
+} from './timeWindows';
+import type { RouteObjectives } from './nsga2';
+import { randomSeed } from './random';
+import { getNearestSuburb } from './suburbs';
+import { getEquipmentCategory } from './vehicleTypes';
+import { getBacklogDate, getWeeksDeferred, updateBacklog, type Backlog, type DeferralReason, type DeferredSite } from './backlog';
+import { fetchDirections } from './directions';
+import { assessHealth, describeHealth, needsInspection, type HealthAssessment } from './healthModel';
+import { predictHireDurations, type HireDurationPrediction } from './hireDuration';
+import { forecastDemand, getForecastVisits } from './demandForecast';
+import { describeStayRetrieve, loadStayRetrieveModel, predictStayRetrieve, type StayRetrieveModel } from './stayRetrieveModel';
+import { DEFAULT_DEPOT_STOCK, isCompetitorRental, planSwaps, type SwapEvaluation } from './swapDecision';
+import { createTravelMatrix, getTravelMatrixData, type TravelMatrix, type TravelMatrixData } from './travelMatrix';
+import {
+  classifyTransportTask,
+  formatValidationReport,
+  validateDataset,
+  type ContractDataset,
+  type ContractRecord,
+  type DatasetValidationReport,
+} from './dataset';
 
 // --- Enums and Types for Rich Data ---
 // Site Status - 工地状态（不是设备状态）
@@ -29,23 +59,39 @@ export interface Asset {
     suburb?: string;
   };
   health_score?: number; // Representing Asset Health Model output
+  health?: HealthAssessment; // 健康模型明细（见 healthModel.ts）
+  hire?: HireDurationPrediction; // 预计合同结束日期和置信区间（见 hireDuration.ts）
   customer?: string; // Customer ID
-  equipment?: Array<{ description: string; quantity: number }>; // Equipment at this site
-  transport_tasks?: Array<{ type: string; total_charge: number }>; // Transport tasks for this site
+  depotId?: string; // 合同所属仓库（见 depots.ts）
+  timeWindow?: TimeWindow; // 工地可进入时间（见 timeWindows.ts）
+  equipment?: ContractRecord['equipment']; // Equipment at this site
+  transport_tasks?: ContractRecord['transport_tasks']; // Transport tasks for this site
+  dates?: ContractRecord['dates']; // 合同起止日期
+  inspections?: ContractRecord['inspections']; // 检查记录（计划日期改变时重新评估健康）
+  rental_info?: ContractRecord['rental_info'];
 }
 
 export interface OptimizationDecision {
   assetId: string;
   decision: 'STAY_ON_SITE' | 'RETRIEVE_TO_DEPOT' | 'EXECUTE_SWAP' | 'SCHEDULE_INSPECTION';
   reason: string;
-  relatedAssetId?: string;
+  relatedAssetId?: string; // 交换时为调入的仓库库存项（见 swapDecision.ts）
+  swap?: SwapEvaluation;
 }
 
 export interface OptimizationResult {
   decisionsMade: OptimizationDecision[];
   optimizedRoutes: {
     vehicleId: string;
+    vehicleName?: string; // 车队配置中的车辆名称
+    depotId?: string; // 出发/返回的仓库
     route: { lat: number; lng: number }[];
+    stops?: ScheduledStop[]; // 工地访问明细（装载量、第几趟、ETA）
+    trips?: number; // 出车趟数（>1 表示中途回仓库装货）
+    peakUtilisation?: number; // 最高装载率
+    startTime?: number; // 离开仓库时间（距0点分钟数）
+    endTime?: number; // 回到仓库时间
+    violations?: string[]; // 违反时间窗/班次的说明
     distance?: number; // 优化算法计算的直线距离
     realRoadDistance?: number; // Mapbox API返回的真实道路距离
   }[];
@@ -53,6 +99,17 @@ export interface OptimizationResult {
     vehicleId: string;
     route: { lat: number; lng: number }[];
   }[][]; // 次优解，用虚线展示
+  paretoFront?: ParetoTradeOff[]; // NSGA-II Pareto前沿（按成本排序），调度员可选择权衡
+  selectedTradeOff?: number; // 当前采用的 paretoFront 下标
+  seed?: number; // 优化使用的随机种子（用同一种子重新运行可复现此方案）
+  unservedSiteIds?: string[]; // 车队中没有能运输其设备的车型，未安排的工地
+  days?: DaySchedule[]; // 周计划：每个工作日的路线（optimizedRoutes 为当前显示的那一天）
+  selectedDay?: number; // 当前显示的 days 下标
+  clusters?: VehicleCluster[]; // 当前显示那一天的初始聚类（地图叠加）
+  deferredSiteIds?: string[]; // 本周车辆工时放不下（含路线在班次结束时截下的），推迟到下周的工地
+  deferredSites?: DeferredSite[]; // 本周没有安排的全部工地（原因和已推迟多久）
+  backlog?: Backlog; // 本次规划后的积压（由 App 保存，下次规划时推迟越久优先级越高）
+  backlogUpdate?: BacklogUpdate; // 切换Pareto方案时按新方案重新计算积压
   summary: {
     costSaving: number;
     distanceSavingKm: number;
@@ -65,16 +122,52 @@ export interface OptimizationResult {
   };
 }
 
+export type OptimizedRoute = OptimizationResult['optimizedRoutes'][number];
+
+// 周计划中的一个工作日
+export interface DaySchedule {
+  day: number; // 0 = 周一
+  label: string;
+  routes: OptimizedRoute[];
+  paretoFront?: ParetoTradeOff[];
+  selectedTradeOff?: number;
+  clusters?: VehicleCluster[]; // 路线优化前每辆车的初始工地分组
+}
+
+// Pareto前沿上的一个方案
+export interface ParetoTradeOff {
+  objectives: RouteObjectives;
+  totalDistance: number;
+  routes: OptimizedRoute[];
+  deferredSiteIds: string[]; // 采用该方案时放不下、推迟的工地
+}
+
+// 由采用的路线更新积压所需的规划输入
+export interface BacklogUpdate {
+  previous: Backlog; // 本次规划前的积压
+  planningDate: string;
+  backlogDate: string; // 推迟周数计算到的日期（计划日期早于今天时为今天）
+  poolSiteIds: string[]; // 任务池中的全部工地
+  reasons: Record<string, DeferralReason>; // 未列出的工地视为车辆工时不足
+}
+
 // --- Load Real Data ---
-let realDataCache: any = null;
+// 加载时按 dataset.ts 的结构校验，格式错误的记录被剔除并记入校验报告
+let realDataCache: ContractDataset | null = null;
+let validationCache: DatasetValidationReport | null = null;
 
-const loadRealData = async () => {
+const loadRealData = async (): Promise<ContractDataset | null> => {
   if (realDataCache) return realDataCache;
   
   try {
     const response = await fetch('/real_data.json');
-    realDataCache = await response.json();
-    console.log('✅ Loaded real Melbourne June 2024 data:', realDataCache.metadata);
+    const { dataset, report } = validateDataset(await response.json());
+    realDataCache = dataset;
+    validationCache = report;
+    console.log('✅ Loaded real Melbourne June 2024 data:', dataset.metadata);
+    if (report.issues.length > 0) {
+      console.warn(`⚠️ Dataset validation:\n${formatValidationReport(report)}`);
+    }
     return realDataCache;
   } catch (error) {
     console.error('❌ Failed to load real data, using fallback:', error);
@@ -83,10 +176,8 @@ const loadRealData = async () => {
 };
 
 // Convert real data to Asset format
-const convertRealDataToAssets = (realData: any): Asset[] => {
-  if (!realData || !realData.assets) return [];
-  
-  const assets: Asset[] = realData.assets.map((asset: any) => {
+const convertRealDataToAssets = (realData: ContractDataset): Asset[] => {
+  const assets: Asset[] = realData.assets.map(asset => {
     // 基于运输任务推断工地状态（支持多任务情况）
     let status: SiteStatus;
     
@@ -95,11 +186,9 @@ const convertRealDataToAssets = (realData: any): Asset[] => {
       status = SiteStatus.CompetitorRental;
     } 
     // 优先级2: 分析运输任务
-    else if (asset.transport_tasks && asset.transport_tasks.length > 0) {
-      const hasDelivery = asset.transport_tasks.some((t: any) => 
-        t.type.toLowerCase().includes('delivery'));
-      const hasCollection = asset.transport_tasks.some((t: any) => 
-        t.type.toLowerCase().includes('collection'));
+    else if (asset.transport_tasks.length > 0) {
+      const hasDelivery = asset.transport_tasks.some(t => classifyTransportTask(t.type) === 'delivery');
+      const hasCollection = asset.transport_tasks.some(t => classifyTransportTask(t.type) === 'collection');
       
       if (hasDelivery && hasCollection) {
         // 同时有送货和回收 = 有多个活跃运输任务
@@ -121,26 +210,13 @@ const convertRealDataToAssets = (realData: any): Asset[] => {
       status = SiteStatus.Deployed;
     }
     
-    // Determine asset type from equipment
+    // Determine asset type from equipment（类别与车型兼容规则共用，见 vehicleTypes.ts）
     let assetType = 'Equipment';
-    if (asset.equipment && asset.equipment.length > 0) {
-      const mainEquipment = asset.equipment[0].description.toLowerCase();
-      if (mainEquipment.includes('barrier')) {
-        assetType = 'Barrier';
-      } else if (mainEquipment.includes('light') || mainEquipment.includes('tower')) {
-        assetType = 'Light_Tower';
-      } else if (mainEquipment.includes('vms') || mainEquipment.includes('sign')) {
-        assetType = 'VMS_Board';
-      } else if (mainEquipment.includes('armorzone')) {
-        assetType = 'Safety_Barrier';
-      } else {
-        assetType = asset.type || 'Equipment';
-      }
+    if (asset.equipment.length > 0) {
+      const category = getEquipmentCategory(asset.equipment[0].description);
+      assetType = category === 'Equipment' ? asset.type || 'Equipment' : category;
     }
     
-    // Generate health score (80-98 for all sites)
-    const healthScore = Math.floor(Math.random() * 18) + 80;
-    
     return {
       id: asset.id,
       type: assetType,
@@ -149,23 +225,47 @@ const convertRealDataToAssets = (realData: any): Asset[] => {
         lat: asset.location.lat,
         lng: asset.location.lng,
         address: asset.location.address || '',
-        suburb: asset.location.suburb || 'Melbourne'
+        suburb: asset.location.suburb || getNearestSuburb(asset.location) // 数据中没有 suburb 时按坐标取最近区域
       },
-      health_score: healthScore,
       customer: asset.customer || '',
-      equipment: asset.equipment || [],
-      transport_tasks: asset.transport_tasks || []
+      depotId: getOwningDepot(asset).id,
+      timeWindow: getSiteTimeWindow(asset),
+      equipment: asset.equipment,
+      transport_tasks: asset.transport_tasks,
+      dates: asset.dates,
+      inspections: asset.inspections,
+      rental_info: asset.rental_info
     };
   });
   
   console.log(`✅ Converted ${assets.length} real contracts to assets`);
-  return assets;
+  return assessAssetHealth(assets, realData.metadata.date);
 };
 
-const depotLocation = { lat: -37.8136, lng: 144.9631 }; // Melbourne CBD Main Depot
+/**
+ * 健康评分：按部署时间、设备磨损曲线和检查记录计算（截至计划日期）
+ * 计划日期改变时由 App 重新评估，地图标记与 SCHEDULE_INSPECTION 决策使用同一日期
+ */
+export const assessAssetHealth = (assets: Asset[], planningDate?: string): Asset[] => assets.map(asset => {
+  const health = assessHealth({
+    equipment: asset.equipment ?? [],
+    transport_tasks: asset.transport_tasks ?? [],
+    dates: asset.dates ?? null,
+    inspections: asset.inspections ?? [],
+  }, planningDate);
+  return { ...asset, health_score: health.score, health };
+});
+
+/**
+ * 租期预测：每个工地的预计结束日期和置信区间（priorDays：没有历史合同时的默认租期）
+ */
+export const predictAssetHireDurations = (assets: Asset[], planningDate: string | undefined, priorDays: number): Asset[] => {
+  const predictions = predictHireDurations(assets, planningDate, priorDays);
+  return assets.map(asset => ({ ...asset, hire: predictions.get(asset.id) }));
+};
 
 // --- API Functions ---
-export const getInitialState = async (): Promise<{ assets: Asset[] }> => {
+export const getInitialState = async (): Promise<{ assets: Asset[]; planningDate?: string; validation?: DatasetValidationReport }> => {
   await new Promise(resolve => setTimeout(resolve, 200)); // Simulate network latency
   
   // Load real data
@@ -173,7 +273,7 @@ export const getInitialState = async (): Promise<{ assets: Asset[] }> => {
   
   if (realData) {
     const assets = convertRealDataToAssets(realData);
-    return { assets };
+    return { assets, planningDate: realData.metadata.date, validation: validationCache ?? undefined }; // 数据快照日期作为计划日期
   }
   
   // Fallback to empty if real data fails
@@ -181,13 +281,28 @@ export const getInitialState = async (): Promise<{ assets: Asset[] }> => {
   return { assets: [] };
 };
 
+/**
+ * 使用导入的数据集（CSV 导入，见 csvImport.ts）替换 real_data.json，之后的优化都基于它
+ */
+export const importContractData = (
+  dataset: ContractDataset,
+  validation: DatasetValidationReport
+): { assets: Asset[]; planningDate?: string; validation: DatasetValidationReport } => {
+  realDataCache = dataset;
+  validationCache = validation;
+  console.log(`✅ Imported ${dataset.assets.length} contracts from ${dataset.metadata.data_source ?? 'import'}`);
+  return { assets: convertRealDataToAssets(dataset), planningDate: dataset.metadata.date, validation };
+};
+
 
 /**
  * 带进度回调的优化函数 - 用于实时展示优化过程
  */
 export const fetchOptimizationWithProgress = async (
   params: SimulationParams,
-  progressCallback: ProgressCallback
+  backlog: Backlog, // 之前规划中推迟的工地
+  progressCallback: ProgressCallback,
+  onJobStarted?: (job: OptimizerJob) => void // 暂停/恢复/取消句柄
 ): Promise<OptimizationResult> => {
   console.log("🚀 Starting optimization with real-time progress...");
   
@@ -196,100 +311,194 @@ export const fetchOptimizationWithProgress = async (
     return generateFallbackOptimization(params);
   }
   
-  // 生成AI决策
-  const decisionsMade = generateRealDataDecisions(realData, params);
-  
-  // 使用渐进式优化器，带进度回调
-  const depot = depotLocation;
-  
+  // 使用渐进式优化器，带进度回调（每个工地从自己合同所属的仓库出发）
   // 在传递给优化器前，确保过滤掉无任务的工地（严格检查）
-  const validSites = realData.assets.filter((a: any) => {
-    // 严格检查：必须有transport_tasks数组且长度>0
-    if (!a.transport_tasks) return false;
-    if (!Array.isArray(a.transport_tasks)) return false;
-    if (a.transport_tasks.length === 0) return false;
-    return true;
-  });
+  const validSites = realData.assets.filter(a => a.transport_tasks.length > 0);
   
   console.log(`📊 Filtered to ${validSites.length} sites with tasks (from ${realData.assets.length} total)`);
   
-  const bestRoutes = await optimizeWithProgress(
+  // 规划前一次性构建全部工地和仓库的行驶矩阵，优化器、交换决策和节省计算共用
+  const travelMatrix = await buildTravelMatrix([...validSites, ...realData.assets.filter(isCompetitorRental)], params);
+  
+  // 生成AI决策
+  const decisionsMade = generateRealDataDecisions(realData, params, createTravelMatrix(travelMatrix), await loadStayRetrieveModel());
+  
+  // 本周预测的新送货/回收（尚未进入任务池）在周计划中预留名额和车辆工时，与控制面板显示的预测一致
+  const planningDate = params.priority.referenceDate ?? realData.metadata.date ?? new Date().toISOString();
+  const reservedVisits = getForecastVisits(forecastDemand(realData.assets, {
+    planningDate,
+    hirePredictions: predictHireDurations(realData.assets, planningDate, params.hireDuration),
+  }).weeks[0]);
+  
+  // 在Web Worker中运行，取消时抛出 OptimizationAbortedError
+  const job = runProgressiveOptimizer(
     validSites, // 只传递有任务的工地
-    depot,
-    4,
+    params.fleet,
+    { depotMode: params.depotAssignment, shift: getVehicleShift(params), seed: params.seed ?? randomSeed(), priority: params.priority, backlog, clustering: params.clustering, travelMatrix, reservedVisits },
     progressCallback // 每次迭代都会调用这个回调
   );
+  onJobStarted?.(job);
+  const { days: weekDays, seed, unselectedSiteIds, unservedSiteIds } = await job.result;
   
   // 转换为OptimizationResult格式
-  const optimizedRoutesBase = bestRoutes.map(r => ({
+  type CandidateRoutes = typeof weekDays[number]['best'];
+  const toOptimizedRoutes = (routes: CandidateRoutes): OptimizedRoute[] => routes.map(r => ({
     vehicleId: r.vehicleId,
+    vehicleName: r.vehicleName,
+    depotId: r.depotId,
     route: r.route,
+    stops: r.stops,
+    trips: r.trips,
+    peakUtilisation: r.peakUtilisation,
+    startTime: r.startTime,
+    endTime: r.endTime,
+    violations: r.violations,
     distance: r.distance
   }));
   
-  // 调用Mapbox API获取每条路线的真实道路距离
+  // 调用Mapbox API获取每天推荐路线的真实道路距离
   console.log('📡 Fetching real road distances for optimized routes...');
-  const routesWithRealDistances = await Promise.all(
-    optimizedRoutesBase.map(async (route) => {
-      // 简化waypoints如果超过25个
-      let coords = route.route;
-      if (coords.length > 25) {
-        const simplified = [coords[0]];
-        const step = Math.max(1, Math.floor((coords.length - 2) / 23));
-        for (let i = step; i < coords.length - 1; i += step) {
-          if (simplified.length < 24) simplified.push(coords[i]);
-        }
-        simplified.push(coords[coords.length - 1]);
-        coords = simplified;
-      }
-      
-      const waypointStr = coords.map(p => `${p.lng},${p.lat}`).join(';');
-      const url = `https://api.mapbox.com/directions/v5/mapbox/driving/${waypointStr}?access_token=${MAPBOX_TOKEN}`;
-      
-      try {
-        const response = await fetch(url);
-        if (response.ok) {
-          const data = await response.json();
-          if (data.routes && data.routes[0]) {
-            const realDistance = data.routes[0].distance / 1000; // 转换为km
-            console.log(`  ${route.vehicleId}: ${realDistance.toFixed(1)} km (real road)`);
-            return { ...route, realRoadDistance: realDistance };
-          }
-        }
-      } catch (error) {
-        console.error(`  Error fetching real distance for ${route.vehicleId}:`, error);
-      }
-      
-      // Fallback: 使用算法距离 × 1.4
-      return { ...route, realRoadDistance: route.distance * 1.4 };
-    })
-  );
+  const days: DaySchedule[] = await Promise.all(weekDays.map(async ({ day, label, best, paretoFront, clusters }) => {
+    const routes = await withRealRoadDistances(toOptimizedRoutes(best));
+    return {
+      day,
+      label,
+      routes,
+      clusters,
+      paretoFront: paretoFront.map(solution => ({
+        objectives: solution.objectives,
+        totalDistance: solution.totalDistance,
+        routes: solution.routes === best ? routes : toOptimizedRoutes(solution.routes),
+        deferredSiteIds: solution.deferredSiteIds
+      })),
+      selectedTradeOff: Math.max(0, paretoFront.findIndex(solution => solution.routes === best))
+    };
+  }));
+  const routesWithRealDistances = days.flatMap(day => day.routes);
   
   // 计算节省（传入带真实道路距离的路线）
-  const summary = await calculateRealSavings(realData, routesWithRealDistances);
+  const summary = calculateRealSavings(realData, routesWithRealDistances, createTravelMatrix(travelMatrix));
   
   // 任务合并说明
-  const sitesWithTasks = realData.assets.filter((a: any) => 
-    a.transport_tasks && a.transport_tasks.length > 0);
-  const totalHistoricalTasks = sitesWithTasks.reduce((sum: number, s: any) => 
-    sum + s.transport_tasks.length, 0);
+  const sitesWithTasks = realData.assets.filter(a => a.transport_tasks.length > 0);
+  const totalHistoricalTasks = sitesWithTasks.reduce((sum, s) => sum + s.transport_tasks.length, 0);
   
   // 计算真实访问的工地数（从优化路线获取）
-  const actualSitesVisited = routesWithRealDistances.reduce((sum: number, route: any) => 
-    sum + (route.route.length - 2), 0); // 减去起点和终点
+  const actualSitesVisited = countVisitedSites(routesWithRealDistances);
+  
+  // 没有安排的工地记入积压（切换Pareto方案后按新方案重新计算）
+  const backlogUpdate: BacklogUpdate = {
+    previous: backlog,
+    planningDate,
+    backlogDate: getBacklogDate(planningDate),
+    poolSiteIds: validSites.map(site => site.id),
+    reasons: Object.fromEntries([
+      ...unselectedSiteIds.map(id => [id, 'priority'] as const),
+      ...unservedSiteIds.map(id => [id, 'vehicle'] as const),
+    ]),
+  };
   
-  return {
+  // 默认显示第一个有路线的工作日
+  const firstDay = Math.max(0, days.findIndex(day => day.routes.length > 0));
+  
+  return selectScheduleDay(withBacklog({
     decisionsMade,
-    optimizedRoutes: routesWithRealDistances, // 使用带真实道路距离的路线
+    optimizedRoutes: [],
+    days,
+    seed,
+    unservedSiteIds,
     summary,
     explanation: {
-      taskConsolidation: `Selected ${actualSitesVisited} high-priority sites from ${totalHistoricalTasks} task records (prioritization engine)`,
+      taskConsolidation: `Scheduled ${actualSitesVisited} high-priority sites over ${days.filter(day => day.routes.length > 0).length} working days from ${totalHistoricalTasks} task records (prioritization engine), keeping room for ~${reservedVisits} forecast deliveries/collections`,
       totalSitesVisited: actualSitesVisited,
       averageTasksPerSite: totalHistoricalTasks / sitesWithTasks.length
     }
+  }, backlogUpdate), firstDay);
+};
+
+/**
+ * 按周计划中采用的路线更新积压：已安排的工地移出，其余保留首次推迟日期并注明原因
+ */
+const withBacklog = (results: OptimizationResult, update: BacklogUpdate): OptimizationResult => {
+  const routes = results.days ? results.days.flatMap(day => day.routes) : results.optimizedRoutes;
+  const backlog = updateBacklog(update.previous, update.backlogDate, update.poolSiteIds, getVisitedSiteIds(routes));
+  const deferredSites: DeferredSite[] = Object.values(backlog)
+    .map(entry => ({
+      siteId: entry.siteId,
+      reason: update.reasons[entry.siteId] ?? 'hours',
+      since: entry.firstDeferred,
+      weeksDeferred: getWeeksDeferred(backlog, entry.siteId, update.backlogDate),
+    }))
+    .sort((a, b) => b.weeksDeferred - a.weeksDeferred);
+  return {
+    ...results,
+    backlog,
+    backlogUpdate: update,
+    deferredSites,
+    deferredSiteIds: deferredSites.filter(site => site.reason === 'hours').map(site => site.siteId),
   };
 };
 
+/**
+ * 采用当前工作日Pareto前沿上的另一个方案：地图路线和路线详情换成该方案，推迟工地和积压随之更新
+ * 周计划中同时记住该天选择的方案，切换工作日后再切回来不会丢失
+ */
+export const selectTradeOff = (results: OptimizationResult, index: number): OptimizationResult => {
+  const option = results.paretoFront?.[index];
+  if (!option) return results;
+  const days = results.days?.map((schedule, day) => day === results.selectedDay
+    ? { ...schedule, routes: option.routes, selectedTradeOff: index }
+    : schedule);
+  const selected = { ...results, days, optimizedRoutes: option.routes, selectedTradeOff: index };
+  return results.backlogUpdate
+    ? withBacklog(selected, results.backlogUpdate)
+    : { ...selected, deferredSiteIds: option.deferredSiteIds };
+};
+
+/**
+ * 切换周计划中显示的工作日：地图路线、Pareto前沿和路线详情都换成该天
+ */
+export const selectScheduleDay = (results: OptimizationResult, day: number): OptimizationResult => {
+  const schedule = results.days?.[day];
+  if (!schedule) return results;
+  return {
+    ...results,
+    selectedDay: day,
+    optimizedRoutes: schedule.routes,
+    paretoFront: schedule.paretoFront,
+    selectedTradeOff: schedule.selectedTradeOff,
+    clusters: schedule.clusters
+  };
+};
+
+/**
+ * 为有任务的工地和全部仓库构建行驶矩阵（按 params.travelProvider 选择来源，已缓存时直接复用）
+ */
+const buildTravelMatrix = (sites: Pick<Asset, 'location'>[], params: SimulationParams): Promise<TravelMatrixData> =>
+  getTravelMatrixData(
+    params.travelProvider,
+    [...sites.map(site => site.location), ...DEPOTS.map(depot => depot.location)]
+  );
+
+/**
+ * 用Mapbox Directions API（离线模式下为本地路网）获取每条路线的真实道路距离（失败时沿用优化器按行驶矩阵算出的距离）
+ */
+const withRealRoadDistances = (routes: OptimizedRoute[]): Promise<OptimizedRoute[]> => Promise.all(
+  routes.map(async (route) => {
+    try {
+      // 超过25个途经点时分块请求再拼接，距离覆盖每个站点（经限流队列，不会并发打满 API）；离线模式下按本地路网计算
+      const { distanceKm } = await fetchDirections(route.route);
+      console.log(`  ${route.vehicleId}: ${distanceKm.toFixed(1)} km (real road)`);
+      return { ...route, realRoadDistance: distanceKm };
+    } catch (error) {
+      console.error(`  Error fetching real distance for ${route.vehicleId}:`, error);
+    }
+    
+    // Fallback: 使用优化器的矩阵距离
+    return { ...route, realRoadDistance: route.distance || 0 };
+  })
+);
+
 export const fetchOptimizationPlan = async (params: SimulationParams): Promise<OptimizationResult> => {
   console.log("向后端发送请求，参数为:", params);
   await new Promise(resolve => setTimeout(resolve, 1500));
@@ -302,29 +511,31 @@ export const fetchOptimizationPlan = async (params: SimulationParams): Promise<O
     return generateFallbackOptimization(params);
   }
 
-  // Generate decisions based on real data
-  const decisionsMade = generateRealDataDecisions(realData, params);
-  
   // Generate optimized routes from real transport tasks (with alternatives)
-  const routeOptimization = generateOptimizedRoutes(realData);
+  const routeOptimization = await generateOptimizedRoutes(realData, params);
+  
+  // Generate decisions based on real data（与路线优化共用行驶矩阵）
+  const decisionsMade = generateRealDataDecisions(realData, params, createTravelMatrix(routeOptimization.travelMatrix), await loadStayRetrieveModel());
   
   // Calculate real savings based on actual optimization results
-  const summary = await calculateRealSavings(realData, routeOptimization.optimizedRoutes);
+  const summary = calculateRealSavings(realData, routeOptimization.optimizedRoutes, createTravelMatrix(routeOptimization.travelMatrix));
   
   // 解释任务合并逻辑
-  const sitesWithTasks = realData.assets.filter((a: any) => 
-    a.transport_tasks && a.transport_tasks.length > 0);
-  const totalHistoricalTasks = sitesWithTasks.reduce((sum: number, s: any) => 
-    sum + s.transport_tasks.length, 0);
+  const sitesWithTasks = realData.assets.filter(a => a.transport_tasks.length > 0);
+  const totalHistoricalTasks = sitesWithTasks.reduce((sum, s) => sum + s.transport_tasks.length, 0);
 
   // 计算真实访问的工地数（从优化路线获取）
-  const actualSitesVisited = routeOptimization.optimizedRoutes.reduce((sum: number, route: any) => 
-    sum + (route.route.length - 2), 0); // 减去起点和终点
+  const actualSitesVisited = countVisitedSites(routeOptimization.optimizedRoutes);
   
   const response: OptimizationResult = {
     decisionsMade,
     optimizedRoutes: routeOptimization.optimizedRoutes,
     alternativeRoutes: routeOptimization.alternativeRoutes,
+    paretoFront: routeOptimization.paretoFront,
+    selectedTradeOff: routeOptimization.selectedTradeOff,
+    seed: routeOptimization.seed,
+    unservedSiteIds: routeOptimization.unservedSiteIds,
+    deferredSiteIds: routeOptimization.deferredSiteIds,
     summary,
     explanation: {
       taskConsolidation: `Selected ${actualSitesVisited} high-priority sites from ${totalHistoricalTasks} task records (prioritization engine)`,
@@ -337,197 +548,191 @@ export const fetchOptimizationPlan = async (params: SimulationParams): Promise<O
   return response;
 };
 
+// 仪表盘设置的车辆班次（格式错误时使用默认班次）
+const getVehicleShift = (params: SimulationParams): VehicleShift => {
+  const start = parseClock(params.shiftStart);
+  const end = parseClock(params.shiftEnd);
+  return start !== null && end !== null && end > start ? { start, end } : DEFAULT_SHIFT;
+};
+
+// 统计路线访问的不同工地数（拆分访问和中途回仓库不重复计数）
+const getVisitedSiteIds = (routes: OptimizationResult['optimizedRoutes']): Set<string> => {
+  const siteIds = new Set<string>();
+  routes.forEach(route => route.stops?.forEach(stop => siteIds.add(stop.siteId)));
+  return siteIds;
+};
+
+const countVisitedSites = (routes: OptimizationResult['optimizedRoutes']): number =>
+  getVisitedSiteIds(routes).size;
+
 // Generate optimization decisions from real data
-const generateRealDataDecisions = (realData: any, params: SimulationParams): OptimizationDecision[] => {
+const generateRealDataDecisions = (
+  realData: ContractDataset,
+  params: SimulationParams,
+  matrix: TravelMatrix,
+  stayRetrieveModel: StayRetrieveModel
+): OptimizationDecision[] => {
   const decisions: OptimizationDecision[] = [];
+  const planningDate = params.priority.referenceDate ?? realData.metadata.date;
+  
+  // 竞争对手租赁：只推荐 NPV 为正的交换，调入具体的仓库库存（剩余租期按客户/设备类别的历史租期预测）
+  const hirePredictions = predictHireDurations(realData.assets, planningDate, params.hireDuration);
+  const swaps = planSwaps(realData.assets, DEFAULT_DEPOT_STOCK, matrix, {
+    planningDate,
+    defaultHireDays: params.hireDuration,
+    hirePredictions
+  });
   
-  // Find competitor rentals for swap decisions
-  const competitorRentals = realData.assets.filter((a: any) => a.rental_info?.is_competitor_rental);
-  
-  competitorRentals.slice(0, 3).forEach((asset: any, index: number) => {
-    const savingsPerDay = 180 - 30; // Competitor rate vs own equipment cost
-    const totalSavings = savingsPerDay * params.hireDuration;
-    
+  swaps.forEach(swap => {
     decisions.push({
-      assetId: asset.id,
+      assetId: swap.siteId,
       decision: 'EXECUTE_SWAP',
-      reason: `Competitor rental at $180/day. Swap with own equipment saves $${totalSavings} over ${params.hireDuration} days. One-time swap cost: $85.`,
-      relatedAssetId: `DEPOT-${index + 1}`
+      reason: `Competitor rental of ${swap.quantity} × ${swap.category} at $${swap.competitorDailyRate.toFixed(2)}/day each vs own $${swap.ownDailyCost.toFixed(2)}/day. ` +
+        `Swap in ${swap.stockItemId} from ${swap.depotId} for the predicted remaining ${swap.remainingDays} days (80% band ${swap.remainingDaysLow}–${swap.remainingDaysHigh}): ` +
+        `transport $${swap.transportCost.toFixed(0)}, NPV $${swap.npv.toFixed(0)} ($${swap.npvLow.toFixed(0)} to $${swap.npvHigh.toFixed(0)}).`,
+      relatedAssetId: swap.stockItemId,
+      swap
     });
   });
   
-  // Find assets that need retrieval based on utilization rate
-  if (params.utilizationRate < 70) {
-    const inUseAssets = realData.assets.filter((a: any) => a.status === 'active').slice(0, 2);
-    inUseAssets.forEach((asset: any) => {
+  // 留在工地 / 收回仓库：逻辑回归模型（已安排交换的工地不再判断）
+  const swappedSiteIds = new Set(swaps.map(swap => swap.siteId));
+  realData.assets
+    .filter(asset => !swappedSiteIds.has(asset.id))
+    .forEach(asset => {
+      const prediction = predictStayRetrieve(asset, { planningDate, utilisationRate: params.utilizationRate, matrix }, stayRetrieveModel);
       decisions.push({
         assetId: asset.id,
-      decision: 'RETRIEVE_TO_DEPOT',
-        reason: `Low utilization rate (${params.utilizationRate}%). Better to retrieve and redeploy to higher-demand area.`
+        decision: prediction.decision,
+        reason: describeStayRetrieve(prediction)
       });
     });
-  }
   
-  // Assets needing inspection (simulate some)
-  const randomAssets = realData.assets.slice(5, 7);
-  randomAssets.forEach((asset: any) => {
-    decisions.push({
-      assetId: asset.id,
-      decision: 'SCHEDULE_INSPECTION',
-      reason: 'Predictive maintenance model indicates potential issue. Schedule proactive inspection.'
+  // 健康模型：低于检查阈值或超过检查间隔的工地安排检查（评分低的在前）
+  realData.assets
+    .map(asset => ({ asset, health: assessHealth(asset, planningDate) }))
+    .filter(({ health }) => needsInspection(health, params.health))
+    .sort((a, b) => a.health.score - b.health.score)
+    .forEach(({ asset, health }) => {
+      decisions.push({
+        assetId: asset.id,
+        decision: 'SCHEDULE_INSPECTION',
+        reason: describeHealth(health, params.health)
+      });
     });
-  });
   
   return decisions;
 };
 
 // Generate optimized routes from real transport tasks with alternatives
-const generateOptimizedRoutes = (realData: any) => {
-  // 先过滤出有任务的工地（严格检查）
-  const sitesWithTasks = realData.assets.filter((a: any) => {
-    if (!a.transport_tasks) return false;
-    if (!Array.isArray(a.transport_tasks)) return false;
-    if (a.transport_tasks.length === 0) return false;
-    return true;
-  });
+const generateOptimizedRoutes = async (realData: ContractDataset, params: SimulationParams) => {
+  // 先过滤出有任务的工地
+  const sitesWithTasks = realData.assets.filter(a => a.transport_tasks.length > 0);
   
   console.log(`🔧 Using ${sitesWithTasks.length} sites with tasks for optimization`);
+  const travelMatrix = await buildTravelMatrix([...sitesWithTasks, ...realData.assets.filter(isCompetitorRental)], params);
   
   // 使用真实的优化算法
-  const optimizationResult = optimizeRoutesWithAlternatives(
-    sitesWithTasks, // 只传递有任务的工地
-    depotLocation,
-    4 // 4辆车
-  );
+  const optimizationResult = await runRouteOptimizer({
+    sites: sitesWithTasks, // 只传递有任务的工地
+    fleet: params.fleet,
+    depotMode: params.depotAssignment,
+    shift: getVehicleShift(params),
+    seed: params.seed ?? randomSeed(),
+    clustering: params.clustering,
+    travelMatrix
+  }).result;
   
   console.log(`✅ Route optimization complete:`, {
     iterations: optimizationResult.iterations,
     bestDistance: optimizationResult.bestSolution.reduce((sum, r) => sum + (r.totalDistance || 0), 0),
-    alternativesGenerated: optimizationResult.alternativeSolutions.length
+    alternativesGenerated: optimizationResult.alternativeSolutions.length,
+    paretoFrontSize: optimizationResult.paretoFront.length
   });
   
+  const toOptimizedRoutes = (routes: typeof optimizationResult.bestSolution): OptimizedRoute[] => routes.map(r => ({
+    vehicleId: r.vehicleId,
+    vehicleName: r.vehicleName,
+    depotId: r.depotId,
+    route: r.route,
+    stops: r.stops,
+    trips: r.trips,
+    peakUtilisation: r.peakUtilisation,
+    startTime: r.startTime,
+    endTime: r.endTime,
+    violations: r.violations,
+    distance: r.totalDistance
+  }));
+  
   return {
-    optimizedRoutes: optimizationResult.bestSolution.map(r => ({
-      vehicleId: r.vehicleId,
-      route: r.route,
-      distance: r.totalDistance
+    optimizedRoutes: toOptimizedRoutes(optimizationResult.bestSolution),
+    paretoFront: optimizationResult.paretoFront.map(({ solution, objectives, deferredSiteIds }) => ({
+      objectives,
+      totalDistance: solution.reduce((sum, r) => sum + r.totalDistance, 0),
+      routes: toOptimizedRoutes(solution),
+      deferredSiteIds
     })),
+    selectedTradeOff: Math.max(0, optimizationResult.paretoFront.findIndex(({ solution }) => 
+      solution === optimizationResult.bestSolution)),
+    seed: optimizationResult.seed,
+    travelMatrix,
+    unservedSiteIds: optimizationResult.unservedSiteIds,
+    deferredSiteIds: optimizationResult.deferredSiteIds,
     alternativeRoutes: optimizationResult.alternativeSolutions.map(solution =>
       solution.map(r => ({
         vehicleId: r.vehicleId,
+        depotId: r.depotId,
         route: r.route
       }))
     )
   };
 };
 
-// Mapbox access token
-const MAPBOX_TOKEN = 'pk.eyJ1IjoiNm1nc3UiLCJhIjoiY21kcXo3em8xMGN5ajJxb24wNGhueHY5bSJ9.kLetJ6uuRtlJp1dRwqP8Zg';
-
 // Calculate real savings based on actual optimization results
-const calculateRealSavings = async (realData: any, optimizedRoutes: any[]) => {
-  const depot = depotLocation;
-  
-  // 从优化路线中提取实际访问的工地（不包括起点和终点）
+// 优化前后都按同一个行驶矩阵计算距离，保证对比口径一致
+const calculateRealSavings = (realData: ContractDataset, optimizedRoutes: OptimizedRoute[], matrix: TravelMatrix) => {
+  // 从优化路线的访问明细中提取实际访问的工地（路线中途可能回仓库装货）
   const visitedSites = new Set<string>();
   optimizedRoutes.forEach(route => {
-    // route.route = [depot, site1, site2, ..., siteN, depot]
-    for (let i = 1; i < route.route.length - 1; i++) {
-      const siteKey = `${route.route[i].lat},${route.route[i].lng}`;
-      visitedSites.add(siteKey);
-    }
+    route.stops?.forEach((stop: PlannedStop) => visitedSites.add(stop.siteId));
   });
   
   // 找到对应的工地对象
-  const sitesToVisit = realData.assets.filter((asset: any) => {
-    const key = `${asset.location.lat},${asset.location.lng}`;
-    return visitedSites.has(key);
-  });
+  const sitesToVisit = realData.assets.filter(asset => visitedSites.has(asset.id));
   
-  console.log(`📊 Calculating savings for ${sitesToVisit.length} sites that will be visited`);
-  
-  // Haversine距离计算（用于fallback）
-  const calcDist = (a: any, b: any) => {
-    const R = 6371;
-    const dLat = (b.lat - a.lat) * Math.PI / 180;
-    const dLon = (b.lng - a.lng) * Math.PI / 180;
-    const a1 = Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) *
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a1), Math.sqrt(1-a1));
-    return R * c;
-  };
+  console.log(`📊 Calculating savings for ${sitesToVisit.length} sites that will be visited (${matrix.provider} matrix)`);
   
-  // 未优化：每个被选中的工地独立往返，全部调用Mapbox API获取真实道路距离
-  console.log(`📡 Calling Mapbox API for ${sitesToVisit.length} sites (round trips)...`);
+  // 未优化：每个被选中的工地从其所属仓库独立往返
+  const unoptimizedDistance = sitesToVisit.reduce((sum, site) => {
+    const depot = getOwningDepot(site).location;
+    return sum + matrix.distance(depot, site.location) + matrix.distance(site.location, depot);
+  }, 0);
   
-  const unoptimizedPromises = sitesToVisit.map(async (site: any, index: number) => {
-    const waypoints = `${depot.lng},${depot.lat};${site.location.lng},${site.location.lat};${depot.lng},${depot.lat}`;
-    const url = `https://api.mapbox.com/directions/v5/mapbox/driving/${waypoints}?geometries=geojson&access_token=${MAPBOX_TOKEN}`;
-    
-    try {
-      const response = await fetch(url);
-      if (response.ok) {
-        const data = await response.json();
-        if (data.routes && data.routes[0]) {
-          const realDist = data.routes[0].distance / 1000; // 转换为km
-          if ((index + 1) % 10 === 0) {
-            console.log(`  Progress: ${index + 1}/${sitesToVisit.length} sites...`);
-          }
-          return realDist;
-        }
-      }
-    } catch (error) {
-      // Fallback: 使用Haversine × 1.4道路系数
-      const straightDist = calcDist(depot, site.location);
-      return straightDist * 2 * 1.4;
-    }
-    return 0;
-  });
-  
-  const allUnoptimizedDistances = await Promise.all(unoptimizedPromises);
-  const unoptimizedDistance = allUnoptimizedDistances.reduce((sum, d) => sum + d, 0);
-  
-  console.log(`📏 Unoptimized (${sitesToVisit.length} sites, real roads via Mapbox): ${unoptimizedDistance.toFixed(1)} km`);
+  console.log(`📏 Unoptimized (${sitesToVisit.length} sites, depot round trips): ${unoptimizedDistance.toFixed(1)} km`);
   
-  // 优化后：使用realRoadDistance（如果有）或用系数修正
-  let optimizedDistance = 0;
-  if (optimizedRoutes && optimizedRoutes.length > 0) {
-    // 检查是否有真实道路距离
-    const hasRealDistances = optimizedRoutes.some(r => r.realRoadDistance);
-    
-    if (hasRealDistances) {
-      optimizedDistance = optimizedRoutes.reduce((sum, route) => 
-        sum + (route.realRoadDistance || route.distance || 0), 0);
-      console.log(`📏 Optimized (real road distance from Mapbox): ${optimizedDistance.toFixed(1)} km`);
-    } else {
-      // 使用算法距离 × 道路系数
-      const straightDist = optimizedRoutes.reduce((sum, route) => 
-        sum + (route.distance || 0), 0);
-      optimizedDistance = straightDist * 1.4;
-      console.log(`📏 Optimized (estimated with road factor): ${optimizedDistance.toFixed(1)} km`);
+  // 优化后：沿每条路线（含中途回仓库）逐段查表
+  const optimizedDistance = optimizedRoutes.reduce((sum, route) => {
+    let distance = 0;
+    for (let i = 0; i < route.route.length - 1; i++) {
+      distance += matrix.distance(route.route[i], route.route[i + 1]);
     }
-  }
+    return sum + distance;
+  }, 0);
   
-  // 如果优化距离为0，使用估算
-  if (optimizedDistance === 0) {
-    console.warn('⚠️ No distance from optimizer, using estimate');
-    const sitesPerRoute = Math.ceil(sitesToVisit.length / 4);
-    optimizedDistance = (15 * sitesPerRoute + 20) * 4 * 1.4;
-  }
+  console.log(`📏 Optimized (${optimizedRoutes.length} routes): ${optimizedDistance.toFixed(1)} km`);
   
   const distanceSaving = unoptimizedDistance - optimizedDistance;
   
   // Cost calculation (真实对比)
   const avgTransportCost = 225; // 基于quotes.csv的真实费率
   const unoptimizedCost = sitesToVisit.length * avgTransportCost; // 实际访问的工地数 × 225
-  const optimizedCost = optimizedDistance / unoptimizedDistance * unoptimizedCost;
+  const optimizedCost = unoptimizedDistance > 0 ? optimizedDistance / unoptimizedDistance * unoptimizedCost : 0;
   const costSaving = unoptimizedCost - optimizedCost;
   
   // Emissions: ~0.2 kg CO2 per km
   const emissionsSaving = distanceSaving * 0.2;
   
-  console.log(`💰 Real savings calculation (100% Mapbox API):`, {
+  console.log(`💰 Real savings calculation (${matrix.provider} matrix):`, {
     sitesVisited: sitesToVisit.length,
     unoptimizedDist: unoptimizedDistance.toFixed(1),
     optimizedDist: optimizedDistance.toFixed(1),
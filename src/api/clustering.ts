@@ -0,0 +1,184 @@
+/**
+ * 工地聚类 - 为每辆车生成初始工地分组（路线优化的种子）
+ * k-means（中心为成员坐标均值）或 k-medoids（中心为某个成员工地），迭代到分配不再变化或中心移动小于阈值
+ * 均衡模式给每个聚类设上限（站点数或工作量），避免一辆车25站、另一辆车2站
+ */
+
+import { calculateDistance } from './travelMatrix';
+
+interface Location {
+  lat: number;
+  lng: number;
+}
+
+export type ClusteringMethod = 'kmeans' | 'kmedoids';
+export type ClusterBalance = 'none' | 'stops' | 'workload';
+
+export interface ClusteringOptions {
+  method: ClusteringMethod;
+  balance: ClusterBalance;
+}
+
+export const DEFAULT_CLUSTERING: ClusteringOptions = {
+  method: 'kmeans',
+  balance: 'workload',
+};
+
+export interface ClusterConfig<T> extends Partial<ClusteringOptions> {
+  getWeight?: (item: T) => number; // 工作量（balance 为 workload 时使用，如服务分钟 + 往返行驶分钟）
+  maxIterations?: number;
+  tolerance?: number;              // 中心移动小于该距离（km）视为收敛
+  slack?: number;                  // 工作量上限 = 平均工作量 × (1 + slack)
+}
+
+export interface ClusterResult<T> {
+  clusters: T[][];      // 长度为 k（工地数不少于 k 时每个聚类至少一个工地）
+  centres: Location[];
+  iterations: number;
+  converged: boolean;
+}
+
+function meanLocation(locations: Location[]): Location {
+  return {
+    lat: locations.reduce((sum, l) => sum + l.lat, 0) / locations.length,
+    lng: locations.reduce((sum, l) => sum + l.lng, 0) / locations.length,
+  };
+}
+
+/**
+ * 最远点初始化：先取离整体中心最远的工地，之后每次取离已选中心最远的工地（确定性，不依赖随机源）
+ */
+function farthestPointSeeds(locations: Location[], k: number): Location[] {
+  const centre = meanLocation(locations);
+  const seeds: Location[] = [];
+  let next = locations.reduce((best, l) => calculateDistance(centre, l) > calculateDistance(centre, best) ? l : best);
+
+  while (seeds.length < k) {
+    seeds.push(next);
+    next = locations.reduce((best, l) => {
+      const distance = Math.min(...seeds.map(s => calculateDistance(s, l)));
+      const bestDistance = Math.min(...seeds.map(s => calculateDistance(s, best)));
+      return distance > bestDistance ? l : best;
+    });
+  }
+  return seeds;
+}
+
+/**
+ * 每个工地分到最近的中心
+ */
+function assignNearest(locations: Location[], centres: Location[]): number[] {
+  return locations.map(location => centres.reduce(
+    (best, centre, index) => calculateDistance(centre, location) < calculateDistance(centres[best], location) ? index : best,
+    0
+  ));
+}
+
+/**
+ * 带上限的分配：与次近中心距离差最大（最"挑"）的工地先分，放不下时分到下一个近的中心；
+ * 所有中心都满时分到超出最少的中心
+ */
+function assignBalanced(locations: Location[], centres: Location[], weights: number[], limit: number): number[] {
+  const assignment = locations.map(() => 0);
+  const load = centres.map(() => 0);
+  const ranked = locations.map((location, item) => {
+    const order = centres
+      .map((centre, index) => ({ index, distance: calculateDistance(centre, location) }))
+      .sort((a, b) => a.distance - b.distance);
+    const regret = order.length > 1 ? order[1].distance - order[0].distance : 0;
+    return { item, order, regret };
+  });
+
+  ranked
+    .sort((a, b) => b.regret - a.regret)
+    .forEach(({ item, order }) => {
+      const fit = order.find(({ index }) => load[index] + weights[item] <= limit + 1e-9);
+      const target = fit
+        ? fit.index
+        : order.reduce((best, option) => load[option.index] < load[best.index] ? option : best).index;
+      assignment[item] = target;
+      load[target] += weights[item];
+    });
+
+  return assignment;
+}
+
+/**
+ * 聚类中心：k-means 取均值，k-medoids 取到其他成员距离之和最小的成员
+ */
+function updateCentre(members: Location[], method: ClusteringMethod): Location {
+  if (method === 'kmeans') return meanLocation(members);
+  return members.reduce((best, candidate) => {
+    const total = (c: Location) => members.reduce((sum, m) => sum + calculateDistance(c, m), 0);
+    return total(candidate) < total(best) ? candidate : best;
+  });
+}
+
+/**
+ * 把工地分成 k 组（k 大于工地数时按工地数）
+ */
+export function clusterLocations<T extends { location: Location }>(
+  items: T[],
+  k: number,
+  config: ClusterConfig<T> = {}
+): ClusterResult<T> {
+  const {
+    method = DEFAULT_CLUSTERING.method,
+    balance = DEFAULT_CLUSTERING.balance,
+    getWeight = () => 1,
+    maxIterations = 50,
+    tolerance = 0.01,
+    slack = 0.15,
+  } = config;
+  const count = Math.min(k, items.length);
+  if (count <= 0) return { clusters: [], centres: [], iterations: 0, converged: true };
+
+  const locations = items.map(item => item.location);
+  const weights = balance === 'workload' ? items.map(getWeight) : items.map(() => 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const limit = balance === 'stops'
+    ? Math.ceil(items.length / count)
+    : totalWeight / count * (1 + slack);
+
+  let centres = farthestPointSeeds(locations, count);
+  let assignment: number[] = [];
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < maxIterations && !converged) {
+    iterations++;
+    const next = balance === 'none'
+      ? assignNearest(locations, centres)
+      : assignBalanced(locations, centres, weights, limit);
+
+    // 空聚类：取离自己中心最远的工地重新作为中心（不均衡模式下可能出现）
+    for (let cluster = 0; cluster < count; cluster++) {
+      if (next.includes(cluster)) continue;
+      let donor = -1;
+      let donorDistance = -1;
+      next.forEach((c, item) => {
+        if (next.filter(x => x === c).length < 2) return;
+        const distance = calculateDistance(centres[c], locations[item]);
+        if (distance > donorDistance) {
+          donor = item;
+          donorDistance = distance;
+        }
+      });
+      if (donor !== -1) next[donor] = cluster;
+    }
+
+    const unchanged = next.every((cluster, item) => cluster === assignment[item]);
+    assignment = next;
+    const updated = centres.map((centre, cluster) => {
+      const members = locations.filter((_, item) => assignment[item] === cluster);
+      return members.length > 0 ? updateCentre(members, method) : centre;
+    });
+    const shift = Math.max(...updated.map((centre, cluster) => calculateDistance(centre, centres[cluster])));
+    centres = updated;
+    converged = unchanged || shift < tolerance;
+  }
+
+  const clusters: T[][] = centres.map(() => []);
+  items.forEach((item, index) => clusters[assignment[index]].push(item));
+  return { clusters, centres, iterations, converged };
+}
@@ -0,0 +1,276 @@
+/**
+ * CSV 导入 - 租赁系统导出的合同、设备明细和运输费用三张表
+ * 流程：解析 CSV → 识别表类型 → 列映射（自动猜测，可在界面调整）→ 按合同号合并成 real_data.json 的结构
+ * 合并结果交给 validateDataset 校验，与加载 real_data.json 走同一套规则
+ */
+
+import { classifyTransportTask, validateDataset, type ContractDataset, type DatasetValidationReport } from './dataset';
+
+export type CsvFileKind = 'contracts' | 'equipment' | 'transport';
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface CsvField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases: string[]; // 自动映射时匹配的列名（小写、去掉非字母数字后比较）
+}
+
+// 字段 → 列序号（-1 表示未映射）
+export type CsvColumnMapping = Record<string, number>;
+
+export interface CsvImportFile {
+  name: string;
+  kind: CsvFileKind;
+  table: CsvTable;
+  mapping: CsvColumnMapping;
+}
+
+export interface CsvImportPreview {
+  dataset: ContractDataset;
+  report: DatasetValidationReport;
+  sites: number;
+  sitesWithTasks: number;
+  deliveries: number;
+  collections: number;
+  tasks: number;
+  customers: number;
+  unmatchedRows: number; // 设备/运输行找不到对应合同
+  missingFields: string[]; // 未映射的必填字段（"Contracts: Latitude"）
+}
+
+export const CSV_FILE_KINDS: { id: CsvFileKind; label: string }[] = [
+  { id: 'contracts', label: 'Contracts' },
+  { id: 'equipment', label: 'Equipment lines' },
+  { id: 'transport', label: 'Transport charges' },
+];
+
+export const CSV_FIELDS: Record<CsvFileKind, CsvField[]> = {
+  contracts: [
+    { key: 'id', label: 'Contract ID', required: true, aliases: ['id', 'contractid', 'contract', 'contractno', 'contractnumber', 'hireno', 'hirecontract'] },
+    { key: 'customer', label: 'Customer', aliases: ['customer', 'customerid', 'customercode', 'client', 'account'] },
+    { key: 'status', label: 'Status', aliases: ['status', 'contractstatus'] },
+    { key: 'type', label: 'Contract type', aliases: ['type', 'contracttype', 'category', 'division'] },
+    { key: 'lat', label: 'Latitude', required: true, aliases: ['lat', 'latitude', 'sitelat', 'sitelatitude'] },
+    { key: 'lng', label: 'Longitude', required: true, aliases: ['lng', 'lon', 'long', 'longitude', 'sitelng', 'sitelongitude'] },
+    { key: 'address', label: 'Address', aliases: ['address', 'siteaddress', 'deliveryaddress', 'street'] },
+    { key: 'suburb', label: 'Suburb', aliases: ['suburb', 'city', 'town', 'sitesuburb'] },
+    { key: 'postcode', label: 'Postcode', aliases: ['postcode', 'postalcode', 'zip'] },
+    { key: 'start', label: 'Start date', aliases: ['start', 'startdate', 'hirestart', 'datestart', 'onhire'] },
+    { key: 'end', label: 'End date', aliases: ['end', 'enddate', 'hireend', 'dateend', 'offhire'] },
+    { key: 'depot', label: 'Depot', aliases: ['depot', 'depotname', 'branch', 'location'] },
+  ],
+  equipment: [
+    { key: 'contractId', label: 'Contract ID', required: true, aliases: ['contractid', 'contract', 'contractno', 'contractnumber', 'hireno', 'id'] },
+    { key: 'description', label: 'Description', required: true, aliases: ['description', 'item', 'itemdescription', 'equipment', 'product'] },
+    { key: 'quantity', label: 'Quantity', aliases: ['quantity', 'qty', 'units'] },
+    { key: 'rate', label: 'Rate', aliases: ['rate', 'dailyrate', 'price', 'unitprice'] },
+  ],
+  transport: [
+    { key: 'contractId', label: 'Contract ID', required: true, aliases: ['contractid', 'contract', 'contractno', 'contractnumber', 'hireno', 'id'] },
+    { key: 'type', label: 'Task type', required: true, aliases: ['type', 'tasktype', 'description', 'transport', 'charge', 'chargetype'] },
+    { key: 'chargeRate', label: 'Charge rate', aliases: ['chargerate', 'rate', 'price', 'unitprice'] },
+    { key: 'totalCharge', label: 'Total charge', aliases: ['totalcharge', 'total', 'amount', 'linetotal'] },
+    { key: 'quantity', label: 'Quantity', aliases: ['quantity', 'qty'] },
+  ],
+};
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * 解析 CSV 文本（支持引号内的逗号、换行和 "" 转义；分隔符为逗号、分号或制表符，按首行自动判断）
+ */
+export function parseCsv(text: string): CsvTable {
+  const content = text.replace(/^\uFEFF/, ''); // 去掉 Excel 导出的 BOM
+  const firstLine = content.slice(0, content.indexOf('\n') === -1 ? undefined : content.indexOf('\n'));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map(h => h.trim()), rows };
+}
+
+/**
+ * 按列名自动映射字段（未匹配的为 -1）
+ */
+export function guessColumnMapping(headers: string[], kind: CsvFileKind): CsvColumnMapping {
+  const normalised = headers.map(normaliseHeader);
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<number>();
+  CSV_FIELDS[kind].forEach(field => {
+    const index = field.aliases
+      .map(alias => normalised.findIndex((header, i) => header === alias && !used.has(i)))
+      .find(i => i !== -1) ?? -1;
+    mapping[field.key] = index;
+    if (index !== -1) used.add(index);
+  });
+  return mapping;
+}
+
+/**
+ * 按列名判断表类型：有坐标列的是合同表，有设备描述的是设备表，其余按运输费用表处理
+ */
+export function detectFileKind(headers: string[]): CsvFileKind {
+  const score = (kind: CsvFileKind) => {
+    const mapping = guessColumnMapping(headers, kind);
+    return CSV_FIELDS[kind].filter(field => field.required && mapping[field.key] !== -1).length
+      / CSV_FIELDS[kind].filter(field => field.required).length;
+  };
+  if (score('contracts') === 1) return 'contracts';
+  const normalised = headers.map(normaliseHeader);
+  if (normalised.some(h => ['tasktype', 'chargetype', 'totalcharge', 'chargerate'].includes(h))) return 'transport';
+  return score('equipment') >= score('transport') ? 'equipment' : 'transport';
+}
+
+/**
+ * 读取文件内容并生成待导入项（自动识别表类型和列映射）
+ */
+export function createImportFile(name: string, text: string): CsvImportFile {
+  const table = parseCsv(text);
+  const kind = detectFileKind(table.headers);
+  return { name, kind, table, mapping: guessColumnMapping(table.headers, kind) };
+}
+
+// 按映射读取一行的字段（未映射或为空时返回 undefined）
+const readField = (file: CsvImportFile, row: string[], key: string): string | undefined => {
+  const index = file.mapping[key] ?? -1;
+  const value = index === -1 ? undefined : row[index]?.trim();
+  return value === '' ? undefined : value;
+};
+
+// 数字列去掉货币符号和千位分隔符
+const readNumber = (file: CsvImportFile, row: string[], key: string): number | undefined => {
+  const value = readField(file, row, key)?.replace(/[$,\s]/g, '');
+  const number = value === undefined ? NaN : Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * 按合同号合并三张表，校验后返回数据集和导入预览统计
+ */
+export function previewCsvImport(files: CsvImportFile[]): CsvImportPreview {
+  const missingFields = files.flatMap(file => CSV_FIELDS[file.kind]
+    .filter(field => field.required && (file.mapping[field.key] ?? -1) === -1)
+    .map(field => `${CSV_FILE_KINDS.find(k => k.id === file.kind)?.label}: ${field.label}`));
+
+  // 合同表的每一行是一个合同（同一合同号出现多次时由校验报告为重复）
+  type ContractDraft = Record<string, unknown> & { equipment: unknown[]; transport_tasks: unknown[] };
+  const contracts: ContractDraft[] = [];
+  const byId = new Map<string, ContractDraft>();
+  files.filter(file => file.kind === 'contracts').forEach(file => {
+    file.table.rows.forEach(row => {
+      const id = readField(file, row, 'id');
+      const depot = readField(file, row, 'depot');
+      const contract: ContractDraft = {
+        id,
+        type: readField(file, row, 'type'),
+        customer: readField(file, row, 'customer'),
+        status: readField(file, row, 'status'),
+        location: {
+          lat: readNumber(file, row, 'lat'),
+          lng: readNumber(file, row, 'lng'),
+          address: readField(file, row, 'address'),
+          suburb: readField(file, row, 'suburb'),
+          postcode: readField(file, row, 'postcode'),
+        },
+        equipment: [],
+        transport_tasks: [],
+        dates: { start: readField(file, row, 'start'), end: readField(file, row, 'end') },
+        depot: depot ? { name: depot.toUpperCase() } : null,
+      };
+      contracts.push(contract);
+      if (id && !byId.has(id)) byId.set(id, contract);
+    });
+  });
+
+  let unmatchedRows = 0;
+  files.filter(file => file.kind !== 'contracts').forEach(file => {
+    file.table.rows.forEach(row => {
+      const contractId = readField(file, row, 'contractId');
+      const contract = contractId ? byId.get(contractId) : undefined;
+      if (!contract) {
+        unmatchedRows++;
+        return;
+      }
+      if (file.kind === 'equipment') {
+        contract.equipment.push({
+          description: readField(file, row, 'description'),
+          quantity: readNumber(file, row, 'quantity'),
+          rate: readNumber(file, row, 'rate'),
+        });
+      } else {
+        contract.transport_tasks.push({
+          type: readField(file, row, 'type'),
+          charge_rate: readNumber(file, row, 'chargeRate'),
+          total_charge: readNumber(file, row, 'totalCharge'),
+          quantity: readNumber(file, row, 'quantity') ?? null,
+        });
+      }
+    });
+  });
+
+  const { dataset, report } = validateDataset({
+    metadata: {
+      title: 'CSV import',
+      data_source: files.map(file => file.name).join(', '),
+      extraction_date: new Date().toISOString(),
+      total_assets: contracts.length,
+    },
+    assets: contracts,
+  });
+
+  const tasks = dataset.assets.flatMap(asset => asset.transport_tasks);
+  return {
+    dataset,
+    report,
+    sites: dataset.assets.length,
+    sitesWithTasks: dataset.assets.filter(asset => asset.transport_tasks.length > 0).length,
+    deliveries: tasks.filter(task => classifyTransportTask(task.type) === 'delivery').length,
+    collections: tasks.filter(task => classifyTransportTask(task.type) === 'collection').length,
+    tasks: tasks.length,
+    customers: new Set(dataset.assets.map(asset => asset.customer).filter(Boolean)).size,
+    unmatchedRows,
+    missingFields,
+  };
+}
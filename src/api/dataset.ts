@@ -0,0 +1,339 @@
+/**
+ * 合同数据集（public/real_data.json）的类型定义和运行时校验
+ * 加载时逐条检查记录：
+ * - 错误（缺少ID、缺少或无效坐标）：记录无法上地图/参与规划，直接剔除
+ * - 警告（未知运输任务类型、设备数量为0、日期无效、未知仓库等）：记录保留，字段按默认值处理
+ * 校验报告在控制面板显示，不再只打印到控制台
+ */
+
+import { DEFAULT_DEPOT, getDepot } from './depots';
+
+export interface ContractLocation {
+  lat: number;
+  lng: number;
+  address?: string;
+  suburb?: string;
+  postcode?: string | null;
+}
+
+export interface EquipmentItem {
+  description: string;
+  quantity: number;
+  rate: number;
+}
+
+export interface TransportTask {
+  type: string; // 原始描述，如 "Collection x 25 WFB"
+  charge_rate: number;
+  total_charge: number;
+  quantity: number | null;
+}
+
+export interface ContractDates {
+  start?: string;
+  end?: string;
+}
+
+export interface InspectionRecord {
+  date: string;
+  score?: number; // 检查后的健康评分（0-100），缺省视为 100
+  notes?: string;
+}
+
+export interface ContractRentalInfo {
+  is_competitor_rental?: boolean;
+  competitor?: string;
+  competitor_daily_rate?: number; // 竞争对手每件每天的租金（AUD）
+}
+
+export interface ContractRecord {
+  id: string;
+  type: string;
+  customer: string;
+  status: string;
+  location: ContractLocation;
+  equipment: EquipmentItem[];
+  transport_tasks: TransportTask[];
+  dates: ContractDates | null;
+  depot: { name?: string; address?: string } | null;
+  rental_info: ContractRentalInfo | null;
+  inspections: InspectionRecord[]; // 历史检查记录（健康模型使用）
+  time_window?: { start?: string; end?: string } | null;
+}
+
+export interface DatasetMetadata {
+  title?: string;
+  date?: string; // 数据快照日期（作为计划日期）
+  location?: string;
+  total_assets?: number;
+  data_source?: string;
+  extraction_date?: string;
+}
+
+export interface ContractDataset {
+  metadata: DatasetMetadata;
+  assets: ContractRecord[];
+}
+
+// 运输任务的类别（由描述文字推断）
+export type TransportTaskKind = 'delivery' | 'collection' | 'transport';
+
+export type DatasetIssueCode =
+  | 'invalid_record'
+  | 'missing_id'
+  | 'duplicate_id'
+  | 'missing_coordinates'
+  | 'invalid_coordinates'
+  | 'unknown_task_type'
+  | 'zero_quantity'
+  | 'invalid_date'
+  | 'unknown_depot';
+
+export interface DatasetIssue {
+  recordId: string; // 缺少ID时为 "#序号"
+  code: DatasetIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface DatasetValidationReport {
+  totalRecords: number;
+  validRecords: number;
+  rejectedRecords: number;
+  issues: DatasetIssue[];
+  counts: Partial<Record<DatasetIssueCode, number>>;
+}
+
+export const ISSUE_LABELS: Record<DatasetIssueCode, string> = {
+  invalid_record: 'Malformed record',
+  missing_id: 'Missing contract ID',
+  duplicate_id: 'Duplicate contract ID',
+  missing_coordinates: 'Missing coordinates',
+  invalid_coordinates: 'Coordinates out of range',
+  unknown_task_type: 'Unknown transport task type',
+  zero_quantity: 'Zero equipment quantity',
+  invalid_date: 'Invalid contract date',
+  unknown_depot: 'Unknown depot',
+};
+
+// 坐标合理范围（维多利亚州）
+const VALID_LAT = { min: -39.2, max: -33.9 };
+const VALID_LNG = { min: 140.9, max: 150.0 };
+
+type UnknownRecord = Record<string, unknown>;
+
+const isObject = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+
+const asNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * 由任务描述推断类别（"Delivery x 5"、"Collection - Gawk Screens"、"Transport - Flat top semi"）
+ */
+export function classifyTransportTask(type: string): TransportTaskKind | null {
+  const text = type.toLowerCase();
+  if (text.includes('delivery')) return 'delivery';
+  if (text.includes('collection')) return 'collection';
+  if (text.includes('transport')) return 'transport';
+  return null;
+}
+
+/**
+ * 校验单条记录；返回 null 表示记录被剔除（原因写入 issues）
+ */
+function validateRecord(raw: unknown, index: number, issues: DatasetIssue[]): ContractRecord | null {
+  const fallbackId = `#${index + 1}`;
+  const report = (recordId: string, code: DatasetIssueCode, severity: DatasetIssue['severity'], message: string) =>
+    issues.push({ recordId, code, severity, message });
+
+  if (!isObject(raw)) {
+    report(fallbackId, 'invalid_record', 'error', 'Record is not an object');
+    return null;
+  }
+
+  const id = asString(raw.id)?.trim();
+  if (!id) {
+    report(fallbackId, 'missing_id', 'error', 'Record has no contract ID');
+    return null;
+  }
+
+  const location = isObject(raw.location) ? raw.location : null;
+  const lat = asNumber(location?.lat);
+  const lng = asNumber(location?.lng);
+  if (lat === undefined || lng === undefined) {
+    report(id, 'missing_coordinates', 'error', 'Site has no latitude/longitude and cannot be mapped or routed');
+    return null;
+  }
+  if (lat < VALID_LAT.min || lat > VALID_LAT.max || lng < VALID_LNG.min || lng > VALID_LNG.max) {
+    report(id, 'invalid_coordinates', 'error', `Coordinates ${lat.toFixed(4)}, ${lng.toFixed(4)} are outside Victoria`);
+    return null;
+  }
+
+  const equipment: EquipmentItem[] = (Array.isArray(raw.equipment) ? raw.equipment : [])
+    .filter(isObject)
+    .map(item => ({
+      description: asString(item.description) ?? '',
+      quantity: asNumber(item.quantity) ?? 0,
+      rate: asNumber(item.rate) ?? 0,
+    }));
+  equipment.forEach(item => {
+    if (item.quantity <= 0) {
+      report(id, 'zero_quantity', 'warning', `"${item.description || 'Unnamed item'}" has quantity ${item.quantity}; it adds no load`);
+    }
+  });
+
+  const transportTasks: TransportTask[] = (Array.isArray(raw.transport_tasks) ? raw.transport_tasks : [])
+    .filter(isObject)
+    .map(task => ({
+      type: asString(task.type) ?? '',
+      charge_rate: asNumber(task.charge_rate) ?? 0,
+      total_charge: asNumber(task.total_charge) ?? 0,
+      quantity: asNumber(task.quantity) ?? null,
+    }));
+  transportTasks.forEach(task => {
+    if (!classifyTransportTask(task.type)) {
+      report(id, 'unknown_task_type', 'warning', `Task type "${task.type || '(empty)'}" is neither a delivery nor a collection`);
+    }
+  });
+
+  let dates: ContractDates | null = null;
+  if (isObject(raw.dates)) {
+    dates = {};
+    for (const key of ['start', 'end'] as const) {
+      const value = asString(raw.dates[key]);
+      if (value === undefined) continue;
+      if (Number.isFinite(Date.parse(value))) {
+        dates[key] = value;
+      } else {
+        report(id, 'invalid_date', 'warning', `Contract ${key} date "${value}" cannot be parsed`);
+      }
+    }
+  }
+
+  const inspections: InspectionRecord[] = [];
+  (Array.isArray(raw.inspections) ? raw.inspections : []).filter(isObject).forEach(inspection => {
+    const date = asString(inspection.date);
+    if (date === undefined || !Number.isFinite(Date.parse(date))) {
+      report(id, 'invalid_date', 'warning', `Inspection date "${date ?? '(missing)'}" cannot be parsed; inspection ignored`);
+      return;
+    }
+    const score = asNumber(inspection.score);
+    inspections.push({
+      date,
+      score: score === undefined ? undefined : Math.max(0, Math.min(100, score)),
+      notes: asString(inspection.notes),
+    });
+  });
+
+  const depot = isObject(raw.depot)
+    ? { name: asString(raw.depot.name), address: asString(raw.depot.address) }
+    : null;
+  if (depot?.name && getDepot(depot.name) === DEFAULT_DEPOT) { // 与 getDepot 同样忽略空格和大小写
+    report(id, 'unknown_depot', 'warning', `Depot "${depot.name}" is not configured; the default depot is used`);
+  }
+
+  const rentalInfo: ContractRentalInfo | null = isObject(raw.rental_info)
+    ? {
+        is_competitor_rental: raw.rental_info.is_competitor_rental === true,
+        competitor: asString(raw.rental_info.competitor),
+        competitor_daily_rate: asNumber(raw.rental_info.competitor_daily_rate),
+      }
+    : null;
+  const timeWindow = isObject(raw.time_window)
+    ? { start: asString(raw.time_window.start), end: asString(raw.time_window.end) }
+    : null;
+
+  return {
+    id,
+    type: asString(raw.type) ?? 'equipment',
+    customer: asString(raw.customer) ?? '',
+    status: asString(raw.status) ?? '',
+    location: {
+      lat,
+      lng,
+      address: asString(location?.address),
+      suburb: asString(location?.suburb),
+      postcode: asString(location?.postcode) ?? null,
+    },
+    equipment,
+    transport_tasks: transportTasks,
+    dates,
+    depot,
+    rental_info: rentalInfo,
+    inspections,
+    time_window: timeWindow,
+  };
+}
+
+/**
+ * 校验整个数据集，返回可用记录和校验报告
+ */
+export function validateDataset(raw: unknown): { dataset: ContractDataset; report: DatasetValidationReport } {
+  const issues: DatasetIssue[] = [];
+  const root = isObject(raw) ? raw : {};
+  const records = Array.isArray(root.assets) ? root.assets : [];
+  if (!Array.isArray(root.assets)) {
+    issues.push({ recordId: 'dataset', code: 'invalid_record', severity: 'error', message: 'Dataset has no "assets" array' });
+  }
+
+  const seen = new Set<string>();
+  const assets: ContractRecord[] = [];
+  records.forEach((raw, index) => {
+    const record = validateRecord(raw, index, issues);
+    if (!record) return;
+    if (seen.has(record.id)) {
+      issues.push({ recordId: record.id, code: 'duplicate_id', severity: 'error', message: 'Contract ID appears more than once; later copy ignored' });
+      return;
+    }
+    seen.add(record.id);
+    assets.push(record);
+  });
+
+  const metadata = isObject(root.metadata) ? root.metadata : {};
+  const counts: DatasetValidationReport['counts'] = {};
+  issues.forEach(issue => { counts[issue.code] = (counts[issue.code] ?? 0) + 1; });
+
+  return {
+    dataset: {
+      metadata: {
+        title: asString(metadata.title),
+        date: asString(metadata.date),
+        location: asString(metadata.location),
+        total_assets: asNumber(metadata.total_assets),
+        data_source: asString(metadata.data_source),
+        extraction_date: asString(metadata.extraction_date),
+      },
+      assets,
+    },
+    report: {
+      totalRecords: records.length,
+      validRecords: assets.length,
+      rejectedRecords: records.length - assets.length,
+      issues,
+      counts,
+    },
+  };
+}
+
+/**
+ * 可读的校验报告（每类问题一段，列出涉及的记录）
+ */
+export function formatValidationReport(report: DatasetValidationReport): string {
+  const lines = [
+    `${report.validRecords} of ${report.totalRecords} records loaded` +
+      (report.rejectedRecords > 0 ? `, ${report.rejectedRecords} rejected` : ''),
+  ];
+  (Object.keys(ISSUE_LABELS) as DatasetIssueCode[]).forEach(code => {
+    const matching = report.issues.filter(issue => issue.code === code);
+    if (matching.length === 0) return;
+    lines.push('', `${ISSUE_LABELS[code]} (${matching.length}, ${matching[0].severity}):`);
+    matching.forEach(issue => lines.push(`  - ${issue.recordId}: ${issue.message}`));
+  });
+  return lines.join('\n');
+}
@@ -0,0 +1,259 @@
+/**
+ * 需求预测 - 由历史合同日期预测每周的送货和回收量
+ * - 历史：合同开始 = 一次送货，合同结束 = 一次回收（按周一为起点的周汇总，只用计划日期之前的事件）
+ * - 总量模型：月度季节指数（历史满两年才估计，并向 1 收缩）+ 阻尼 Holt 指数平滑，
+ *   平滑系数在浏览器内按一步预测误差网格搜索训练
+ * - 分区：总量按各 区域 × 设备类别 的近期占比（指数衰减加权）分摊
+ * - 计划日期之后已知的合同开始/结束作为已排定任务，预测值不低于已排定数
+ * - 有租期预测（见 hireDuration.ts）时，回收的下限改为在租合同在该周结束的概率之和
+ * - 本周的预测访问数在周计划中预留名额和车辆工时（见 getForecastVisits）
+ */
+
+import { getHireEndProbability, type HireDurationPrediction } from './hireDuration';
+import { getNearestSuburb } from './suburbs';
+import { getPrimaryCategory, type EquipmentCategory } from './vehicleTypes';
+
+export interface ForecastSite {
+  id?: string;
+  location: { lat: number; lng: number; suburb?: string };
+  dates?: { start?: string; end?: string } | null;
+  equipment?: Array<{ description: string; quantity: number }>;
+}
+
+export interface HoltModel {
+  alpha: number;
+  beta: number;
+  phi: number;          // 趋势阻尼
+  level: number;
+  trend: number;
+  seasonal: number[];   // 12 个月的乘法季节指数
+  mae: number;          // 训练期一步预测的平均绝对误差（周）
+}
+
+export interface DemandForecastWeek {
+  weekStart: string; // ISO 日期（周一）
+  deliveries: number;
+  collections: number;
+  scheduledDeliveries: number;  // 已知在该周开始的合同
+  scheduledCollections: number; // 已知在该周结束的合同
+  predictedCollections: number; // 按租期预测在该周结束的合同（概率之和）
+}
+
+export interface DemandSeriesForecast {
+  area: string;
+  category: EquipmentCategory;
+  deliveries: number[];  // 每个预测周
+  collections: number[];
+}
+
+export interface DemandForecast {
+  weeks: DemandForecastWeek[];
+  series: DemandSeriesForecast[]; // 按预测总量从大到小
+  models: { delivery: HoltModel; collection: HoltModel };
+  historyWeeks: number;
+}
+
+export interface DemandForecastOptions {
+  planningDate?: string;
+  horizonWeeks?: number;
+  shareHalfLifeWeeks?: number; // 分区占比的衰减半衰期
+  hirePredictions?: Map<string, HireDurationPrediction>; // 工地ID → 租期预测
+}
+
+/**
+ * 一周预测的送货 + 回收次数（每次按一次工地访问计）
+ */
+export function getForecastVisits(week: DemandForecastWeek | undefined): number {
+  return week ? Math.round(week.deliveries + week.collections) : 0;
+}
+
+const MS_PER_WEEK = 7 * 24 * 60 * 60 * 1000;
+const SEASONAL_MIN_WEEKS = 104;      // 每个月至少有两年的样本才估计季节指数
+const SEASONAL_SHRINKAGE_WEEKS = 26; // 季节指数向 1 收缩（每月只有一两个事件时不至于大起大落）
+const DAMPING = 0.9;
+
+// 周一 00:00（UTC）
+const getWeekStart = (time: number): number => {
+  const date = new Date(time);
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+  return date.getTime();
+};
+
+/**
+ * 训练阻尼 Holt 模型（series 为每周数量，weekStarts 为对应周的起始时间）
+ */
+export function trainHoltModel(series: number[], weekStarts: number[]): HoltModel {
+  const mean = series.reduce((sum, y) => sum + y, 0) / Math.max(1, series.length);
+
+  // 月度季节指数：历史满两年才估计，并按样本周数收缩
+  const seasonal = new Array(12).fill(1);
+  if (series.length >= SEASONAL_MIN_WEEKS && mean > 0) {
+    const totals = new Array(12).fill(0);
+    const counts = new Array(12).fill(0);
+    series.forEach((y, i) => {
+      const month = new Date(weekStarts[i]).getUTCMonth();
+      totals[month] += y;
+      counts[month]++;
+    });
+    for (let m = 0; m < 12; m++) {
+      if (counts[m] === 0) continue;
+      const raw = totals[m] / counts[m] / mean;
+      seasonal[m] = (counts[m] * raw + SEASONAL_SHRINKAGE_WEEKS) / (counts[m] + SEASONAL_SHRINKAGE_WEEKS);
+    }
+  }
+  const index = (i: number) => seasonal[new Date(weekStarts[i]).getUTCMonth()] || 1;
+  const adjusted = series.map((y, i) => y / index(i));
+
+  // 网格搜索平滑系数，最小化一步预测的绝对误差
+  const initial = adjusted.slice(0, 4);
+  const initialLevel = initial.reduce((sum, y) => sum + y, 0) / Math.max(1, initial.length);
+  const run = (alpha: number, beta: number) => {
+    let level = initialLevel;
+    let trend = 0;
+    let error = 0;
+    adjusted.forEach((y, i) => {
+      const forecast = level + DAMPING * trend;
+      error += Math.abs(Math.max(0, forecast) * index(i) - series[i]);
+      const nextLevel = alpha * y + (1 - alpha) * forecast;
+      trend = beta * (nextLevel - level) + (1 - beta) * DAMPING * trend;
+      level = nextLevel;
+    });
+    return { level, trend, mae: error / Math.max(1, adjusted.length) };
+  };
+
+  let best: HoltModel = { alpha: 0.3, beta: 0, phi: DAMPING, level: initialLevel, trend: 0, seasonal, mae: Infinity };
+  for (let alpha = 0.05; alpha <= 0.951; alpha += 0.05) {
+    for (let beta = 0; beta <= 0.301; beta += 0.05) {
+      const result = run(alpha, beta);
+      if (result.mae < best.mae) {
+        best = { alpha, beta, phi: DAMPING, level: result.level, trend: result.trend, seasonal, mae: result.mae };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * 模型对未来第 h 周（h ≥ 1）的预测
+ */
+export function forecastHolt(model: HoltModel, h: number, weekStart: number): number {
+  let trend = 0;
+  for (let i = 1; i <= h; i++) trend += Math.pow(model.phi, i) * model.trend;
+  const month = new Date(weekStart).getUTCMonth();
+  return Math.max(0, (model.level + trend) * (model.seasonal[month] || 1));
+}
+
+/**
+ * 预测未来若干周每个 区域 × 设备类别 的送货和回收量
+ */
+export function forecastDemand(sites: ForecastSite[], options: DemandForecastOptions = {}): DemandForecast {
+  const { horizonWeeks = 4, shareHalfLifeWeeks = 26 } = options;
+  const now = Date.parse(options.planningDate ?? '') || Date.now();
+  const currentWeek = getWeekStart(now);
+
+  type SiteEvents = { key: string; area: string; category: EquipmentCategory; start: number; end: number; hire?: HireDurationPrediction };
+  const events: SiteEvents[] = sites.map(site => {
+    const area = site.location.suburb || getNearestSuburb(site.location);
+    const category = getPrimaryCategory(site.equipment);
+    return {
+      key: `${area}|${category}`,
+      area,
+      category,
+      start: Date.parse(site.dates?.start ?? ''),
+      end: Date.parse(site.dates?.end ?? ''),
+      hire: site.id ? options.hirePredictions?.get(site.id) : undefined,
+    };
+  });
+
+  // 历史周序列（从最早的事件到计划日期所在周之前）
+  const past = (time: number) => Number.isFinite(time) && time < currentWeek;
+  const firstEvent = Math.min(...events.flatMap(e => [e.start, e.end]).filter(past), currentWeek - MS_PER_WEEK);
+  const firstWeek = getWeekStart(firstEvent);
+  const historyWeeks = Math.max(1, Math.round((currentWeek - firstWeek) / MS_PER_WEEK));
+  const weekStarts = Array.from({ length: historyWeeks }, (_, i) => firstWeek + i * MS_PER_WEEK);
+  const weekIndex = (time: number) => Math.round((getWeekStart(time) - firstWeek) / MS_PER_WEEK);
+  const deliveries = new Array(historyWeeks).fill(0);
+  const collections = new Array(historyWeeks).fill(0);
+  events.forEach(e => {
+    if (past(e.start)) deliveries[weekIndex(e.start)]++;
+    if (past(e.end)) collections[weekIndex(e.end)]++;
+  });
+
+  const models = {
+    delivery: trainHoltModel(deliveries, weekStarts),
+    collection: trainHoltModel(collections, weekStarts),
+  };
+
+  // 分区占比：近期事件权重更高，加上平滑避免没有历史的分区为 0
+  const decay = Math.log(2) / (shareHalfLifeWeeks * MS_PER_WEEK);
+  const keys = Array.from(new Set(events.map(e => e.key)));
+  const shareOf = (field: 'start' | 'end') => {
+    const weights = new Map(keys.map(key => [key, 0.05]));
+    events.forEach(e => {
+      if (past(e[field])) weights.set(e.key, (weights.get(e.key) ?? 0) + Math.exp(-decay * (currentWeek - e[field])));
+    });
+    const total = Array.from(weights.values()).reduce((sum, w) => sum + w, 0);
+    return new Map(keys.map(key => [key, (weights.get(key) ?? 0) / total]));
+  };
+  const deliveryShare = shareOf('start');
+  const collectionShare = shareOf('end');
+
+  const seriesByKey = new Map<string, DemandSeriesForecast>();
+  events.forEach(e => {
+    if (!seriesByKey.has(e.key)) {
+      seriesByKey.set(e.key, { area: e.area, category: e.category, deliveries: [], collections: [] });
+    }
+  });
+
+  const weeks: DemandForecastWeek[] = [];
+  for (let h = 0; h < horizonWeeks; h++) {
+    const weekStart = currentWeek + h * MS_PER_WEEK;
+    const weekEnd = weekStart + MS_PER_WEEK;
+    const inWeek = (time: number) => time >= Math.max(weekStart, now) && time < weekEnd;
+    const deliveryTotal = forecastHolt(models.delivery, h + 1, weekStart);
+    const collectionTotal = forecastHolt(models.collection, h + 1, weekStart);
+
+    let weekDeliveries = 0;
+    let weekCollections = 0;
+    let scheduledDeliveries = 0;
+    let scheduledCollections = 0;
+    let predictedCollections = 0;
+    seriesByKey.forEach((series, key) => {
+      const members = events.filter(e => e.key === key);
+      const plannedStarts = members.filter(e => inWeek(e.start)).length;
+      const plannedEnds = members.filter(e => inWeek(e.end)).length;
+      const predictedEnds = members.reduce(
+        (sum, e) => sum + (e.hire ? getHireEndProbability(e.hire, Math.max(weekStart, now), weekEnd) : inWeek(e.end) ? 1 : 0),
+        0
+      );
+      const expectedDeliveries = Math.max(deliveryTotal * (deliveryShare.get(key) ?? 0), plannedStarts);
+      const expectedCollections = Math.max(collectionTotal * (collectionShare.get(key) ?? 0), options.hirePredictions ? predictedEnds : plannedEnds);
+      series.deliveries.push(expectedDeliveries);
+      series.collections.push(expectedCollections);
+      weekDeliveries += expectedDeliveries;
+      weekCollections += expectedCollections;
+      scheduledDeliveries += plannedStarts;
+      scheduledCollections += plannedEnds;
+      predictedCollections += predictedEnds;
+    });
+
+    weeks.push({
+      weekStart: new Date(weekStart).toISOString().slice(0, 10),
+      deliveries: weekDeliveries,
+      collections: weekCollections,
+      scheduledDeliveries,
+      scheduledCollections,
+      predictedCollections,
+    });
+  }
+
+  const total = (s: DemandSeriesForecast) =>
+    s.deliveries.reduce((sum, v) => sum + v, 0) + s.collections.reduce((sum, v) => sum + v, 0);
+  return {
+    weeks,
+    series: Array.from(seriesByKey.values()).sort((a, b) => total(b) - total(a)),
+    models,
+    historyWeeks,
+  };
+}
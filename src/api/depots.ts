@@ -0,0 +1,108 @@
+/**
+ * 仓库注册表 - 多仓库路线规划
+ * real_data.json 中每个合同都带有自己的 depot 对象（只有名称和地址），
+ * 这里为每个仓库维护坐标，并负责把工地分配给对应的仓库
+ */
+
+import { calculateDistance } from './travelMatrix';
+
+interface Location {
+  lat: number;
+  lng: number;
+}
+
+export interface Depot {
+  id: string;       // 与数据中 depot.name 一致，例如 "VIC BARRIERS"
+  name: string;     // 显示名称
+  address: string;
+  location: Location;
+}
+
+// 带有所属仓库信息的工地（原始数据中的 depot 对象）
+export interface DepotOwnedSite {
+  location: Location;
+  depot?: { name?: string; address?: string } | null;
+}
+
+/**
+ * 工地分配方式
+ * - owning: 每个工地由其合同所属的仓库服务
+ * - cheapest: 允许改派到往返距离最短的仓库
+ */
+export type DepotAssignmentMode = 'owning' | 'cheapest';
+
+// 已知仓库（坐标为仓库所在工业区的近似位置）
+export const DEPOTS: Depot[] = [
+  {
+    id: 'VIC ELECTRONICS',
+    name: 'VIC Electronics Depot',
+    address: 'Depot, Laverton North VIC',
+    location: { lat: -37.8325, lng: 144.7890 },
+  },
+  {
+    id: 'VIC BARRIERS',
+    name: 'VIC Barriers Depot',
+    address: 'Depot, 12 Terror St',
+    location: { lat: -37.6905, lng: 144.9390 },
+  },
+];
+
+// 未知仓库时的回退位置（原先硬编码的 Melbourne CBD 主仓库）
+export const DEFAULT_DEPOT: Depot = {
+  id: 'MAIN',
+  name: 'Main Depot (CBD)',
+  address: 'Melbourne CBD',
+  location: { lat: -37.8136, lng: 144.9631 },
+};
+
+/**
+ * 按ID查找仓库，找不到时返回默认仓库
+ */
+export function getDepot(id?: string | null): Depot {
+  if (!id) return DEFAULT_DEPOT;
+  return DEPOTS.find(d => d.id === id.trim().toUpperCase()) || DEFAULT_DEPOT;
+}
+
+/**
+ * 工地合同所属的仓库
+ */
+export function getOwningDepot(site: DepotOwnedSite): Depot {
+  return getDepot(site.depot?.name);
+}
+
+/**
+ * 离工地最近（往返成本最低）的仓库
+ */
+export function getCheapestDepot(site: DepotOwnedSite, depots: Depot[] = DEPOTS): Depot {
+  let best = getOwningDepot(site);
+  let bestDist = calculateDistance(best.location, site.location);
+
+  depots.forEach(depot => {
+    const dist = calculateDistance(depot.location, site.location);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = depot;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * 将工地分配到仓库，返回 仓库ID -> 工地列表
+ */
+export function assignSitesToDepots<T extends DepotOwnedSite>(
+  sites: T[],
+  mode: DepotAssignmentMode = 'owning'
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+
+  sites.forEach(site => {
+    const depot = mode === 'cheapest' ? getCheapestDepot(site) : getOwningDepot(site);
+    const group = groups.get(depot.id) || [];
+    group.push(site);
+    groups.set(depot.id, group);
+  });
+
+  return groups;
+}
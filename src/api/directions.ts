@@ -0,0 +1,104 @@
+/**
+ * Mapbox Directions 客户端 - 支持任意长度的路线
+ * Directions API 每次请求最多25个途经点；更长的路线拆成首尾重叠的分块（上一块的终点是下一块的起点），
+ * 逐块请求后拼接几何并累加距离和时间，每个站点都会经过，不再抽样丢弃
+ * 每块的响应经 directionsCache 缓存，重复的路线段不再请求
+ * 离线模式下改为在本地路网上逐段求最短路径（见 roadNetwork.ts）
+ */
+
+import { cachedDirections, directionsCacheKey } from './directionsCache';
+import { fetchMapbox, isOfflineMode } from './mapServices';
+import { findRoadPath } from './roadNetwork';
+
+interface Location {
+  lat: number;
+  lng: number;
+}
+
+export interface DirectionsResult {
+  coordinates: [number, number][]; // [lng, lat]
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+export interface DirectionsOptions {
+  endpointRadius?: number; // 路线起点和终点的吸附半径（米），中间点使用 API 默认值
+}
+
+export const MAX_DIRECTIONS_WAYPOINTS = 25;
+
+/**
+ * 把途经点拆成首尾重叠的分块，每块不超过 maxWaypoints 个点
+ */
+export function splitWaypoints<T>(waypoints: T[], maxWaypoints: number = MAX_DIRECTIONS_WAYPOINTS): T[][] {
+  if (waypoints.length <= maxWaypoints) return [waypoints];
+  const chunks: T[][] = [];
+  for (let start = 0; start < waypoints.length - 1; start += maxWaypoints - 1) {
+    chunks.push(waypoints.slice(start, start + maxWaypoints));
+  }
+  return chunks;
+}
+
+interface DirectionsResponse {
+  routes?: { distance: number; duration: number; geometry?: { coordinates: [number, number][] } }[];
+}
+
+async function fetchChunk(
+  waypoints: Location[],
+  radiuses: string[]
+): Promise<DirectionsResult> {
+  const coordinates = waypoints.map(p => `${p.lng},${p.lat}`).join(';');
+  const radiusParam = radiuses.some(r => r !== '') ? `&radiuses=${radiuses.join(';')}` : '';
+  const response = await fetchMapbox(
+    `https://api.mapbox.com/directions/v5/mapbox/driving/${coordinates}?geometries=geojson&overview=full${radiusParam}`
+  );
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const data: DirectionsResponse = await response.json();
+  const route = data.routes?.[0];
+  if (!route?.geometry) throw new Error('No route returned');
+  return {
+    coordinates: route.geometry.coordinates,
+    distanceKm: route.distance / 1000,
+    durationMinutes: route.duration / 60,
+  };
+}
+
+/**
+ * 离线路线：相邻途经点之间在本地路网上求最快路径再拼接
+ */
+function offlineDirections(waypoints: Location[]): DirectionsResult {
+  return waypoints.slice(1).reduce<DirectionsResult>((stitched, to, i) => {
+    const leg = findRoadPath(waypoints[i], to);
+    return {
+      coordinates: [...stitched.coordinates, ...(i === 0 ? leg.coordinates : leg.coordinates.slice(1))],
+      distanceKm: stitched.distanceKm + leg.distanceKm,
+      durationMinutes: stitched.durationMinutes + leg.durationMinutes,
+    };
+  }, { coordinates: [], distanceKm: 0, durationMinutes: 0 });
+}
+
+/**
+ * 获取经过全部途经点的道路路线（任何一块失败时抛出错误，由调用方回退）
+ */
+export async function fetchDirections(waypoints: Location[], options: DirectionsOptions = {}): Promise<DirectionsResult> {
+  if (waypoints.length < 2) throw new Error('At least two waypoints are required');
+  const { endpointRadius } = options;
+  if (isOfflineMode()) return offlineDirections(waypoints);
+  const last = waypoints.length - 1;
+  const radius = (index: number) =>
+    endpointRadius !== undefined && (index === 0 || index === last) ? String(endpointRadius) : '';
+
+  const chunks = splitWaypoints(waypoints.map((point, index) => ({ point, index })));
+  const results = await Promise.all(chunks.map(chunk => {
+    const points = chunk.map(c => c.point);
+    const radiuses = chunk.map(c => radius(c.index));
+    return cachedDirections(directionsCacheKey(points, radiuses), () => fetchChunk(points, radiuses));
+  }));
+
+  // 相邻两块共用一个途经点，拼接时去掉后一块的第一个坐标
+  return results.reduce<DirectionsResult>((stitched, result, i) => ({
+    coordinates: [...stitched.coordinates, ...(i === 0 ? result.coordinates : result.coordinates.slice(1))],
+    distanceKm: stitched.distanceKm + result.distanceKm,
+    durationMinutes: stitched.durationMinutes + result.durationMinutes,
+  }), { coordinates: [], distanceKm: 0, durationMinutes: 0 });
+}
@@ -0,0 +1,122 @@
+/**
+ * Directions 响应缓存 - 内存 + IndexedDB，MapView 和 client 共用
+ * 键为取整后的坐标序列（含吸附半径），同一条路线在多次运行和页面刷新之间只请求一次；
+ * 同一键的并发请求合并为一个（优化过程中各代的候选路线经常重复）
+ */
+
+import type { DirectionsResult } from './directions';
+
+export interface DirectionsCacheStats {
+  hits: number;
+  misses: number;
+  entries: number; // 内存中的条目数（IndexedDB 中的条目在首次命中时载入）
+}
+
+const DB_NAME = 'rpm-optimizer';
+const STORE_NAME = 'directions';
+const COORDINATE_PRECISION = 5; // 约1米
+
+const memory = new Map<string, DirectionsResult>();
+const pending = new Map<string, Promise<DirectionsResult>>();
+const stats = { hits: 0, misses: 0 };
+const listeners = new Set<(stats: DirectionsCacheStats) => void>();
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * 缓存键：坐标取整到约1米，半径为空表示 API 默认值
+ */
+export function directionsCacheKey(waypoints: { lat: number; lng: number }[], radiuses: string[] = []): string {
+  const coordinates = waypoints
+    .map(p => `${p.lng.toFixed(COORDINATE_PRECISION)},${p.lat.toFixed(COORDINATE_PRECISION)}`)
+    .join(';');
+  return radiuses.some(r => r !== '') ? `${coordinates}|${radiuses.join(';')}` : coordinates;
+}
+
+// 无 IndexedDB（如 Node 环境）或打开失败时只使用内存缓存
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!database) {
+    database = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('⚠️ Directions cache database unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return database;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+  const db = await openDatabase();
+  if (!db) return undefined;
+  return new Promise(resolve => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(undefined);
+  });
+}
+
+export function getDirectionsCacheStats(): DirectionsCacheStats {
+  return { ...stats, entries: memory.size };
+}
+
+function notify() {
+  const current = getDirectionsCacheStats();
+  listeners.forEach(listener => listener(current));
+}
+
+/**
+ * 订阅统计变化，返回取消订阅函数
+ */
+export function subscribeDirectionsCache(listener: (stats: DirectionsCacheStats) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/**
+ * 先查内存和 IndexedDB，未命中时调用 fetcher 并写入缓存（失败不缓存）
+ */
+export function cachedDirections(key: string, fetcher: () => Promise<DirectionsResult>): Promise<DirectionsResult> {
+  const cached = memory.get(key);
+  if (cached) {
+    stats.hits++;
+    notify();
+    return Promise.resolve(cached);
+  }
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+
+  const lookup = (async () => {
+    const stored = await withStore<DirectionsResult>('readonly', store => store.get(key));
+    if (stored) {
+      stats.hits++;
+      memory.set(key, stored);
+      return stored;
+    }
+    stats.misses++;
+    const result = await fetcher();
+    memory.set(key, result);
+    await withStore('readwrite', store => store.put(result, key));
+    return result;
+  })().finally(() => {
+    pending.delete(key);
+    notify();
+  });
+  pending.set(key, lookup);
+  return lookup;
+}
+
+/**
+ * 清空内存和 IndexedDB 中的缓存并重置统计
+ */
+export async function clearDirectionsCache(): Promise<void> {
+  memory.clear();
+  stats.hits = 0;
+  stats.misses = 0;
+  await withStore('readwrite', store => store.clear());
+  notify();
+}
@@ -0,0 +1,169 @@
+/**
+ * 车队配置 - 每辆车有自己的ID、名称、车型、容量、每公里成本、所属仓库和是否可用
+ * 优化器按车辆所属仓库分配工地：每个仓库的工地只由该仓库能运输其设备的可用车辆服务
+ */
+
+import {
+  DEPOTS,
+  assignSitesToDepots,
+  getDepot,
+  type Depot,
+  type DepotAssignmentMode,
+  type DepotOwnedSite,
+} from './depots';
+import type { VehicleCapacity } from './capacity';
+import { calculateDistance } from './travelMatrix';
+import { canCarry, getVehicleType, type EquipmentCategory, type VehicleTypeId } from './vehicleTypes';
+
+interface Location {
+  lat: number;
+  lng: number;
+}
+
+export interface Vehicle {
+  id: string;
+  name: string;
+  typeId: VehicleTypeId;    // 车型（决定可运输的设备类别，见 vehicleTypes.ts）
+  depotId: string;          // 所属仓库（见 depots.ts）
+  capacity: VehicleCapacity;
+  costPerKm: number;        // 燃油、轮胎、保养（AUD/km）
+  available: boolean;       // 本次规划是否可用
+}
+
+export const DEFAULT_COST_PER_KM = 1.2;
+
+// 默认车队：Laverton North 吊车、平板、皮卡各1辆，Terror St 吊车1辆
+export const DEFAULT_FLEET: Vehicle[] = [
+  { id: 'TRK-01', name: 'Truck A', typeId: 'crane_truck', depotId: 'VIC ELECTRONICS', capacity: getVehicleType('crane_truck').capacity, costPerKm: 1.6, available: true },
+  { id: 'TRK-02', name: 'Truck B', typeId: 'flatbed', depotId: 'VIC ELECTRONICS', capacity: getVehicleType('flatbed').capacity, costPerKm: DEFAULT_COST_PER_KM, available: true },
+  { id: 'TRK-03', name: 'Truck C', typeId: 'ute', depotId: 'VIC ELECTRONICS', capacity: getVehicleType('ute').capacity, costPerKm: 0.6, available: true },
+  { id: 'TRK-04', name: 'Truck D', typeId: 'crane_truck', depotId: 'VIC BARRIERS', capacity: getVehicleType('crane_truck').capacity, costPerKm: 1.6, available: true },
+];
+
+/**
+ * 新增车辆的默认配置（ID在现有车队中唯一）
+ */
+export function createVehicle(fleet: Vehicle[]): Vehicle {
+  let number = fleet.length + 1;
+  const ids = new Set(fleet.map(v => v.id));
+  while (ids.has(`TRK-${String(number).padStart(2, '0')}`)) number++;
+
+  return {
+    id: `TRK-${String(number).padStart(2, '0')}`,
+    name: `Truck ${number}`,
+    typeId: 'flatbed',
+    depotId: DEPOTS[0].id,
+    capacity: getVehicleType('flatbed').capacity,
+    costPerKm: DEFAULT_COST_PER_KM,
+    available: true,
+  };
+}
+
+/**
+ * 车辆能否服务需要这些设备类别的工地
+ */
+export function canServe(vehicle: Vehicle, categories: EquipmentCategory[]): boolean {
+  return canCarry(vehicle.typeId, categories);
+}
+
+// 一个仓库及其可用车辆和分到的工地
+export interface FleetDepotGroup<T> {
+  depot: Depot;
+  vehicles: Vehicle[];
+  sites: T[];
+}
+
+export interface FleetAssignment<T> {
+  groups: FleetDepotGroup<T>[];
+  unserved: T[]; // 车队中没有能运输其设备的可用车辆
+}
+
+/**
+ * 按仓库分组工地，并交给该仓库的可用车辆
+ * 仓库没有能服务该工地的可用车辆时，改派到最近的有兼容车辆的仓库
+ */
+export function assignSitesToFleet<T extends DepotOwnedSite>(
+  sites: T[],
+  fleet: Vehicle[],
+  mode: DepotAssignmentMode = 'owning',
+  getCategories: (site: T) => EquipmentCategory[] = () => []
+): FleetAssignment<T> {
+  const vehiclesByDepot = new Map<string, Vehicle[]>();
+  fleet.filter(v => v.available).forEach(vehicle => {
+    const depotId = getDepot(vehicle.depotId).id;
+    vehiclesByDepot.set(depotId, [...(vehiclesByDepot.get(depotId) || []), vehicle]);
+  });
+
+  const groups = new Map<string, FleetDepotGroup<T>>();
+  vehiclesByDepot.forEach((vehicles, depotId) => {
+    groups.set(depotId, { depot: getDepot(depotId), vehicles, sites: [] });
+  });
+  if (groups.size === 0) return { groups: [], unserved: [...sites] };
+
+  const unserved: T[] = [];
+  assignSitesToDepots(sites, mode).forEach((depotSites, depotId) => {
+    depotSites.forEach(site => {
+      const categories = getCategories(site);
+      const compatible = Array.from(groups.values())
+        .filter(group => group.vehicles.some(vehicle => canServe(vehicle, categories)));
+      if (compatible.length === 0) {
+        unserved.push(site);
+        return;
+      }
+      // 所属仓库没有兼容车辆：改派到最近的有兼容车辆的仓库
+      const group = compatible.find(g => g.depot.id === depotId) || compatible.reduce((best, current) =>
+        calculateDistance(current.depot.location, site.location) < calculateDistance(best.depot.location, site.location)
+          ? current
+          : best
+      );
+      group.sites.push(site);
+    });
+  });
+
+  return { groups: Array.from(groups.values()), unserved };
+}
+
+/**
+ * 修正按地理位置得到的聚类（clusters[i] 对应 vehicles[i]）：
+ * 车辆不能运输的工地移到聚类中心最近的兼容车辆
+ */
+export function fitClustersToVehicles<T extends { location: Location }>(
+  clusters: T[][],
+  vehicles: Vehicle[],
+  getCategories: (site: T) => EquipmentCategory[]
+): T[][] {
+  const centres = vehicles.map((_, index) => {
+    const cluster = clusters[index] || [];
+    if (cluster.length === 0) return null;
+    return {
+      lat: cluster.reduce((sum, site) => sum + site.location.lat, 0) / cluster.length,
+      lng: cluster.reduce((sum, site) => sum + site.location.lng, 0) / cluster.length,
+    };
+  });
+  const result: T[][] = vehicles.map(() => []);
+
+  vehicles.forEach((vehicle, index) => {
+    (clusters[index] || []).forEach(site => {
+      const categories = getCategories(site);
+      if (canServe(vehicle, categories)) {
+        result[index].push(site);
+        return;
+      }
+      let target = -1;
+      let minDist = Infinity;
+      vehicles.forEach((other, otherIndex) => {
+        if (!canServe(other, categories)) return;
+        const centre = centres[otherIndex];
+        const dist = centre ? calculateDistance(centre, site.location) : Number.MAX_VALUE;
+        if (target === -1 || dist < minDist) {
+          target = otherIndex;
+          minDist = dist;
+        }
+      });
+      // assignSitesToFleet 保证同仓库至少有一辆兼容车辆
+      result[target === -1 ? index : target].push(site);
+    });
+  });
+
+  return result;
+}
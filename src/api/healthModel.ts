@@ -0,0 +1,130 @@
+/**
+ * 设备健康模型 - 替代随机健康评分
+ * 评分从最近一次检查（无检查记录时从部署开始）起按天递减：
+ * - 每类设备有自己的磨损曲线（每天磨损、每次装卸磨损、最长检查间隔）
+ * - 工地上多类设备按件数加权
+ * 低于检查阈值或超过最长检查间隔的工地生成 SCHEDULE_INSPECTION 决策，地图标记显示健康等级
+ */
+
+import { classifyTransportTask, type ContractRecord } from './dataset';
+import { getItemLoad } from './capacity';
+import { getEquipmentCategory, type EquipmentCategory } from './vehicleTypes';
+
+export interface WearProfile {
+  dailyWear: number;       // 部署期间每天扣减的分数
+  handlingWear: number;    // 每次送货/回收装卸扣减的分数
+  inspectionIntervalDays: number; // 超过该天数未检查时需要检查
+}
+
+export interface HealthThresholds {
+  inspect: number;  // 低于该分数安排检查
+  critical: number; // 低于该分数为严重
+}
+
+export type HealthBand = 'good' | 'inspect' | 'critical';
+
+export interface HealthAssessment {
+  score: number; // 0-100
+  deployedDays: number;
+  daysSinceInspection: number; // 无检查记录时等于部署天数
+  lastInspection: string | null;
+  category: EquipmentCategory; // 件数最多的设备类别
+  inspectionOverdue: boolean;  // 超过该类设备的最长检查间隔
+}
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = { inspect: 70, critical: 50 };
+
+// 灯塔（发电机/柴油机）和 VMS（电子元件）磨损快；混凝土护栏几乎不磨损；注水护栏受紫外线老化
+export const WEAR_PROFILES: Record<EquipmentCategory, WearProfile> = {
+  Light_Tower: { dailyWear: 0.045, handlingWear: 0.6, inspectionIntervalDays: 180 },
+  VMS_Board: { dailyWear: 0.04, handlingWear: 0.8, inspectionIntervalDays: 180 },
+  Safety_Barrier: { dailyWear: 0.025, handlingWear: 0.4, inspectionIntervalDays: 365 },
+  Barrier: { dailyWear: 0.008, handlingWear: 0.3, inspectionIntervalDays: 540 },
+  Equipment: { dailyWear: 0.02, handlingWear: 0.4, inspectionIntervalDays: 365 },
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+type HealthSite = Pick<ContractRecord, 'equipment' | 'transport_tasks' | 'dates' | 'inspections'>;
+
+/**
+ * 评估一个工地设备的健康状况（planningDate 缺省时按当前时间）
+ */
+export function assessHealth(site: HealthSite, planningDate?: string): HealthAssessment {
+  const now = Date.parse(planningDate ?? '') || Date.now();
+  const start = Date.parse(site.dates?.start ?? '');
+  const end = Date.parse(site.dates?.end ?? '');
+  // 部署截止到合同结束或计划日期（取较早者）
+  const deployedUntil = Number.isFinite(end) ? Math.min(end, now) : now;
+  const deployedDays = Number.isFinite(start) ? Math.max(0, (deployedUntil - start) / MS_PER_DAY) : 0;
+
+  // 计划日期之前最近的一次检查
+  const lastInspection = site.inspections
+    .filter(inspection => Date.parse(inspection.date) <= now)
+    .sort((a, b) => Date.parse(b.date) - Date.parse(a.date))[0];
+  const inspectedAt = lastInspection ? Date.parse(lastInspection.date) : NaN;
+  const daysSinceInspection = Number.isFinite(inspectedAt)
+    ? Math.max(0, Math.min(deployedDays, (deployedUntil - inspectedAt) / MS_PER_DAY))
+    : deployedDays;
+
+  // 按件数加权的磨损曲线（费用类明细不计）
+  const units = new Map<EquipmentCategory, number>();
+  site.equipment.forEach(item => {
+    if (item.quantity <= 0 || getItemLoad(item.description).weightKg <= 0) return;
+    const category = getEquipmentCategory(item.description);
+    units.set(category, (units.get(category) ?? 0) + item.quantity);
+  });
+  const totalUnits = Array.from(units.values()).reduce((sum, n) => sum + n, 0);
+  const weights: [EquipmentCategory, number][] = totalUnits > 0
+    ? Array.from(units, ([category, n]) => [category, n / totalUnits])
+    : [['Equipment', 1]];
+  const profile = weights.reduce(
+    (acc, [category, weight]) => ({
+      dailyWear: acc.dailyWear + WEAR_PROFILES[category].dailyWear * weight,
+      handlingWear: acc.handlingWear + WEAR_PROFILES[category].handlingWear * weight,
+      inspectionIntervalDays: Math.min(acc.inspectionIntervalDays, WEAR_PROFILES[category].inspectionIntervalDays),
+    }),
+    { dailyWear: 0, handlingWear: 0, inspectionIntervalDays: Infinity }
+  );
+  const category = weights.reduce((best, current) => current[1] > best[1] ? current : best)[0];
+
+  // 运输任务没有日期，按检查后的部署时间占比计入装卸磨损
+  const handlings = site.transport_tasks.filter(task => classifyTransportTask(task.type)).length;
+  const handlingShare = deployedDays > 0 ? daysSinceInspection / deployedDays : 1;
+  const baseScore = lastInspection?.score ?? 100;
+  const score = baseScore - profile.dailyWear * daysSinceInspection - profile.handlingWear * handlings * handlingShare;
+
+  return {
+    score: Math.round(Math.max(0, Math.min(100, score))),
+    deployedDays: Math.round(deployedDays),
+    daysSinceInspection: Math.round(daysSinceInspection),
+    lastInspection: lastInspection?.date ?? null,
+    category,
+    inspectionOverdue: daysSinceInspection > profile.inspectionIntervalDays,
+  };
+}
+
+export function getHealthBand(score: number, thresholds: HealthThresholds = DEFAULT_HEALTH_THRESHOLDS): HealthBand {
+  if (score < thresholds.critical) return 'critical';
+  if (score < thresholds.inspect) return 'inspect';
+  return 'good';
+}
+
+export function needsInspection(health: HealthAssessment, thresholds: HealthThresholds = DEFAULT_HEALTH_THRESHOLDS): boolean {
+  return health.inspectionOverdue || getHealthBand(health.score, thresholds) !== 'good';
+}
+
+/**
+ * 检查决策的说明
+ */
+export function describeHealth(health: HealthAssessment, thresholds: HealthThresholds = DEFAULT_HEALTH_THRESHOLDS): string {
+  const band = getHealthBand(health.score, thresholds);
+  const since = health.lastInspection
+    ? `${health.daysSinceInspection} days since last inspection (${health.lastInspection.slice(0, 10)})`
+    : `never inspected in ${health.deployedDays} days on site`;
+  const reasons = [
+    band === 'critical' ? `below critical threshold ${thresholds.critical}` : band === 'inspect' ? `below inspection threshold ${thresholds.inspect}` : null,
+    health.inspectionOverdue ? `${health.category.replace(/_/g, ' ')} inspection interval exceeded` : null,
+  ].filter(Boolean);
+  return `Health ${health.score}/100${reasons.length > 0 ? ` (${reasons.join(', ')})` : ''}: ${since}.`;
+}
@@ -0,0 +1,267 @@
+/**
+ * 租期预测 - 由历史合同起止日期预测每个工地的合同结束日期和置信区间
+ * - 租期（天）按对数正态分布建模：全局 → 设备类别 → 客户 × 设备类别 逐级向上一级收缩
+ * - 训练：计划日期之前已结束的合同是完整观测；仍在租的合同（预订的结束日期只是计划）
+ *   只知道租期至少为已租天数，作为右删失观测（EM：用截断正态的条件期望补全）
+ * - 预测：条件分布 T | T > 已租天数，有预订结束日期时以它为上限（提前退租按历史，否则按预订日期结束），
+ *   取中位数和 P10-P90；预测某个工地时把它自己从所在分组中剔除，避免用自己的答案训练
+ * 用于交换的经济性、预测回收任务和地图上每个工地的预计结束日期
+ */
+
+import { getPrimaryCategory, type EquipmentCategory } from './vehicleTypes';
+
+export interface HireSite {
+  id: string;
+  customer?: string;
+  dates?: { start?: string; end?: string } | null;
+  equipment?: Array<{ description: string; quantity: number }>;
+}
+
+// 分组的 ln(租期) 充分统计量（预测时可剔除单个观测后再收缩）
+interface LogStats {
+  n: number;
+  sum: number;
+  sumSquares: number;
+}
+
+interface LogEstimate {
+  mu: number;    // ln(租期天数) 的均值（已收缩）
+  sigma: number; // ln(租期天数) 的标准差（已收缩）
+}
+
+export interface HireDurationModel {
+  mu: number;    // 全局 ln(租期) 均值
+  sigma: number; // 全局 ln(租期) 标准差
+  categories: Partial<Record<EquipmentCategory, LogStats>>;
+  groups: Record<string, LogStats>; // 客户|类别
+  observations: Record<string, number>; // 工地ID → 训练用的 ln(租期)（删失观测为补全值）
+  completed: number; // 完整观测数
+  censored: number;  // 删失观测数
+}
+
+export interface HireDurationPrediction {
+  siteId: string;
+  basis: 'customer' | 'category' | 'global' | 'completed';
+  mu: number;
+  sigma: number;
+  start: string;
+  minDays: number;          // 条件下限：已租天数
+  bookedDays: number | null; // 预订租期（上限），没有预订结束日期时为 null
+  expectedDays: number;     // 条件中位数
+  lowDays: number;          // P10
+  highDays: number;         // P90
+  expectedEnd: string;      // ISO 日期
+  lowEnd: string;
+  highEnd: string;
+  remainingDays: number;    // 计划日期到预计结束（已结束为 0）
+  remainingLowDays: number;
+  remainingHighDays: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const SHRINKAGE = 4;        // 组内样本数达到该值时组均值和上一级各占一半
+const MIN_SIGMA = 0.15;
+const EM_ITERATIONS = 30;
+const BAND = [0.1, 0.9];    // 置信区间分位数
+
+// 标准正态分布函数（Abramowitz-Stegun 7.1.26）
+const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const normalPdf = (z: number): number => Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+
+// 反函数用二分（只在预测时调用，精度足够）
+const normalQuantile = (p: number): number => {
+  let low = -8;
+  let high = 8;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+const getGroupKey = (site: HireSite, category: EquipmentCategory) => `${site.customer || 'unknown'}|${category}`;
+
+// 训练用的租期观测：计划日期之前已结束为完整观测，否则为删失（至少已租天数）
+function getObservation(site: HireSite, now: number): { days: number; completed: boolean } | null {
+  const start = Date.parse(site.dates?.start ?? '');
+  if (!Number.isFinite(start) || start >= now) return null;
+  const end = Date.parse(site.dates?.end ?? '');
+  if (Number.isFinite(end) && end <= now) {
+    return end > start ? { days: (end - start) / MS_PER_DAY, completed: true } : null;
+  }
+  return { days: Math.max(1, (now - start) / MS_PER_DAY), completed: false };
+}
+
+const addStats = (stats: LogStats | undefined, value: number): LogStats => ({
+  n: (stats?.n ?? 0) + 1,
+  sum: (stats?.sum ?? 0) + value,
+  sumSquares: (stats?.sumSquares ?? 0) + value * value,
+});
+
+// 分组均值和方差向上一级收缩（exclude：剔除的观测）；剔除后没有样本时返回 null
+function estimateGroup(stats: LogStats | undefined, parent: LogEstimate, exclude?: number): LogEstimate | null {
+  if (!stats) return null;
+  const n = stats.n - (exclude === undefined ? 0 : 1);
+  if (n <= 0) return null;
+  const sum = stats.sum - (exclude ?? 0);
+  const sumSquares = stats.sumSquares - (exclude ?? 0) ** 2;
+  const mu = (sum + SHRINKAGE * parent.mu) / (n + SHRINKAGE);
+  const squares = Math.max(0, sumSquares - 2 * mu * sum + n * mu * mu);
+  return {
+    mu,
+    sigma: Math.max(MIN_SIGMA, Math.sqrt((squares + SHRINKAGE * parent.sigma ** 2) / (n + SHRINKAGE))),
+  };
+}
+
+/**
+ * 训练租期模型（priorDays：没有历史合同时使用的默认租期）
+ */
+export function trainHireDurationModel(sites: HireSite[], planningDate: string | undefined, priorDays: number): HireDurationModel {
+  const now = Date.parse(planningDate ?? '') || Date.now();
+  const observations = sites.flatMap(site => {
+    const observation = getObservation(site, now);
+    if (!observation) return [];
+    const category = getPrimaryCategory(site.equipment);
+    return [{ ...observation, logDays: Math.log(observation.days), siteId: site.id, category, key: getGroupKey(site, category) }];
+  });
+
+  const prior = Math.log(Math.max(1, priorDays));
+  if (observations.length === 0) {
+    return { mu: prior, sigma: 1, categories: {}, groups: {}, observations: {}, completed: 0, censored: 0 };
+  }
+
+  // EM：删失观测用 E[ln T | ln T > ln 已租天数] 补全，迭代估计全局均值和标准差
+  let mu = observations.reduce((sum, o) => sum + o.logDays, 0) / observations.length;
+  let sigma = 1;
+  let imputed = observations.map(o => o.logDays);
+  for (let i = 0; i < EM_ITERATIONS; i++) {
+    imputed = observations.map(o => {
+      if (o.completed) return o.logDays;
+      const z = (o.logDays - mu) / sigma;
+      const tail = Math.max(1e-9, 1 - normalCdf(z));
+      return Math.max(o.logDays, mu + sigma * normalPdf(z) / tail);
+    });
+    mu = imputed.reduce((sum, y) => sum + y, 0) / imputed.length;
+    sigma = Math.max(MIN_SIGMA, Math.sqrt(imputed.reduce((sum, y) => sum + (y - mu) ** 2, 0) / imputed.length));
+  }
+
+  const categories: HireDurationModel['categories'] = {};
+  const groups: HireDurationModel['groups'] = {};
+  const siteObservations: HireDurationModel['observations'] = {};
+  observations.forEach((o, i) => {
+    categories[o.category] = addStats(categories[o.category], imputed[i]);
+    groups[o.key] = addStats(groups[o.key], imputed[i]);
+    siteObservations[o.siteId] = imputed[i];
+  });
+
+  return {
+    mu,
+    sigma,
+    categories,
+    groups,
+    observations: siteObservations,
+    completed: observations.filter(o => o.completed).length,
+    censored: observations.filter(o => !o.completed).length,
+  };
+}
+
+/**
+ * 预测一个工地的合同结束日期（条件于已租天数，以预订结束日期为上限）
+ */
+export function predictHireDuration(model: HireDurationModel, site: HireSite, planningDate?: string): HireDurationPrediction {
+  const now = Date.parse(planningDate ?? '') || Date.now();
+  const parsedStart = Date.parse(site.dates?.start ?? '');
+  const start = Number.isFinite(parsedStart) ? parsedStart : now;
+  const category = getPrimaryCategory(site.equipment);
+
+  // 剔除工地自己的观测后逐级收缩：客户|类别 → 类别 → 全局
+  const own = model.observations[site.id];
+  const global = { mu: model.mu, sigma: model.sigma };
+  const categoryEstimate = estimateGroup(model.categories[category], global, own);
+  const groupEstimate = estimateGroup(model.groups[getGroupKey(site, category)], categoryEstimate ?? global, own);
+  const { mu, sigma } = groupEstimate ?? categoryEstimate ?? global;
+  const basis = groupEstimate ? 'customer' : categoryEstimate ? 'category' : 'global';
+  const toDate = (days: number) => new Date(start + days * MS_PER_DAY).toISOString();
+  const remaining = (days: number) => Math.max(0, Math.ceil((start + days * MS_PER_DAY - now) / MS_PER_DAY));
+
+  // 计划日期之前已结束时租期已知；否则取条件分布 T | T > 已租天数 的分位数，不超过预订租期
+  const end = Date.parse(site.dates?.end ?? '');
+  const completed = Number.isFinite(end) && end <= now && end > start;
+  const bookedDays = !completed && Number.isFinite(end) && end > now ? (end - start) / MS_PER_DAY : null;
+  const minDays = completed ? (end - start) / MS_PER_DAY : Math.max(0, (now - start) / MS_PER_DAY);
+  const floor = minDays > 0 ? normalCdf((Math.log(minDays) - mu) / sigma) : 0;
+  const quantile = (p: number) => completed
+    ? minDays
+    : Math.min(bookedDays ?? Infinity, Math.max(minDays, Math.exp(mu + sigma * normalQuantile(floor + p * (1 - floor)))));
+  const expectedDays = quantile(0.5);
+  const lowDays = quantile(BAND[0]);
+  const highDays = quantile(BAND[1]);
+
+  return {
+    siteId: site.id,
+    basis: completed ? 'completed' : basis,
+    mu,
+    sigma,
+    start: new Date(start).toISOString(),
+    minDays,
+    bookedDays,
+    expectedDays,
+    lowDays,
+    highDays,
+    expectedEnd: toDate(expectedDays),
+    lowEnd: toDate(lowDays),
+    highEnd: toDate(highDays),
+    remainingDays: remaining(expectedDays),
+    remainingLowDays: remaining(lowDays),
+    remainingHighDays: remaining(highDays),
+  };
+}
+
+/**
+ * 训练并预测全部工地（按工地ID）
+ */
+export function predictHireDurations(
+  sites: HireSite[],
+  planningDate: string | undefined,
+  priorDays: number
+): Map<string, HireDurationPrediction> {
+  const model = trainHireDurationModel(sites, planningDate, priorDays);
+  return new Map(sites.map(site => [site.id, predictHireDuration(model, site, planningDate)]));
+}
+
+/**
+ * 合同在 [from, to) 之间结束的概率（时间戳），用于按周汇总预测回收任务
+ */
+export function getHireEndProbability(prediction: HireDurationPrediction, from: number, to: number): number {
+  const start = Date.parse(prediction.start);
+  const end = Date.parse(prediction.expectedEnd);
+  if (prediction.basis === 'completed') return end >= from && end < to ? 1 : 0;
+
+  const cdf = (time: number) => {
+    const days = (time - start) / MS_PER_DAY;
+    return days > 0 ? normalCdf((Math.log(days) - prediction.mu) / prediction.sigma) : 0;
+  };
+  const floor = cdf(start + prediction.minDays * MS_PER_DAY);
+  if (floor >= 1 - 1e-9) return end >= from && end < to ? 1 : 0; // 下限远超分布尾部：按预计日期
+  // 超过预订租期的概率都落在预订结束日期
+  const booked = prediction.bookedDays === null ? Infinity : start + prediction.bookedDays * MS_PER_DAY;
+  const conditional = (time: number) => time > booked ? 1 : Math.max(0, cdf(time) - floor) / (1 - floor);
+  return Math.max(0, conditional(to) - conditional(from));
+}
+
+/**
+ * 预测说明
+ */
+export function describeHireDuration(prediction: HireDurationPrediction): string {
+  if (prediction.basis === 'completed') return `Hire ended ${prediction.expectedEnd.slice(0, 10)}.`;
+  const basis = prediction.basis === 'customer' ? 'customer history' : prediction.basis === 'category' ? 'equipment category history' : 'all contracts';
+  const booked = prediction.bookedDays === null ? '' : `, booked until ${new Date(Date.parse(prediction.start) + prediction.bookedDays * MS_PER_DAY).toISOString().slice(0, 10)}`;
+  return `Expected end ${prediction.expectedEnd.slice(0, 10)} (80% band ${prediction.lowEnd.slice(0, 10)} – ${prediction.highEnd.slice(0, 10)} from ${basis}${booked}).`;
+}
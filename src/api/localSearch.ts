@@ -0,0 +1,192 @@
+/**
+ * 跨路线局部搜索 + 模拟退火
+ * 聚类只做一次性分配，2-opt 只能调整路线内顺序，分错车辆的工地无法挪走；
+ * 这里的邻域在整个多车方案上移动站点：
+ *   relocate   - 一个站点移到任意车辆的任意位置
+ *   exchange   - 两辆车各出一个站点互换
+ *   2-opt*     - 两辆车交换路线尾段
+ *   Or-opt     - 连续1~3个站点整段移动（可反向）
+ * 站点只能分给同仓库、车型兼容的车辆（见 nsga2.ts canAssign）
+ */
+
+import { canAssign, type GenomeContext, type RouteGenome } from './nsga2';
+import type { RandomSource } from './random';
+
+export type NeighbourhoodMove = 'relocate' | 'exchange' | 'twoOptStar' | 'orOpt';
+
+const NEIGHBOURHOOD_MOVES: NeighbourhoodMove[] = ['relocate', 'exchange', 'twoOptStar', 'orOpt'];
+
+// 一辆车按某个顺序访问的成本（空路线应为0），方案成本为各车之和
+export type RouteCostFunction = (vehicle: number, route: number[]) => number;
+
+export interface AnnealingOptions {
+  random: RandomSource;
+  iterations?: number;            // 默认按站点数确定
+  initialTemperature?: number;    // 初始温度 = 该比例 × 平均每站成本
+  finalTemperatureRatio?: number; // 终止温度 / 初始温度（几何降温）
+}
+
+export interface AnnealingResult {
+  genome: RouteGenome;
+  cost: number;
+  initialCost: number;
+  improvements: Record<NeighbourhoodMove, number>; // 各邻域找到新最优解的次数
+}
+
+// 邻域移动：被改变的车辆 → 新的访问顺序
+type Move = Map<number, number[]>;
+
+interface MoveContext {
+  genome: RouteGenome;
+  random: RandomSource;
+  allowed: number[][];   // 站点 → 可分配的车辆
+  depotPeers: number[][]; // 车辆 → 同仓库的其他车辆
+}
+
+const MAX_OR_OPT_SEGMENT = 3;
+
+function pick<T>(items: T[], random: RandomSource): T | undefined {
+  return items[Math.floor(random() * items.length)];
+}
+
+function randomNonEmptyVehicle(genome: RouteGenome, random: RandomSource): number | undefined {
+  return pick(genome.map((route, v) => ({ route, v })).filter(({ route }) => route.length > 0), random)?.v;
+}
+
+/**
+ * 从 from 车取出 segment（起点 start）插入 to 车的随机位置
+ */
+function moveSegment(genome: RouteGenome, from: number, start: number, segment: number[], to: number, random: RandomSource): Move {
+  const source = [...genome[from]];
+  source.splice(start, segment.length);
+  const target = from === to ? source : [...genome[to]];
+  target.splice(Math.floor(random() * (target.length + 1)), 0, ...segment);
+  return new Map([[from, source], [to, target]]);
+}
+
+function relocate({ genome, random, allowed }: MoveContext): Move | null {
+  const from = randomNonEmptyVehicle(genome, random);
+  if (from === undefined) return null;
+  const i = Math.floor(random() * genome[from].length);
+  const item = genome[from][i];
+  const to = pick(allowed[item], random)!;
+  return moveSegment(genome, from, i, [item], to, random);
+}
+
+function exchange({ genome, random, allowed }: MoveContext, context: GenomeContext): Move | null {
+  const a = randomNonEmptyVehicle(genome, random);
+  if (a === undefined) return null;
+  const i = Math.floor(random() * genome[a].length);
+  const b = pick(allowed[genome[a][i]].filter(v => v !== a && genome[v].length > 0), random);
+  if (b === undefined) return null;
+  const j = Math.floor(random() * genome[b].length);
+  if (!canAssign(context, a, genome[b][j])) return null;
+
+  const routeA = [...genome[a]];
+  const routeB = [...genome[b]];
+  [routeA[i], routeB[j]] = [routeB[j], routeA[i]];
+  return new Map([[a, routeA], [b, routeB]]);
+}
+
+function twoOptStar({ genome, random, depotPeers }: MoveContext): Move | null {
+  const a = randomNonEmptyVehicle(genome, random);
+  if (a === undefined) return null;
+  const b = pick(depotPeers[a], random);
+  if (b === undefined) return null;
+  const i = Math.floor(random() * (genome[a].length + 1));
+  const j = Math.floor(random() * (genome[b].length + 1));
+  return new Map([
+    [a, [...genome[a].slice(0, i), ...genome[b].slice(j)]],
+    [b, [...genome[b].slice(0, j), ...genome[a].slice(i)]],
+  ]);
+}
+
+function orOpt({ genome, random, allowed }: MoveContext): Move | null {
+  const from = randomNonEmptyVehicle(genome, random);
+  if (from === undefined) return null;
+  const route = genome[from];
+  const length = 1 + Math.floor(random() * Math.min(MAX_OR_OPT_SEGMENT, route.length));
+  const start = Math.floor(random() * (route.length - length + 1));
+  const segment = route.slice(start, start + length);
+  const to = pick(allowed[segment[0]].filter(v => segment.every(item => allowed[item].includes(v))), random);
+  if (to === undefined) return null;
+  return moveSegment(genome, from, start, random() < 0.5 ? segment.reverse() : segment, to, random);
+}
+
+/**
+ * 模拟退火：随机选择邻域生成移动，变好总是接受，变差按 exp(-Δ/T) 接受，温度几何下降
+ * 只重新计算被改变车辆的成本，返回搜索过程中的最优方案
+ */
+export function annealRoutes(
+  genome: RouteGenome,
+  context: GenomeContext,
+  routeCost: RouteCostFunction,
+  options: AnnealingOptions
+): AnnealingResult {
+  const itemCount = genome.reduce((sum, route) => sum + route.length, 0);
+  const {
+    random,
+    iterations = Math.min(4000, 150 * itemCount),
+    initialTemperature = 0.1,
+    finalTemperatureRatio = 0.01,
+  } = options;
+
+  // 同一辆车的同一顺序只计算一次
+  const cache = new Map<string, number>();
+  const costOf = (vehicle: number, route: number[]) => {
+    const key = `${vehicle}:${route.join(',')}`;
+    let cost = cache.get(key);
+    if (cost === undefined) {
+      cost = route.length === 0 ? 0 : routeCost(vehicle, route);
+      cache.set(key, cost);
+    }
+    return cost;
+  };
+
+  let current = genome.map(route => [...route]);
+  const routeCosts = current.map((route, v) => costOf(v, route));
+  let currentCost = routeCosts.reduce((sum, cost) => sum + cost, 0);
+  const initialCost = currentCost;
+  let best = current;
+  let bestCost = currentCost;
+  const improvements: Record<NeighbourhoodMove, number> = { relocate: 0, exchange: 0, twoOptStar: 0, orOpt: 0 };
+  if (itemCount < 2) return { genome: best, cost: bestCost, initialCost, improvements };
+
+  const vehicleIds = context.vehicles.map((_, v) => v);
+  const allowed = context.locations.map((_, item) => vehicleIds.filter(v => canAssign(context, v, item)));
+  const depotPeers = vehicleIds.map(a =>
+    vehicleIds.filter(b => b !== a && context.vehicles[b].depotId === context.vehicles[a].depotId));
+
+  let temperature = initialTemperature * currentCost / itemCount;
+  const cooling = Math.pow(finalTemperatureRatio, 1 / iterations);
+
+  for (let iteration = 0; iteration < iterations; iteration++, temperature *= cooling) {
+    const type = pick(NEIGHBOURHOOD_MOVES, random)!;
+    const moveContext: MoveContext = { genome: current, random, allowed, depotPeers };
+    const move = type === 'relocate' ? relocate(moveContext)
+      : type === 'exchange' ? exchange(moveContext, context)
+      : type === 'twoOptStar' ? twoOptStar(moveContext)
+      : orOpt(moveContext);
+    if (!move) continue;
+
+    // 2-opt* 交换尾段后需检查两车是否都能服务换来的站点
+    const feasible = Array.from(move).every(([v, route]) => route.every(item => canAssign(context, v, item)));
+    if (!feasible) continue;
+
+    let delta = 0;
+    move.forEach((route, v) => { delta += costOf(v, route) - routeCosts[v]; });
+    if (delta > 0 && random() >= Math.exp(-delta / temperature)) continue;
+
+    current = current.map((route, v) => move.get(v) ?? route);
+    move.forEach((route, v) => { routeCosts[v] = costOf(v, route); });
+    currentCost += delta;
+
+    if (currentCost < bestCost - 1e-6) {
+      best = current;
+      bestCost = currentCost;
+      improvements[type]++;
+    }
+  }
+
+  return { genome: best, cost: bestCost, initialCost, improvements };
+}
@@ -0,0 +1,113 @@
+/**
+ * 地图服务配置 - Mapbox token 和请求队列
+ * token 只从环境变量 VITE_MAPBOX_TOKEN 读取（.env.local）
+ * 所有 Mapbox 请求经同一个限流队列：限制并发和请求间隔，429/5xx 时按指数退避重试
+ * 离线模式（VITE_OFFLINE_MODE=true 或未配置 token）：地图改用本地底图，道路路线和距离由 roadNetwork 计算
+ * OSRM 服务器地址从 VITE_OSRM_URL 读取（行驶矩阵的 osrm 来源）
+ */
+
+export const MAPBOX_TOKEN: string | null = import.meta.env?.VITE_MAPBOX_TOKEN || null;
+
+export const OFFLINE_MODE: boolean = import.meta.env?.VITE_OFFLINE_MODE === 'true' || MAPBOX_TOKEN === null;
+
+export const OSRM_URL: string | null = import.meta.env?.VITE_OSRM_URL || null;
+
+export function hasMapboxToken(): boolean {
+  return MAPBOX_TOKEN !== null;
+}
+
+export function hasOsrmServer(): boolean {
+  return OSRM_URL !== null;
+}
+
+export function isOfflineMode(): boolean {
+  return OFFLINE_MODE;
+}
+
+export class MapboxTokenMissingError extends Error {
+  constructor() {
+    super('Mapbox token is not configured (set VITE_MAPBOX_TOKEN in .env.local)');
+    this.name = 'MapboxTokenMissingError';
+  }
+}
+
+export interface RequestQueueOptions {
+  maxConcurrent?: number;
+  minIntervalMs?: number; // 相邻两次请求开始的最小间隔
+  maxRetries?: number;
+  baseDelayMs?: number;   // 第 n 次重试等待 baseDelayMs × 2^n（响应带 Retry-After 时以其为准）
+}
+
+export interface RequestQueue {
+  fetch(url: string): Promise<Response>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+/**
+ * 创建限流请求队列（按提交顺序执行）
+ * 可重试的状态码在用完重试次数后原样返回响应，网络错误在用完重试次数后抛出
+ */
+export function createRequestQueue(options: RequestQueueOptions = {}): RequestQueue {
+  const { maxConcurrent = 4, minIntervalMs = 100, maxRetries = 3, baseDelayMs = 500 } = options;
+  const waiting: (() => void)[] = [];
+  let active = 0;
+  let nextStart = 0;
+
+  // 等到有空闲并发位且满足请求间隔
+  const acquire = async () => {
+    if (active >= maxConcurrent) await new Promise<void>(resolve => waiting.push(resolve));
+    active++;
+    const now = Date.now();
+    const start = Math.max(now, nextStart);
+    nextStart = start + minIntervalMs;
+    if (start > now) await sleep(start - now);
+  };
+
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  const attempt = async (url: string): Promise<Response> => {
+    await acquire();
+    try {
+      return await fetch(url);
+    } finally {
+      release();
+    }
+  };
+
+  return {
+    async fetch(url) {
+      for (let retry = 0; ; retry++) {
+        let response: Response | null = null;
+        try {
+          response = await attempt(url);
+        } catch (error) {
+          if (retry >= maxRetries) throw error;
+        }
+        if (response && (!isRetryable(response.status) || retry >= maxRetries)) return response;
+
+        const retryAfter = Number(response?.headers.get('Retry-After'));
+        const delay = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : baseDelayMs * 2 ** retry;
+        console.warn(`⏳ Map service request ${response ? `returned ${response.status}` : 'failed'}, retrying in ${delay} ms`);
+        await sleep(delay);
+      }
+    },
+  };
+}
+
+// Mapbox 共用队列（Directions 和 Matrix API）
+const mapboxQueue = createRequestQueue();
+
+/**
+ * 经限流队列请求 Mapbox API（url 不含 token，由这里附加）
+ */
+export function fetchMapbox(url: string): Promise<Response> {
+  if (!MAPBOX_TOKEN) return Promise.reject(new MapboxTokenMissingError());
+  const separator = url.includes('?') ? '&' : '?';
+  return mapboxQueue.fetch(`${url}${separator}access_token=${MAPBOX_TOKEN}`);
+}
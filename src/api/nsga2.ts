@@ -0,0 +1,406 @@
+/**
+ * NSGA-II 多目标进化算法（Deb et al., 2002）
+ * 快速非支配排序 + 拥挤距离保持多样性，所有目标均为最小化。
+ * 路线基因编码：每辆车按顺序访问的站点下标，站点只能分配给同仓库的车辆。
+ * 优化目标：运营成本、碳排放、各车工作量均衡
+ */
+
+import type { PlannedStop } from './capacity';
+import { shuffle, type RandomSource } from './random';
+import { canCarry, type EquipmentCategory, type VehicleTypeId } from './vehicleTypes';
+import { DEFAULT_TRAVEL_MATRIX, type TravelMatrix } from './travelMatrix';
+
+interface Location {
+  lat: number;
+  lng: number;
+}
+
+// ---------------------------------------------------------------------------
+// 通用 NSGA-II 引擎
+// ---------------------------------------------------------------------------
+
+export type Objectives = number[];
+
+export interface Nsga2Individual<G> {
+  genome: G;
+  objectives: Objectives;
+  rank: number;     // 所在非支配前沿（0 = Pareto前沿）
+  crowding: number; // 拥挤距离（越大越稀疏）
+}
+
+export interface Nsga2Config<G> {
+  initialPopulation: G[];
+  evaluate: (genome: G) => Objectives;
+  crossover: (a: G, b: G, random: RandomSource) => G;
+  mutate: (genome: G, random: RandomSource) => G;
+  generations: number;
+  crossoverRate?: number;
+  mutationRate?: number;
+  random: RandomSource; // 可设种子的随机源（见 random.ts）
+  // 每代结束时回调（可异步，用于UI渲染）
+  onGeneration?: (generation: number, population: Nsga2Individual<G>[]) => void | Promise<void>;
+}
+
+/**
+ * a 支配 b：所有目标不差于 b，且至少一个目标严格更好
+ */
+export function dominates(a: Objectives, b: Objectives): boolean {
+  let strictlyBetter = false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] > b[i]) return false;
+    if (a[i] < b[i]) strictlyBetter = true;
+  }
+  return strictlyBetter;
+}
+
+/**
+ * 快速非支配排序，返回各前沿的下标（第一个为Pareto前沿）
+ */
+export function fastNonDominatedSort(objectives: Objectives[]): number[][] {
+  const dominatedBy: number[][] = objectives.map(() => []); // i 支配的个体
+  const dominationCount = objectives.map(() => 0);          // 支配 i 的个体数
+  const fronts: number[][] = [[]];
+
+  for (let p = 0; p < objectives.length; p++) {
+    for (let q = 0; q < objectives.length; q++) {
+      if (p === q) continue;
+      if (dominates(objectives[p], objectives[q])) {
+        dominatedBy[p].push(q);
+      } else if (dominates(objectives[q], objectives[p])) {
+        dominationCount[p]++;
+      }
+    }
+    if (dominationCount[p] === 0) fronts[0].push(p);
+  }
+
+  let current = 0;
+  while (fronts[current].length > 0) {
+    const next: number[] = [];
+    fronts[current].forEach(p => {
+      dominatedBy[p].forEach(q => {
+        dominationCount[q]--;
+        if (dominationCount[q] === 0) next.push(q);
+      });
+    });
+    current++;
+    fronts.push(next);
+  }
+
+  return fronts.filter(front => front.length > 0);
+}
+
+/**
+ * 拥挤距离：前沿内相邻个体在各目标上的归一化间距之和（边界个体为无穷大）
+ */
+export function crowdingDistances(objectives: Objectives[], front: number[]): number[] {
+  const distances = front.map(() => 0);
+  if (front.length <= 2) return distances.map(() => Infinity);
+
+  const numObjectives = objectives[front[0]].length;
+  for (let m = 0; m < numObjectives; m++) {
+    const sorted = front
+      .map((index, position) => ({ value: objectives[index][m], position }))
+      .sort((a, b) => a.value - b.value);
+
+    const range = sorted[sorted.length - 1].value - sorted[0].value;
+    distances[sorted[0].position] = Infinity;
+    distances[sorted[sorted.length - 1].position] = Infinity;
+    if (range === 0) continue;
+
+    for (let i = 1; i < sorted.length - 1; i++) {
+      distances[sorted[i].position] += (sorted[i + 1].value - sorted[i - 1].value) / range;
+    }
+  }
+
+  return distances;
+}
+
+/**
+ * 拥挤比较：前沿更靠前者优先，同一前沿内拥挤距离大者优先
+ */
+function crowdedCompare<G>(a: Nsga2Individual<G>, b: Nsga2Individual<G>): number {
+  if (a.rank !== b.rank) return a.rank - b.rank;
+  return b.crowding - a.crowding;
+}
+
+/**
+ * 对合并种群排序，按前沿和拥挤距离截取 size 个个体
+ */
+function selectSurvivors<G>(candidates: { genome: G; objectives: Objectives }[], size: number): Nsga2Individual<G>[] {
+  const objectives = candidates.map(c => c.objectives);
+  const survivors: Nsga2Individual<G>[] = [];
+
+  for (const [rank, front] of fastNonDominatedSort(objectives).entries()) {
+    const crowding = crowdingDistances(objectives, front);
+    const ranked = front.map((index, position) => ({
+      ...candidates[index],
+      rank,
+      crowding: crowding[position],
+    }));
+
+    if (survivors.length + ranked.length <= size) {
+      survivors.push(...ranked);
+    } else {
+      ranked.sort(crowdedCompare);
+      survivors.push(...ranked.slice(0, size - survivors.length));
+    }
+    if (survivors.length >= size) break;
+  }
+
+  return survivors;
+}
+
+/**
+ * 二元锦标赛选择
+ */
+function tournament<G>(population: Nsga2Individual<G>[], random: RandomSource): Nsga2Individual<G> {
+  const a = population[Math.floor(random() * population.length)];
+  const b = population[Math.floor(random() * population.length)];
+  return crowdedCompare(a, b) <= 0 ? a : b;
+}
+
+/**
+ * 运行NSGA-II，返回最后一代的Pareto前沿（按第一个目标排序，去掉目标值完全相同的重复解）
+ */
+export async function runNsga2<G>(config: Nsga2Config<G>): Promise<Nsga2Individual<G>[]> {
+  const {
+    initialPopulation,
+    evaluate,
+    crossover,
+    mutate,
+    generations,
+    crossoverRate = 0.9,
+    mutationRate = 0.6,
+    random,
+    onGeneration,
+  } = config;
+
+  const size = initialPopulation.length;
+  let population = selectSurvivors(
+    initialPopulation.map(genome => ({ genome, objectives: evaluate(genome) })),
+    size
+  );
+
+  for (let gen = 0; gen < generations; gen++) {
+    // 生成子代
+    const offspring: { genome: G; objectives: Objectives }[] = [];
+    while (offspring.length < size) {
+      const parentA = tournament(population, random);
+      const parentB = tournament(population, random);
+      let child = random() < crossoverRate
+        ? crossover(parentA.genome, parentB.genome, random)
+        : parentA.genome;
+      if (random() < mutationRate || child === parentA.genome) {
+        child = mutate(child, random);
+      }
+      offspring.push({ genome: child, objectives: evaluate(child) });
+    }
+
+    // 精英保留：父代 + 子代一起排序
+    population = selectSurvivors([...population, ...offspring], size);
+
+    if (onGeneration) await onGeneration(gen, population);
+  }
+
+  const seen = new Set<string>();
+  return population
+    .filter(individual => individual.rank === 0)
+    .sort((a, b) => a.objectives[0] - b.objectives[0])
+    .filter(individual => {
+      const key = individual.objectives.map(v => v.toFixed(3)).join('|');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * 把新解并入Pareto前沿：被新解支配的移除；新解被支配或与已有解目标相同时不加入
+ */
+export function insertNonDominated<T>(front: T[], candidate: T, objectivesOf: (item: T) => Objectives): T[] {
+  const objectives = objectivesOf(candidate);
+  const sameAs = (other: Objectives) => other.every((value, i) => value.toFixed(3) === objectives[i].toFixed(3));
+  if (front.some(item => dominates(objectivesOf(item), objectives) || sameAs(objectivesOf(item)))) return front;
+  return [...front.filter(item => !dominates(objectives, objectivesOf(item))), candidate];
+}
+
+// ---------------------------------------------------------------------------
+// 路线基因与遗传算子
+// ---------------------------------------------------------------------------
+
+// 每辆车按顺序访问的站点下标
+export type RouteGenome = number[][];
+
+export interface GenomeContext {
+  locations: Location[];  // 站点下标 → 坐标
+  itemDepots: string[];   // 站点下标 → 所属仓库ID
+  itemCategories: EquipmentCategory[][]; // 站点下标 → 需要的设备类别
+  vehicles: { depotId: string; location: Location; typeId: VehicleTypeId }[]; // 车辆下标 → 出发仓库和车型
+  matrix: TravelMatrix; // 行驶距离（见 travelMatrix.ts）
+}
+
+/**
+ * 站点能否分给该车辆：同仓库且车型能运输其设备
+ */
+export function canAssign(context: GenomeContext, vehicle: number, item: number): boolean {
+  const { depotId, typeId } = context.vehicles[vehicle];
+  return depotId === context.itemDepots[item] && canCarry(typeId, context.itemCategories[item]);
+}
+
+/**
+ * 把站点插入到同仓库、车型兼容的车辆中增加距离最少的位置
+ */
+function insertCheapest(genome: RouteGenome, item: number, context: GenomeContext, excludeVehicle: number = -1): void {
+  const location = context.locations[item];
+  let best = { vehicle: -1, position: 0, delta: Infinity };
+
+  context.vehicles.forEach((vehicle, v) => {
+    if (v === excludeVehicle || !canAssign(context, v, item)) return;
+    const route = genome[v];
+    for (let position = 0; position <= route.length; position++) {
+      const prev = position === 0 ? vehicle.location : context.locations[route[position - 1]];
+      const next = position === route.length ? vehicle.location : context.locations[route[position]];
+      const { matrix } = context;
+      const delta = matrix.distance(prev, location) + matrix.distance(location, next) - matrix.distance(prev, next);
+      if (delta < best.delta) best = { vehicle: v, position, delta };
+    }
+  });
+
+  if (best.vehicle === -1) {
+    // 没有任何兼容车辆说明编码时分错了车辆，继续递归只会死循环
+    if (excludeVehicle === -1) throw new Error(`No compatible vehicle for item ${item} at depot ${context.itemDepots[item]}`);
+    // 没有其他同仓库的兼容车辆：放回原车辆
+    insertCheapest(genome, item, context);
+    return;
+  }
+  genome[best.vehicle].splice(best.position, 0, item);
+}
+
+/**
+ * 最佳代价路线交叉（BCRC）：取父代B的一条路线，从父代A中移除这些站点后逐个最便宜插入
+ */
+export function crossoverRoutes(
+  a: RouteGenome,
+  b: RouteGenome,
+  context: GenomeContext,
+  random: RandomSource
+): RouteGenome {
+  const donors = b.map((route, v) => ({ route, v })).filter(({ route }) => route.length > 0);
+  if (donors.length === 0) return a.map(route => [...route]);
+
+  const donated = donors[Math.floor(random() * donors.length)].route;
+  const removed = new Set(donated);
+  const child = a.map(route => route.filter(item => !removed.has(item)));
+
+  // 随机插入顺序，避免总是偏向同一种结果
+  shuffle(donated, random).forEach(item => insertCheapest(child, item, context));
+
+  return child;
+}
+
+/**
+ * 变异：交换、段反转（2-opt）或把一个站点移到同仓库的另一辆兼容车辆
+ */
+export function mutateRoutes(genome: RouteGenome, context: GenomeContext, random: RandomSource): RouteGenome {
+  const child = genome.map(route => [...route]);
+  const candidates = child.map((route, v) => ({ route, v })).filter(({ route }) => route.length > 0);
+  if (candidates.length === 0) return child;
+
+  const { route, v } = candidates[Math.floor(random() * candidates.length)];
+  const i = Math.floor(random() * route.length);
+  const j = Math.floor(random() * route.length);
+  const operator = random();
+
+  if (operator < 0.3) {
+    [route[i], route[j]] = [route[j], route[i]];
+  } else if (operator < 0.65) {
+    const [from, to] = i < j ? [i, j] : [j, i];
+    route.splice(from, to - from + 1, ...route.slice(from, to + 1).reverse());
+  } else {
+    const [item] = route.splice(i, 1);
+    insertCheapest(child, item, context, v);
+  }
+
+  return child;
+}
+
+// ---------------------------------------------------------------------------
+// 优化目标
+// ---------------------------------------------------------------------------
+
+const DRIVER_COST_PER_HOUR = 65;         // 司机工时（AUD/h）
+const EMISSIONS_KG_PER_KM = 0.2;         // 空车排放（kg CO₂/km）
+const EMISSIONS_KG_PER_TONNE_KM = 0.05;  // 载重附加排放（kg CO₂/吨公里）
+
+export interface RouteObjectives {
+  costAud: number;                // 运营成本（含时间窗惩罚）
+  emissionsKgCO2: number;         // 按载重计算的碳排放
+  workloadImbalanceHours: number; // 各车工作时长的标准差
+}
+
+// 计算目标所需的路线信息
+export interface ObjectiveRoute {
+  route: Location[];      // 第一个点为仓库
+  stops: PlannedStop[];
+  startTime: number;
+  endTime: number;
+  cost: number;           // 道路距离 + 时间窗惩罚（km当量）
+  costPerKm: number;      // 车辆每公里成本（见 fleet.ts）
+}
+
+/**
+ * 按车上载重累计的排放：每趟出发时装满送货，沿途卸货/收货
+ */
+function routeEmissions(route: ObjectiveRoute, matrix: TravelMatrix): number {
+  const depot = route.route[0];
+  if (!depot) return 0;
+
+  let emissions = 0;
+  let position = depot;
+  let onboardKg = 0;
+
+  const legEmissions = (from: Location, to: Location, kg: number) =>
+    matrix.distance(from, to) * (EMISSIONS_KG_PER_KM + EMISSIONS_KG_PER_TONNE_KM * kg / 1000);
+
+  route.stops.forEach((stop, index) => {
+    const newTrip = index === 0 || stop.trip !== route.stops[index - 1].trip;
+    if (newTrip) {
+      if (index > 0) emissions += legEmissions(position, depot, onboardKg);
+      position = depot;
+      onboardKg = route.stops
+        .filter(s => s.trip === stop.trip)
+        .reduce((sum, s) => sum + s.delivery.weightKg, 0);
+    }
+    emissions += legEmissions(position, stop.location, onboardKg);
+    onboardKg += stop.collection.weightKg - stop.delivery.weightKg;
+    position = stop.location;
+  });
+
+  if (route.stops.length > 0) emissions += legEmissions(position, depot, onboardKg);
+  return emissions;
+}
+
+/**
+ * 计算一个方案（多辆车）的三个目标
+ */
+export function evaluateRouteObjectives(
+  routes: ObjectiveRoute[],
+  matrix: TravelMatrix = DEFAULT_TRAVEL_MATRIX
+): RouteObjectives {
+  const hours = routes.map(r => Math.max(0, r.endTime - r.startTime) / 60);
+  const meanHours = hours.length > 0 ? hours.reduce((sum, h) => sum + h, 0) / hours.length : 0;
+  const variance = hours.length > 0
+    ? hours.reduce((sum, h) => sum + (h - meanHours) ** 2, 0) / hours.length
+    : 0;
+
+  return {
+    costAud: routes.reduce((sum, r) => sum + r.cost * r.costPerKm, 0) +
+      hours.reduce((sum, h) => sum + h * DRIVER_COST_PER_HOUR, 0),
+    emissionsKgCO2: routes.reduce((sum, r) => sum + routeEmissions(r, matrix), 0),
+    workloadImbalanceHours: Math.sqrt(variance),
+  };
+}
+
+export function objectivesToVector(objectives: RouteObjectives): Objectives {
+  return [objectives.costAud, objectives.emissionsKgCO2, objectives.workloadImbalanceHours];
+}
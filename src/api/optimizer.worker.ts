@@ -0,0 +1,39 @@
+/**
+ * 优化器 Web Worker - 在后台线程运行路线优化，不阻塞地图和UI
+ * 消息格式见 optimizerProtocol.ts
+ */
+
+import {
+  createOptimizerControl,
+  executeOptimizerRequest,
+  type OptimizerControl,
+  type OptimizerRequest,
+  type OptimizerResponse,
+} from './optimizerProtocol';
+
+let control: OptimizerControl | null = null;
+
+const post = (response: OptimizerResponse) => self.postMessage(response);
+
+self.addEventListener('message', (event: MessageEvent<OptimizerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'start':
+      control?.abort(); // 同一Worker只运行一个优化
+      control = createOptimizerControl();
+      executeOptimizerRequest(request, control, post);
+      break;
+    case 'pause':
+      control?.pause();
+      post({ type: 'paused' });
+      break;
+    case 'resume':
+      control?.resume();
+      post({ type: 'resumed' });
+      break;
+    case 'abort':
+      control?.abort();
+      break;
+  }
+});
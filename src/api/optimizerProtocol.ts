@@ -0,0 +1,152 @@
+/**
+ * 优化器 Web Worker 消息协议
+ * 主线程 → Worker：start / pause / resume / abort
+ * Worker → 主线程：progress / result / paused / resumed / aborted / error
+ * 两个优化器在每代结束时调用 control.checkpoint()，在这里响应暂停和取消
+ */
+
+import {
+  optimizeWithProgress,
+  type OptimizationProgress,
+  type ProgressiveOptions,
+  type ProgressiveResult,
+} from './progressiveOptimizer';
+import { optimizeRoutesWithAlternatives, type RouteOptimizationResult } from './routeOptimizer';
+import type { DepotAssignmentMode } from './depots';
+import type { Vehicle } from './fleet';
+import type { VehicleShift } from './timeWindows';
+import type { ClusteringOptions } from './clustering';
+import type { TravelMatrixData } from './travelMatrix';
+
+// 传给Worker的工地数据（需可结构化克隆）
+type OptimizerSite = Parameters<typeof optimizeWithProgress>[0][number];
+
+export type OptimizerStartRequest =
+  | {
+      type: 'start';
+      optimizer: 'progressive';
+      sites: OptimizerSite[];
+      fleet: Vehicle[];
+      options: Omit<ProgressiveOptions, 'control'>;
+    }
+  | {
+      type: 'start';
+      optimizer: 'alternatives';
+      sites: Parameters<typeof optimizeRoutesWithAlternatives>[0];
+      fleet: Vehicle[];
+      depotMode: DepotAssignmentMode;
+      shift?: VehicleShift;
+      seed?: number;
+      clustering?: ClusteringOptions;
+      travelMatrix?: TravelMatrixData;
+    };
+
+export type OptimizerRequest =
+  | OptimizerStartRequest
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'abort' };
+
+export type OptimizerResponse =
+  | { type: 'progress'; progress: OptimizationProgress }
+  | { type: 'result'; optimizer: 'progressive'; result: ProgressiveResult }
+  | { type: 'result'; optimizer: 'alternatives'; result: RouteOptimizationResult }
+  | { type: 'paused' }
+  | { type: 'resumed' }
+  | { type: 'aborted' }
+  | { type: 'error'; message: string };
+
+/**
+ * 优化被用户取消
+ */
+export class OptimizationAbortedError extends Error {
+  constructor() {
+    super('Optimization aborted');
+    this.name = 'OptimizationAbortedError';
+  }
+}
+
+// 暂停/取消控制，由优化器在每代之间检查
+export interface OptimizerControl {
+  readonly paused: boolean;
+  readonly aborted: boolean;
+  pause(): void;
+  resume(): void;
+  abort(): void;
+  checkpoint(): Promise<void>; // 让出事件循环；暂停时等待恢复；已取消时抛出 OptimizationAbortedError
+}
+
+export function createOptimizerControl(): OptimizerControl {
+  let paused = false;
+  let aborted = false;
+  let wake: (() => void) | null = null;
+
+  const release = () => {
+    wake?.();
+    wake = null;
+  };
+
+  return {
+    get paused() { return paused; },
+    get aborted() { return aborted; },
+    pause() {
+      if (!aborted) paused = true;
+    },
+    resume() {
+      paused = false;
+      release();
+    },
+    abort() {
+      aborted = true;
+      paused = false;
+      release();
+    },
+    async checkpoint() {
+      // 让出事件循环，以便处理 pause/abort 消息（主线程回退模式下也让UI渲染）
+      await new Promise(resolve => setTimeout(resolve, 0));
+      while (paused && !aborted) {
+        await new Promise<void>(resolve => { wake = resolve; });
+      }
+      if (aborted) throw new OptimizationAbortedError();
+    },
+  };
+}
+
+/**
+ * 执行一次优化请求，把进度和结果作为协议消息发出（Worker和主线程回退共用）
+ */
+export async function executeOptimizerRequest(
+  request: OptimizerStartRequest,
+  control: OptimizerControl,
+  post: (response: OptimizerResponse) => void
+): Promise<void> {
+  try {
+    if (request.optimizer === 'progressive') {
+      const result = await optimizeWithProgress(
+        request.sites,
+        request.fleet,
+        progress => post({ type: 'progress', progress }),
+        { ...request.options, control }
+      );
+      post({ type: 'result', optimizer: 'progressive', result });
+    } else {
+      const result = await optimizeRoutesWithAlternatives(
+        request.sites,
+        request.fleet,
+        request.depotMode,
+        request.shift,
+        control,
+        request.seed,
+        request.clustering,
+        request.travelMatrix
+      );
+      post({ type: 'result', optimizer: 'alternatives', result });
+    }
+  } catch (error) {
+    if (error instanceof OptimizationAbortedError) {
+      post({ type: 'aborted' });
+    } else {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
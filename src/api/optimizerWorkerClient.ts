@@ -0,0 +1,115 @@
+/**
+ * 主线程侧的优化器任务：启动 Worker、转发进度、暂停/恢复/取消
+ * 不支持 Worker 的环境回退到主线程执行（同样支持暂停和取消）
+ */
+
+import {
+  createOptimizerControl,
+  executeOptimizerRequest,
+  OptimizationAbortedError,
+  type OptimizerRequest,
+  type OptimizerResponse,
+  type OptimizerStartRequest,
+} from './optimizerProtocol';
+import type { OptimizationProgress, ProgressiveOptions, ProgressiveResult } from './progressiveOptimizer';
+import type { RouteOptimizationResult } from './routeOptimizer';
+import type { Vehicle } from './fleet';
+
+// 提供给UI的控制句柄
+export interface OptimizerJob {
+  pause(): void;
+  resume(): void;
+  abort(): void;
+}
+
+interface RunningJob<R> extends OptimizerJob {
+  result: Promise<R>;
+}
+
+/**
+ * 启动一次优化任务
+ * 结果 Promise 在取消时以 OptimizationAbortedError 拒绝
+ */
+function startOptimizerJob<R>(
+  request: OptimizerStartRequest,
+  onProgress?: (progress: OptimizationProgress) => void
+): RunningJob<R> {
+  let send: (message: OptimizerRequest) => void;
+  let cleanup = () => {};
+
+  const result = new Promise<R>((resolve, reject) => {
+    const handle = (response: OptimizerResponse) => {
+      switch (response.type) {
+        case 'progress':
+          onProgress?.(response.progress);
+          break;
+        case 'result':
+          cleanup();
+          resolve(response.result as R);
+          break;
+        case 'aborted':
+          cleanup();
+          reject(new OptimizationAbortedError());
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(response.message));
+          break;
+      }
+    };
+
+    if (typeof Worker !== 'undefined') {
+      const worker = new Worker(new URL('./optimizer.worker.ts', import.meta.url), { type: 'module' });
+      worker.addEventListener('message', (event: MessageEvent<OptimizerResponse>) => handle(event.data));
+      worker.addEventListener('error', event => {
+        cleanup();
+        reject(new Error(event.message || 'Optimizer worker failed'));
+      });
+      cleanup = () => worker.terminate();
+      send = message => worker.postMessage(message);
+    } else {
+      // 回退：主线程执行
+      const control = createOptimizerControl();
+      send = message => {
+        if (message.type === 'pause') control.pause();
+        if (message.type === 'resume') control.resume();
+        if (message.type === 'abort') control.abort();
+      };
+      executeOptimizerRequest(request, control, handle);
+      return;
+    }
+
+    send(request);
+  });
+
+  return {
+    result,
+    pause: () => send({ type: 'pause' }),
+    resume: () => send({ type: 'resume' }),
+    abort: () => send({ type: 'abort' }),
+  };
+}
+
+/**
+ * 在 Worker 中运行渐进式优化（NSGA-II，逐代回调进度）
+ */
+export function runProgressiveOptimizer(
+  sites: Extract<OptimizerStartRequest, { optimizer: 'progressive' }>['sites'],
+  fleet: Vehicle[],
+  options: Omit<ProgressiveOptions, 'control'>,
+  onProgress: (progress: OptimizationProgress) => void
+): RunningJob<ProgressiveResult> {
+  return startOptimizerJob<ProgressiveResult>(
+    { type: 'start', optimizer: 'progressive', sites, fleet, options },
+    onProgress
+  );
+}
+
+/**
+ * 在 Worker 中运行多候选解优化（最优解 + Pareto前沿上的次优解）
+ */
+export function runRouteOptimizer(
+  request: Omit<Extract<OptimizerStartRequest, { optimizer: 'alternatives' }>, 'type' | 'optimizer'>
+): RunningJob<RouteOptimizationResult> {
+  return startOptimizerJob<RouteOptimizationResult>({ type: 'start', optimizer: 'alternatives', ...request });
+}
@@ -0,0 +1,188 @@
+/**
+ * 任务优先级引擎 - 决定本周要访问哪些工地
+ * 优化器（selectWeeklyPriorityTasks）和控制面板的"本周计划"共用同一套评分
+ * 每个因素的权重可在界面上调整，评分附带明细便于调度员理解排序
+ */
+
+import { getBacklogDate, getWeeksDeferred, type Backlog } from './backlog';
+import { classifyTransportTask } from './dataset';
+
+export interface PriorityWeights {
+  perTask: number;            // 每个运输任务
+  delivery: number;           // 有送货任务（客户等待设备）
+  collection: number;         // 有回收任务
+  competitorRental: number;   // 租用竞争对手设备（每天都在付租金）
+  contractEnding: number;     // 合同即将到期（越近越高，已到期为满分）
+  keyCustomer: number;        // 重点客户
+  taskAgePerWeek: number;     // 任务等待时间（每周）
+  deferredPerWeek: number;    // 在积压中被推迟（每周）
+}
+
+export const DEFAULT_PRIORITY_WEIGHTS: PriorityWeights = {
+  perTask: 10,
+  delivery: 50,
+  collection: 30,
+  competitorRental: 100,
+  contractEnding: 40,
+  keyCustomer: 25,
+  taskAgePerWeek: 2,
+  deferredPerWeek: 15,
+};
+
+export interface PriorityConfig {
+  weights: PriorityWeights;
+  weeklyCapacity: number;     // 本周最多安排的工地数
+  keyCustomerMinSites: number; // 在任务池中有至少这么多工地的客户视为重点客户
+  referenceDate?: string;     // 计划日期（ISO），用于计算合同剩余天数和任务等待时间；默认今天
+}
+
+// 本周优先工地容量配置
+export const WEEKLY_PRIORITY_CAPACITY = 43;
+
+export const DEFAULT_PRIORITY_CONFIG: PriorityConfig = {
+  weights: DEFAULT_PRIORITY_WEIGHTS,
+  weeklyCapacity: WEEKLY_PRIORITY_CAPACITY,
+  keyCustomerMinSites: 5,
+};
+
+// 合同在这么多天内到期开始加分
+const CONTRACT_END_HORIZON_DAYS = 30;
+// 任务等待时间加分上限（周）
+const MAX_TASK_AGE_WEEKS = 26;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 评分需要的工地信息（原始数据和 Asset 都满足）
+export interface PrioritySite {
+  id: string;
+  customer?: string;
+  transport_tasks?: Array<{ type: string }>;
+  dates?: { start?: string; end?: string } | null;
+  rental_info?: { is_competitor_rental?: boolean } | null;
+}
+
+export type PriorityFactor = keyof PriorityWeights;
+
+export interface SitePriority {
+  siteId: string;
+  score: number;
+  breakdown: { factor: PriorityFactor; label: string; points: number }[]; // 只含得分不为0的因素
+}
+
+/**
+ * 在任务池中各客户的工地数（用于判断重点客户）
+ */
+function countSitesByCustomer(sites: PrioritySite[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  sites.forEach(site => {
+    if (site.customer) counts.set(site.customer, (counts.get(site.customer) || 0) + 1);
+  });
+  return counts;
+}
+
+function parseDate(value?: string): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
+
+/**
+ * 单个工地的优先级评分及明细
+ */
+function scoreSite(
+  site: PrioritySite,
+  config: PriorityConfig,
+  customerSites: Map<string, number>,
+  now: number,
+  backlog: Backlog
+): SitePriority {
+  const { weights } = config;
+  const tasks = site.transport_tasks || [];
+  const breakdown: SitePriority['breakdown'] = [];
+  const add = (factor: PriorityFactor, label: string, points: number) => {
+    if (points !== 0) breakdown.push({ factor, label, points });
+  };
+
+  // 因素1: 任务数量多的优先（需要处理的事情多）
+  add('perTask', `${tasks.length} task${tasks.length === 1 ? '' : 's'}`, tasks.length * weights.perTask);
+
+  // 因素2/3: 送货（客户等待设备）、回收
+  if (tasks.some(t => classifyTransportTask(t.type) === 'delivery')) add('delivery', 'Delivery', weights.delivery);
+  if (tasks.some(t => classifyTransportTask(t.type) === 'collection')) add('collection', 'Collection', weights.collection);
+
+  // 因素4: 竞争对手租赁高优先级（减少成本）
+  if (site.rental_info?.is_competitor_rental || tasks.some(t => t.type === 'competitor_rental')) {
+    add('competitorRental', 'Competitor rental', weights.competitorRental);
+  }
+
+  // 因素5: 合同即将到期（需要安排回收），已到期按满分
+  const end = parseDate(site.dates?.end);
+  if (end !== null) {
+    const daysLeft = (end - now) / DAY_MS;
+    if (daysLeft <= CONTRACT_END_HORIZON_DAYS) {
+      const urgency = Math.min(1, 1 - Math.max(0, daysLeft) / CONTRACT_END_HORIZON_DAYS);
+      add('contractEnding', daysLeft < 0 ? 'Contract ended' : `Contract ends in ${Math.ceil(daysLeft)}d`, Math.round(urgency * weights.contractEnding));
+    }
+  }
+
+  // 因素6: 重点客户
+  if (site.customer && (customerSites.get(site.customer) || 0) >= config.keyCustomerMinSites) {
+    add('keyCustomer', 'Key customer', weights.keyCustomer);
+  }
+
+  // 因素7: 任务等待时间（数据中任务没有下单时间，按合同开始日期计算）
+  const start = parseDate(site.dates?.start);
+  if (start !== null && start < now) {
+    const weeks = Math.min(MAX_TASK_AGE_WEEKS, Math.floor((now - start) / (7 * DAY_MS)));
+    add('taskAgePerWeek', `Waiting ${weeks}w`, weeks * weights.taskAgePerWeek);
+  }
+
+  // 因素8: 之前的规划中被推迟（每推迟一周加分，避免一直排不上）
+  const deferredWeeks = getWeeksDeferred(backlog, site.id, getBacklogDate(new Date(now).toISOString()));
+  add('deferredPerWeek', `Deferred ${deferredWeeks}w`, deferredWeeks * weights.deferredPerWeek);
+
+  return {
+    siteId: site.id,
+    score: breakdown.reduce((sum, item) => sum + item.points, 0),
+    breakdown,
+  };
+}
+
+/**
+ * 为任务池中的每个工地评分（只评有运输任务的工地），按分数从高到低排序
+ * backlog 为之前规划中推迟的工地，推迟周数按 referenceDate 计算（早于今天时按今天，见 getBacklogDate）
+ */
+export function rankSites<T extends PrioritySite>(
+  sites: T[],
+  config: PriorityConfig = DEFAULT_PRIORITY_CONFIG,
+  backlog: Backlog = {}
+): { site: T; priority: SitePriority }[] {
+  const pool = sites.filter(site => site.transport_tasks && site.transport_tasks.length > 0);
+  const customerSites = countSitesByCustomer(pool);
+  const now = parseDate(config.referenceDate) ?? Date.now();
+
+  return pool
+    .map(site => ({ site, priority: scoreSite(site, config, customerSites, now, backlog) }))
+    .sort((a, b) => b.priority.score - a.priority.score);
+}
+
+/**
+ * 本周可安排的任务池工地数：weeklyCapacity 减去为预测的新访问预留的名额
+ */
+export function getWeeklySiteSlots(config: PriorityConfig, reservedVisits: number = 0): number {
+  return Math.max(0, config.weeklyCapacity - reservedVisits);
+}
+
+/**
+ * 选择本周要访问的工地（按优先级取前 getWeeklySiteSlots 个）
+ */
+export function selectPrioritySites<T extends PrioritySite>(
+  sites: T[],
+  config: PriorityConfig = DEFAULT_PRIORITY_CONFIG,
+  backlog: Backlog = {},
+  reservedVisits: number = 0
+): T[] {
+  return rankSites(sites, config, backlog)
+    .slice(0, getWeeklySiteSlots(config, reservedVisits))
+    .map(item => item.site);
+}
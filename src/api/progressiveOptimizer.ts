@@ -3,6 +3,48 @@
  * 在优化过程中不断生成候选解并通过回调传递给UI
  */
 
+import type { Depot, DepotAssignmentMode } from './depots';
+import { assignSitesToFleet, fitClustersToVehicles, type Vehicle } from './fleet';
+import { getRequiredCategories, type EquipmentCategory } from './vehicleTypes';
+import {
+  getSiteDemand,
+  planCapacitatedTrips,
+  type CapacityStop,
+} from './capacity';
+import {
+  DEFAULT_SHIFT,
+  estimateTourPenalty,
+  fitRouteToShift,
+  formatClock,
+  getServiceMinutes,
+  getSiteTimeWindow,
+  scheduleRoute,
+  timeWindowPenalty,
+  type ScheduledStop,
+  type TimeWindow,
+  type VehicleShift,
+} from './timeWindows';
+import {
+  crossoverRoutes,
+  evaluateRouteObjectives,
+  insertNonDominated,
+  mutateRoutes,
+  objectivesToVector,
+  runNsga2,
+  type GenomeContext,
+  type RouteGenome,
+  type RouteObjectives,
+} from './nsga2';
+import { annealRoutes } from './localSearch';
+import type { OptimizerControl } from './optimizerProtocol';
+import { WORKING_DAYS, estimateWorkload, getDayLabel, planWeek } from './weeklyPlanner';
+import { DEFAULT_CLUSTERING, clusterLocations, type ClusteringOptions } from './clustering';
+import { createTravelMatrix, type TravelMatrix, type TravelMatrixData } from './travelMatrix';
+import { DEFAULT_PRIORITY_CONFIG, selectPrioritySites, type PriorityConfig } from './priorityEngine';
+import type { Backlog } from './backlog';
+import type { TransportTask } from './dataset';
+import { createRandom, randomSeed, type RandomSource } from './random';
+
 interface Location {
   lat: number;
   lng: number;
@@ -11,97 +53,122 @@ interface Location {
 interface Site {
   id: string;
   location: Location;
-  transport_tasks: any[];
+  transport_tasks: TransportTask[];
+  equipment?: Array<{ description: string; quantity: number }>;
+  depot?: { name?: string } | null;
+  time_window?: { start?: string; end?: string } | null;
+  customer?: string;
+  dates?: { start?: string; end?: string } | null; // 合同起止日期（优先级评分使用）
+  rental_info?: { is_competitor_rental?: boolean } | null;
 }
 
 interface RouteCandidate {
   vehicleId: string;
-  route: Location[];
+  vehicleName: string;
+  depotId: string; // 出发/返回的仓库
+  route: Location[]; // 含中途回仓库装货的点
+  stops: ScheduledStop[]; // 每次工地访问（含装载量、趟次和ETA）
+  trips: number; // 出车趟数（1 = 无需中途回仓库）
+  peakUtilisation: number; // 最高装载率
+  startTime: number; // 离开仓库（距0点分钟数）
+  endTime: number; // 回到仓库
+  lateMinutes: number; // 迟于时间窗的分钟数
+  overtimeMinutes: number; // 超出班次的分钟数
+  violations: string[]; // 时间窗/班次违规说明
   distance: number;
+  cost: number; // 距离 + 时间窗惩罚（km当量）
+  costPerKm: number; // 车辆每公里成本
   generation: number; // 第几代
 }
 
-interface OptimizationProgress {
+export interface OptimizationProgress {
+  day: number; // 正在优化的工作日
+  dayLabel: string;
   generation: number;
   routes: RouteCandidate[];
   totalDistance: number;
   isBest: boolean; // 是否是目前最优解
+  paretoFrontSize: number; // 当代Pareto前沿的方案数
+}
+
+// Pareto前沿上的一个方案（成本/排放/工作量均衡的一种权衡）
+export interface ParetoSolution {
+  routes: RouteCandidate[];
+  objectives: RouteObjectives;
+  totalDistance: number;
+  deferredSiteIds: string[]; // 班次结束时截下、推迟到下周的工地
+}
+
+// 路线优化前的初始聚类（每辆车一组，用于地图叠加显示）
+export interface VehicleCluster {
+  vehicleId: string;
+  depotId: string;
+  centre: Location; // 成员工地坐标均值
+  siteIds: string[];
+}
+
+// 一个工作日的路线
+export interface DayPlan {
+  day: number; // 0 = 周一
+  label: string;
+  best: RouteCandidate[]; // 推荐方案：时间窗违规最少、成本最低
+  paretoFront: ParetoSolution[]; // 按成本排序
+  deferredSiteIds: string[]; // 推荐方案在班次结束时截下的工地
+  clusters: VehicleCluster[];
+}
+
+export interface ProgressiveResult {
+  days: DayPlan[]; // 周计划（每个工作日一组路线）
+  seed: number; // 本次使用的随机种子
+  unselectedSiteIds: string[]; // 优先级未进入本周名单
+  deferredSiteIds: string[]; // 本周车辆工时放不下（周计划预估或推荐路线截断），推迟到下周
+  unservedSiteIds: string[]; // 车队中没有能运输其设备的可用车辆
 }
 
 export type ProgressCallback = (progress: OptimizationProgress) => void;
 
-/**
- * 计算两点间的真实距离（km）
- */
-function calculateDistance(a: Location, b: Location): number {
-  const R = 6371;
-  const dLat = (b.lat - a.lat) * Math.PI / 180;
-  const dLon = (b.lng - a.lng) * Math.PI / 180;
-  
-  const a1 = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  
-  const c = 2 * Math.atan2(Math.sqrt(a1), Math.sqrt(1 - a1));
-  return R * c;
+export interface ProgressiveOptions {
+  depotMode?: DepotAssignmentMode;
+  shift?: VehicleShift;
+  control?: OptimizerControl; // 暂停/取消（Worker中运行时提供）
+  seed?: number; // 随机种子（相同种子复现同一方案，不指定则随机生成）
+  workingDays?: number; // 周计划的工作日数（默认周一至周五）
+  priority?: PriorityConfig; // 优先级权重和本周容量
+  clustering?: ClusteringOptions; // 初始聚类方法和均衡方式
+  travelMatrix?: TravelMatrixData; // 预先构建的行驶矩阵（不提供时按道路系数估算）
+  backlog?: Backlog; // 之前规划中推迟的工地（推迟越久优先级越高）
+  reservedVisits?: number; // 需求预测中本周尚未进入任务池的送货/回收（预留周容量和车辆工时）
 }
 
 /**
- * 计算路线总距离
+ * 计算路线总距离（按行驶矩阵的道路距离）
  */
-function calculateRouteDistance(route: Location[]): number {
+function calculateRouteDistance(route: Location[], matrix: TravelMatrix): number {
   let total = 0;
   for (let i = 0; i < route.length - 1; i++) {
-    total += calculateDistance(route[i], route[i + 1]);
+    total += matrix.distance(route[i], route[i + 1]);
   }
   return total;
 }
 
-// 本周优先工地容量配置
-export const WEEKLY_PRIORITY_CAPACITY = 43;
+/**
+ * 访问顺序的总距离（仓库 → 工地 → 仓库，不含中途装货）
+ */
+function calculateTourDistance(depot: Location, order: Site[], matrix: TravelMatrix): number {
+  return calculateRouteDistance([depot, ...order.map(s => s.location), depot], matrix);
+}
 
 /**
  * 任务优先级筛选 - 从所有工地中选择本周需要访问的
- * 架构中的"任务聚合与优先级引擎"
+ * 架构中的"任务聚合与优先级引擎"（评分规则见 priorityEngine.ts），预测的新访问占用一部分名额
  */
-function selectWeeklyPriorityTasks(sites: Site[], weeklyCapacity: number = WEEKLY_PRIORITY_CAPACITY): Site[] {
-  // 1. 过滤出有任务的工地
+function selectWeeklyPriorityTasks(sites: Site[], config: PriorityConfig, backlog: Backlog, reservedVisits: number): Site[] {
   const sitesWithTasks = sites.filter(site => 
     site.transport_tasks && site.transport_tasks.length > 0
   );
+  const selectedSites = selectPrioritySites(sitesWithTasks, config, backlog, reservedVisits);
   
-  // 2. 计算优先级分数
-  const sitesWithPriority = sitesWithTasks.map(site => {
-    let priorityScore = 0;
-    
-    // 因素1: 任务数量多的优先（需要处理的事情多）
-    priorityScore += site.transport_tasks.length * 10;
-    
-    // 因素2: 有Delivery任务优先（客户等待设备）
-    const hasDelivery = site.transport_tasks.some((t: any) => 
-      t.type.toLowerCase().includes('delivery'));
-    if (hasDelivery) priorityScore += 50;
-    
-    // 因素3: Collection任务次优（回收设备）
-    const hasCollection = site.transport_tasks.some((t: any) => 
-      t.type.toLowerCase().includes('collection'));
-    if (hasCollection) priorityScore += 30;
-    
-    // 因素4: 竞争对手租赁高优先级（减少成本）
-    if (site.transport_tasks.some((t: any) => t.type === 'competitor_rental')) {
-      priorityScore += 100;
-    }
-    
-    return { site, priorityScore };
-  });
-  
-  // 3. 按优先级排序并选择top N
-  const selectedSites = sitesWithPriority
-    .sort((a, b) => b.priorityScore - a.priorityScore)
-    .slice(0, weeklyCapacity)
-    .map(item => item.site);
-  
-  console.log(`📊 Task prioritization: Selected ${selectedSites.length} highest priority sites from ${sitesWithTasks.length} total`);
+  console.log(`📊 Task prioritization: Selected ${selectedSites.length} highest priority sites from ${sitesWithTasks.length} total (${reservedVisits} slot(s) reserved for forecast demand)`);
   
   return selectedSites;
 }
@@ -116,65 +183,60 @@ function consolidateSiteTasks(sites: Site[]): Site[] {
 }
 
 /**
- * K-means聚类
+ * 多仓库聚类：先把工地分配给有兼容可用车辆的仓库，再在每个仓库内按车辆数聚类（见 clustering.ts）
+ * 每辆可用车辆对应一个聚类（工地少于车辆时部分车辆初始为空，进化过程中可分到工地）
+ * 车型不能运输的工地移到同仓库的兼容车辆
  */
-function clusterSites(sites: Site[], k: number): Site[][] {
-  if (sites.length === 0) return [];
-  if (sites.length <= k) {
-    return sites.map(s => [s]);
-  }
-  
-  const clusters: Site[][] = Array(k).fill(null).map(() => []);
-  
-  // 初始化聚类中心
-  const centers: Location[] = [];
-  const sorted = [...sites].sort((a, b) => a.location.lat - b.location.lat);
-  
-  for (let i = 0; i < k; i++) {
-    const index = Math.floor((i / k) * sites.length);
-    centers.push(sorted[index].location);
-  }
+function clusterSitesByVehicle(
+  sites: Site[],
+  fleet: Vehicle[],
+  depotMode: DepotAssignmentMode,
+  clustering: ClusteringOptions,
+  getCategories: (site: Site) => EquipmentCategory[],
+  matrix: TravelMatrix
+): { depot: Depot; vehicle: Vehicle; sites: Site[] }[] {
+  const result: { depot: Depot; vehicle: Vehicle; sites: Site[] }[] = [];
+  const { groups } = assignSitesToFleet(sites, fleet, depotMode, getCategories);
   
-  // 分配站点到最近的聚类
-  sites.forEach(site => {
-    let minDist = Infinity;
-    let clusterIndex = 0;
-    
-    centers.forEach((center, index) => {
-      const dist = calculateDistance(center, site.location);
-      if (dist < minDist) {
-        minDist = dist;
-        clusterIndex = index;
-      }
+  groups.forEach(({ depot, vehicles, sites: groupSites }) => {
+    const { clusters, iterations, converged } = clusterLocations(groupSites, vehicles.length, {
+      ...clustering,
+      getWeight: site => estimateWorkload(depot.location, site.location, getServiceMinutes(getSiteDemand(site)), matrix),
     });
-    
-    clusters[clusterIndex].push(site);
+    fitClustersToVehicles(clusters, vehicles, getCategories).forEach((cluster, index) => {
+      result.push({ depot, vehicle: vehicles[index], sites: cluster });
+    });
+    console.log(`🏭 ${depot.name}: ${groupSites.length} sites, ${vehicles.length} vehicle(s), ${clustering.method} ${converged ? 'converged' : 'stopped'} after ${iterations} iteration(s)`);
   });
   
-  return clusters.filter(c => c.length > 0);
+  return result;
 }
 
 /**
- * 生成一条路线（贪心最近邻 + 随机扰动）
+ * 生成一条访问顺序（贪心最近邻 + 随机扰动）
  */
-function generateRoute(depot: Location, sites: Site[], randomFactor: number = 0): Location[] {
-  if (sites.length === 0) return [depot, depot];
-  
-  const route: Location[] = [depot];
+function generateRoute(
+  depot: Location,
+  sites: Site[],
+  randomFactor: number,
+  random: RandomSource,
+  matrix: TravelMatrix
+): Site[] {
+  const order: Site[] = [];
   const remaining = [...sites];
   let current = depot;
   
   while (remaining.length > 0) {
     let selectedIndex = 0;
     
-    if (Math.random() < randomFactor) {
+    if (random() < randomFactor) {
       // 随机选择（增加多样性）
-      selectedIndex = Math.floor(Math.random() * remaining.length);
+      selectedIndex = Math.floor(random() * remaining.length);
     } else {
       // 选择最近的
       let minDist = Infinity;
       remaining.forEach((site, index) => {
-        const dist = calculateDistance(current, site.location);
+        const dist = matrix.distance(current, site.location);
         if (dist < minDist) {
           minDist = dist;
           selectedIndex = index;
@@ -183,40 +245,44 @@ function generateRoute(depot: Location, sites: Site[], randomFactor: number = 0)
     }
     
     current = remaining[selectedIndex].location;
-    route.push(current);
+    order.push(remaining[selectedIndex]);
     remaining.splice(selectedIndex, 1);
   }
   
-  route.push(depot); // 返回仓库
-  return route;
+  return order;
 }
 
 /**
- * 2-opt局部优化
+ * 2-opt局部优化（起终点固定为仓库）
+ * tourCost 为访问顺序的成本（距离 + 时间窗惩罚）
  */
-function improve2Opt(route: Location[], maxIterations: number = 50): Location[] {
-  if (route.length <= 3) return route;
+function improve2Opt(
+  order: Site[],
+  maxIterations: number,
+  tourCost: (order: Site[]) => number
+): Site[] {
+  if (order.length <= 1) return order;
   
-  let bestRoute = [...route];
+  let bestOrder = [...order];
   let improved = true;
   let iterations = 0;
   
   while (improved && iterations < maxIterations) {
     improved = false;
     iterations++;
-    const bestDist = calculateRouteDistance(bestRoute);
+    const bestDist = tourCost(bestOrder);
     
-    for (let i = 1; i < bestRoute.length - 2; i++) {
-      for (let j = i + 1; j < bestRoute.length - 1; j++) {
-        const newRoute = [
-          ...bestRoute.slice(0, i),
-          ...bestRoute.slice(i, j + 1).reverse(),
-          ...bestRoute.slice(j + 1)
+    for (let i = 0; i < bestOrder.length - 1; i++) {
+      for (let j = i + 1; j < bestOrder.length; j++) {
+        const newOrder = [
+          ...bestOrder.slice(0, i),
+          ...bestOrder.slice(i, j + 1).reverse(),
+          ...bestOrder.slice(j + 1)
         ];
         
-        const newDist = calculateRouteDistance(newRoute);
+        const newDist = tourCost(newOrder);
         if (newDist < bestDist - 0.01) {
-          bestRoute = newRoute;
+          bestOrder = newOrder;
           improved = true;
           break;
         }
@@ -225,115 +291,351 @@ function improve2Opt(route: Location[], maxIterations: number = 50): Location[]
     }
   }
   
-  // 确保起终点是仓库
-  if (bestRoute.length > 0) {
-    bestRoute[bestRoute.length - 1] = bestRoute[0];
-  }
+  return bestOrder;
+}
+
+/**
+ * 方案比较：先看违反时间窗/班次的路线数，再看带惩罚的总成本
+ */
+function isBetterSolution(candidate: RouteCandidate[], incumbent: RouteCandidate[]): boolean {
+  const violationsOf = (solution: RouteCandidate[]) => 
+    solution.reduce((sum, r) => sum + r.violations.length, 0);
+  const costOf = (solution: RouteCandidate[]) => 
+    solution.reduce((sum, r) => sum + r.cost, 0);
   
-  return bestRoute;
+  const candidateViolations = violationsOf(candidate);
+  const incumbentViolations = violationsOf(incumbent);
+  if (candidateViolations !== incumbentViolations) {
+    return candidateViolations < incumbentViolations;
+  }
+  return costOf(candidate) < costOf(incumbent);
 }
 
 /**
- * 渐进式优化 - 带实时进度回调
+ * 优化一个工作日的路线（NSGA-II + 跨路线模拟退火，逐代回调进度）
  */
-export async function optimizeWithProgress(
-  sites: Site[],
-  depot: Location,
-  numVehicles: number,
+async function optimizeDay(
+  daySites: Site[],
+  day: number,
+  fleet: Vehicle[],
+  siteCategories: Map<string, EquipmentCategory[]>,
+  settings: {
+    depotMode: DepotAssignmentMode;
+    clustering: ClusteringOptions;
+    shift: VehicleShift;
+    control?: OptimizerControl;
+    random: RandomSource;
+    matrix: TravelMatrix;
+  },
   progressCallback: ProgressCallback
-): Promise<RouteCandidate[]> {
-  
-  console.log(`🚀 Starting progressive optimization with ${sites.length} sites`);
+): Promise<DayPlan> {
+  const { depotMode, clustering, shift, control, random, matrix } = settings;
+  const label = getDayLabel(day);
   
-  // 1. 过滤出有任务的工地（严格检查）
-  const consolidatedSites = consolidateSiteTasks(sites);
-  console.log(`📊 Found ${consolidatedSites.length} sites with pending tasks`);
+  // 1. 聚类分组（先按仓库分组，再按各仓库的可用车辆聚类，工地只分给能运输其设备的车型）
+  const clusters = clusterSitesByVehicle(daySites, fleet, depotMode, clustering, site => siteCategories.get(site.id)!, matrix);
+  const routedSites = clusters.flatMap(cluster => cluster.sites);
+  console.log(`🗂️ ${label}: clustered ${routedSites.length} sites across ${clusters.length} vehicles`);
+  const vehicleClusters: VehicleCluster[] = clusters
+    .filter(cluster => cluster.sites.length > 0)
+    .map(({ depot, vehicle, sites: clusterSites }) => ({
+      vehicleId: vehicle.id,
+      depotId: depot.id,
+      centre: {
+        lat: clusterSites.reduce((sum, site) => sum + site.location.lat, 0) / clusterSites.length,
+        lng: clusterSites.reduce((sum, site) => sum + site.location.lng, 0) / clusterSites.length,
+      },
+      siteIds: clusterSites.map(site => site.id),
+    }));
+  if (routedSites.length === 0) return { day, label, best: [], paretoFront: [], deferredSiteIds: [], clusters: vehicleClusters };
   
-  // 2. 优先级筛选 - 选择本周要访问的工地（架构中的任务优先级引擎）
-  const prioritySites = selectWeeklyPriorityTasks(consolidatedSites, WEEKLY_PRIORITY_CAPACITY);
-  console.log(`🎯 Task Prioritization Engine selected ${prioritySites.length} high-priority sites for this week`);
+  // 每个工地的装载需求、时间窗和服务时长只计算一次
+  const capacityStops = new Map<string, CapacityStop>();
+  const timeWindows = new Map<string, TimeWindow>();
+  const serviceMinutes = new Map<string, number>();
+  routedSites.forEach(site => {
+    const demand = getSiteDemand(site);
+    capacityStops.set(site.id, { siteId: site.id, location: site.location, demand });
+    timeWindows.set(site.id, getSiteTimeWindow(site));
+    serviceMinutes.set(site.id, getServiceMinutes(demand));
+  });
   
-  // 3. 聚类分组（对筛选后的优先工地进行聚类）
-  const clusters = clusterSites(prioritySites, numVehicles);
-  console.log(`🗂️ Clustered ${prioritySites.length} priority sites into ${clusters.length} groups`);
+  // 2-opt使用的成本：距离 + 时间窗惩罚估算
+  const tourCost = (depot: Location) => (order: Site[]) =>
+    calculateTourDistance(depot, order, matrix) + estimateTourPenalty(
+      depot,
+      order.map(site => ({
+        location: site.location,
+        window: timeWindows.get(site.id)!,
+        serviceMinutes: serviceMinutes.get(site.id)!
+      })),
+      shift,
+      matrix
+    );
   
-  let bestSolution: RouteCandidate[] = [];
-  let bestTotalDistance = Infinity;
+  // 2. NSGA-II 基因编码：每个聚类对应一辆车，工地只能在同仓库的兼容车辆间移动
+  const siteIndex = new Map(routedSites.map((site, index) => [site.id, index]));
+  const context: GenomeContext = {
+    locations: routedSites.map(site => site.location),
+    itemDepots: clusters.flatMap(({ depot, sites: clusterSites }) => clusterSites.map(() => depot.id)),
+    itemCategories: routedSites.map(site => siteCategories.get(site.id)!),
+    vehicles: clusters.map(({ depot, vehicle }) => ({ depotId: depot.id, location: depot.location, typeId: vehicle.typeId })),
+    matrix,
+  };
   
-  // 3. 进化迭代（增强版：种群进化）
-  const generations = 10; // 增加到15代
-  const populationSize = 8; // 每代生成5个候选解（平衡性能和效果）
+  const toSites = (route: number[]) => route.map(index => routedSites[index]);
+  const toIndices = (order: Site[]) => order.map(site => siteIndex.get(site.id)!);
   
-  for (let gen = 0; gen < generations; gen++) {
-    const randomFactor = gen < 4 ? 0.4 : gen < 8 ? 0.2 : 0.05; // 逐步降低随机性
+  // 把一辆车的访问顺序解码为完整路线（容量拆分 + ETA）
+  const buildCandidate = (vehicleIndex: number, order: Site[], generation: number): RouteCandidate => {
+    const { depot, vehicle } = clusters[vehicleIndex];
+    
+    // 按容量拆分趟次（装不下时中途回仓库）
+    const planned = planCapacitatedTrips(
+      depot.location,
+      order.map(site => capacityStops.get(site.id)!),
+      vehicle.capacity
+    );
+    const distance = calculateRouteDistance(planned.route, matrix);
     
-    // 每代生成多个候选解（种群）
-    const population: RouteCandidate[][] = [];
+    // 推算ETA并检查时间窗
+    const schedule = scheduleRoute(depot.location, planned.stops, timeWindows, shift, matrix);
     
-    for (let individual = 0; individual < populationSize; individual++) {
-      // 为每个聚类生成路线
-      const routes: RouteCandidate[] = [];
+    return {
+      vehicleId: vehicle.id,
+      vehicleName: vehicle.name,
+      depotId: depot.id,
+      route: planned.route,
+      stops: schedule.stops,
+      trips: planned.trips,
+      peakUtilisation: planned.peakUtilisation,
+      startTime: schedule.start,
+      endTime: schedule.end,
+      lateMinutes: schedule.lateMinutes,
+      overtimeMinutes: schedule.overtimeMinutes,
+      violations: schedule.violations,
+      distance,
+      cost: distance + timeWindowPenalty(schedule),
+      costPerKm: vehicle.costPerKm,
+      generation
+    };
+  };
+  
+  // 解码结果缓存（同一个基因只解码一次）
+  const decoded = new WeakMap<RouteGenome, RouteCandidate[]>();
+  let currentGeneration = 0;
+  const decode = (genome: RouteGenome): RouteCandidate[] => {
+    let routes = decoded.get(genome);
+    if (!routes) {
+      routes = genome
+        .map((route, vehicleIndex) => ({ route, vehicleIndex }))
+        .filter(({ route }) => route.length > 0)
+        .map(({ route, vehicleIndex }) => buildCandidate(vehicleIndex, toSites(route), currentGeneration));
+      decoded.set(genome, routes);
+    }
+    return routes;
+  };
+  
+  // 3. 初始种群：贪心最近邻 + 逐步增大的随机扰动，前一半用2-opt改进
+  const generations = 15;
+  const populationSize = 16;
+  const initialPopulation: RouteGenome[] = Array.from({ length: populationSize }, (_, individual) => {
+    const randomFactor = 0.5 * individual / (populationSize - 1);
+    return clusters.map(({ depot, sites: clusterSites }) => {
+      let order = generateRoute(depot.location, clusterSites, randomFactor, random, matrix);
+      if (individual < populationSize / 2) {
+        order = improve2Opt(order, 30, tourCost(depot.location));
+      }
+      return toIndices(order);
+    });
+  });
+  
+  // 跨路线模拟退火的成本：单车运营成本（含时间窗惩罚）
+  const routeCost = (vehicleIndex: number, route: number[]) =>
+    evaluateRouteObjectives([buildCandidate(vehicleIndex, toSites(route), currentGeneration)], matrix).costAud;
+  
+  // 第一个个体先做跨路线模拟退火，纠正聚类分错车辆的工地
+  const seeded = annealRoutes(initialPopulation[0], context, routeCost, { random });
+  initialPopulation[0] = seeded.genome;
+  console.log(`🔥 ${label}: annealed seed $${seeded.initialCost.toFixed(0)} → $${seeded.cost.toFixed(0)}`, seeded.improvements);
+  
+  // 变异后以一定概率对一条路线做2-opt（Memetic：进化 + 局部搜索）
+  const mutate = (genome: RouteGenome, random: () => number): RouteGenome => {
+    const child = mutateRoutes(genome, context, random);
+    if (random() < 0.25) {
+      const vehicleIndex = Math.floor(random() * child.length);
+      const depot = clusters[vehicleIndex].depot.location;
+      child[vehicleIndex] = toIndices(improve2Opt(toSites(child[vehicleIndex]), 20, tourCost(depot)));
+    }
+    return child;
+  };
+  
+  let bestSolution: RouteCandidate[] = [];
+  let bestTotalDistance = Infinity;
+  
+  // 4. NSGA-II 进化：非支配排序 + 拥挤距离，同时优化成本、排放和工作量均衡
+  const finalFront = await runNsga2<RouteGenome>({
+    initialPopulation,
+    evaluate: genome => objectivesToVector(evaluateRouteObjectives(decode(genome), matrix)),
+    crossover: (a, b, random) => crossoverRoutes(a, b, context, random),
+    mutate,
+    generations,
+    random,
+    onGeneration: async (gen, population) => {
+      currentGeneration = gen + 1;
+      const front = population.filter(individual => individual.rank === 0).map(individual => decode(individual.genome));
       
-      for (let clusterIndex = 0; clusterIndex < clusters.length; clusterIndex++) {
-        const clusterSites = clusters[clusterIndex];
-        if (clusterSites.length === 0) continue;
-        
-        // 生成路线（每个个体用不同的随机因子）
-        const individualRandomFactor = randomFactor * (1 + individual * 0.3);
-        let route = generateRoute(depot, clusterSites, individualRandomFactor);
-        
-        // 应用2-opt改进（后期更激进）
-        if (gen > 3) {
-          const iterations = gen > 8 ? 50 : 30; // 后期增强优化
-          route = improve2Opt(route, iterations);
-        }
-        
-        const distance = calculateRouteDistance(route);
-        
-        routes.push({
-          vehicleId: `Truck-${String.fromCharCode(65 + clusterIndex)}`,
-          route,
-          distance,
-          generation: gen
-        });
+      // 前沿中优先满足时间窗、成本最低的方案
+      const bestInGeneration = front.reduce((best, current) => 
+        isBetterSolution(current, best) ? current : best
+      );
+      const generationBestDistance = bestInGeneration.reduce((sum, r) => sum + r.distance, 0);
+      
+      // 更新全局最优
+      const isBest = bestSolution.length === 0 || isBetterSolution(bestInGeneration, bestSolution);
+      if (isBest) {
+        bestSolution = bestInGeneration;
+        bestTotalDistance = generationBestDistance;
       }
       
-      population.push(routes);
+      // 实时回调进度（显示当代最优）
+      progressCallback({
+        day,
+        dayLabel: label,
+        generation: gen + 1,
+        routes: bestInGeneration,
+        totalDistance: generationBestDistance,
+        isBest,
+        paretoFrontSize: front.length
+      });
+      
+      console.log(`${label} generation ${gen + 1}/${generations}: Best=${generationBestDistance.toFixed(1)}km, Pareto front=${front.length} ${isBest ? '✨ NEW BEST' : ''}`);
+      
+      // 响应暂停/取消
+      await control?.checkpoint();
     }
-    
-    // 从种群中选择最优个体
-    const bestInGeneration = population.reduce((best, current) => {
-      const bestDist = best.reduce((sum, r) => sum + r.distance, 0);
-      const currentDist = current.reduce((sum, r) => sum + r.distance, 0);
-      return currentDist < bestDist ? current : best;
+  });
+  
+  // 前沿上的每个方案在班次结束处截断（进化中超时只是惩罚），截下的工地推迟
+  const toParetoSolution = (genome: RouteGenome): ParetoSolution => {
+    const vehicleIndices = genome.flatMap((route, vehicleIndex) => route.length > 0 ? [vehicleIndex] : []);
+    const deferred: Site[] = [];
+    const routes = decode(genome).flatMap((candidate, index) => {
+      const vehicleIndex = vehicleIndices[index];
+      const fitted = fitRouteToShift(candidate, toSites(genome[vehicleIndex]), shift,
+        order => buildCandidate(vehicleIndex, order, candidate.generation));
+      deferred.push(...fitted.overflow);
+      return fitted.route ? [fitted.route] : [];
     });
-    
-    const generationBestDistance = bestInGeneration.reduce((sum, r) => sum + r.distance, 0);
-    
-    // 更新全局最优
-    const isBest = generationBestDistance < bestTotalDistance;
-    if (isBest) {
-      bestSolution = bestInGeneration;
-      bestTotalDistance = generationBestDistance;
+    return {
+      routes,
+      objectives: evaluateRouteObjectives(routes, matrix),
+      totalDistance: routes.reduce((sum, r) => sum + r.distance, 0),
+      deferredSiteIds: deferred.map(site => site.id)
+    };
+  };
+  let paretoFront = finalFront.map(individual => toParetoSolution(individual.genome));
+  
+  // 推荐方案：截下的工地最少，其次时间窗违规最少、成本最低（精英保留保证全局最优不会丢失）
+  const isBetterPlan = (candidate: ParetoSolution, incumbent: ParetoSolution) =>
+    candidate.deferredSiteIds.length !== incumbent.deferredSiteIds.length
+      ? candidate.deferredSiteIds.length < incumbent.deferredSiteIds.length
+      : isBetterSolution(candidate.routes, incumbent.routes);
+  const bestIndex = paretoFront.reduce(
+    (current, solution, index) => isBetterPlan(solution, paretoFront[current]) ? index : current,
+    0
+  );
+  let best: ParetoSolution | undefined = paretoFront[bestIndex];
+  
+  // 5. 对推荐方案再做一次跨路线模拟退火：不被前沿支配时并入前沿，更好时成为推荐方案
+  if (finalFront[bestIndex]) {
+    const polished = annealRoutes(finalFront[bestIndex].genome, context, routeCost, { random });
+    const candidate = toParetoSolution(polished.genome);
+    const merged = insertNonDominated(paretoFront, candidate, solution => objectivesToVector(solution.objectives));
+    if (merged.includes(candidate)) {
+      paretoFront = merged.sort((a, b) => a.objectives.costAud - b.objectives.costAud);
+      if (!best || isBetterPlan(candidate, best)) best = candidate;
+      console.log(`🔥 ${label}: annealed plan $${polished.initialCost.toFixed(0)} → $${polished.cost.toFixed(0)}`, polished.improvements);
     }
-    
-    // 实时回调进度（显示当代最优）
-    progressCallback({
-      generation: gen + 1,
-      routes: bestInGeneration,
-      totalDistance: generationBestDistance,
-      isBest
-    });
-    
-    // 延迟以便UI渲染
-    await new Promise(resolve => setTimeout(resolve, 500)); // 500ms延迟（15代总时长7.5秒）
-    
-    console.log(`Generation ${gen + 1}/${generations}: Best=${generationBestDistance.toFixed(1)}km ${isBest ? '✨ NEW BEST' : ''}`);
   }
   
-  console.log(`🏆 Optimization complete. Best solution: ${bestTotalDistance.toFixed(1)}km`);
+  const bestRoutes = best?.routes ?? bestSolution;
+  const deferredSiteIds = best?.deferredSiteIds ?? [];
+  console.log(`🏆 ${label} complete. Best solution: ${bestRoutes.reduce((sum, r) => sum + r.distance, 0).toFixed(1)}km (best seen ${bestTotalDistance.toFixed(1)}km), ${paretoFront.length} Pareto-optimal trade-offs`);
+  if (deferredSiteIds.length > 0) {
+    console.log(`⏭️ ${label}: ${deferredSiteIds.length} site(s) cut at the ${formatClock(shift.end)} shift end and deferred`);
+  }
+  
+  return { day, label, best: bestRoutes, paretoFront, deferredSiteIds, clusters: vehicleClusters };
+}
+
+/**
+ * 渐进式优化 - 带实时进度回调
+ */
+export async function optimizeWithProgress(
+  sites: Site[],
+  fleet: Vehicle[],
+  progressCallback: ProgressCallback,
+  options: ProgressiveOptions = {}
+): Promise<ProgressiveResult> {
+  const {
+    depotMode = 'owning',
+    shift = DEFAULT_SHIFT,
+    control,
+    seed = randomSeed(),
+    workingDays = WORKING_DAYS.length,
+    priority = DEFAULT_PRIORITY_CONFIG,
+    backlog = {},
+    clustering = DEFAULT_CLUSTERING,
+    travelMatrix,
+    reservedVisits = 0,
+  } = options;
+  const random = createRandom(seed);
+  const matrix = createTravelMatrix(travelMatrix);
+  
+  console.log(`🚀 Starting progressive optimization with ${sites.length} sites (seed ${seed})`);
   
-  return bestSolution;
+  // 1. 过滤出有任务的工地（严格检查）
+  const consolidatedSites = consolidateSiteTasks(sites);
+  console.log(`📊 Found ${consolidatedSites.length} sites with pending tasks`);
+  
+  // 2. 优先级筛选 - 选择本周要访问的工地（架构中的任务优先级引擎）
+  const prioritySites = selectWeeklyPriorityTasks(consolidatedSites, priority, backlog, reservedVisits);
+  const selectedIds = new Set(prioritySites.map(site => site.id));
+  console.log(`🎯 Task Prioritization Engine selected ${prioritySites.length} high-priority sites for this week`);
+  
+  // 3. 周计划：按各仓库每天的车辆工时把工地分到工作日，放不下的推迟到下周（先为预测的新访问预留工时）
+  const siteCategories = new Map<string, EquipmentCategory[]>(
+    prioritySites.map(site => [site.id, getRequiredCategories(site.equipment)])
+  );
+  const week = planWeek(prioritySites, fleet, shift, {
+    depotMode,
+    workingDays,
+    getCategories: site => siteCategories.get(site.id)!,
+    getServiceMinutes: site => getServiceMinutes(getSiteDemand(site)),
+    matrix,
+    reservedVisits,
+  });
+  console.log(`📅 Weekly plan: ${week.days.map((daySites, day) => `${getDayLabel(day)} ${daySites.length}`).join(', ')}; ${week.deferred.length} deferred, ${week.unserved.length} unserved`);
+  if (week.unserved.length > 0) {
+    console.warn(`⚠️ ${week.unserved.length} site(s) need a vehicle type not available in the fleet`);
+  }
+  
+  // 4. 逐日优化（同一随机源依次使用，相同种子结果可复现）
+  const days: DayPlan[] = [];
+  for (let day = 0; day < week.days.length; day++) {
+    days.push(await optimizeDay(
+      week.days[day], day, fleet, siteCategories, { depotMode, clustering, shift, control, random, matrix }, progressCallback
+    ));
+  }
+  
+  return {
+    days,
+    seed,
+    unselectedSiteIds: consolidatedSites.filter(site => !selectedIds.has(site.id)).map(site => site.id),
+    deferredSiteIds: [...week.deferred.map(site => site.id), ...days.flatMap(plan => plan.deferredSiteIds)],
+    unservedSiteIds: week.unserved.map(site => site.id),
+  };
 }
 
 /**
@@ -0,0 +1,40 @@
+/**
+ * 可设种子的伪随机数 - 相同数据 + 相同种子 → 相同的优化方案
+ * 路线优化器（初始路线、进化、模拟退火）都使用这里的随机源，不直接调用 Math.random()
+ */
+
+// 返回 [0, 1) 的随机数
+export type RandomSource = () => number;
+
+/**
+ * Mulberry32：32位状态，速度快，分布足够均匀
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 新的随机种子（未指定种子时使用，并记录在结果中以便复现）
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+/**
+ * Fisher-Yates 洗牌（返回新数组）
+ */
+export function shuffle<T>(items: T[], random: RandomSource): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
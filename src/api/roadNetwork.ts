@@ -0,0 +1,396 @@
+/**
+ * 离线道路网络 - 简化的墨尔本路网，无网络/无 token 时代替 Mapbox Directions 和 Matrix API
+ * 由三部分组成（模块首次使用时生成）：
+ * - 主干道网格：墨尔本主干道大致为约2km间距的南北/东西网格，去掉菲利普港湾和西港湾水面
+ * - 高速公路：按主要高速的大致走向手工描点（每2km加密），沿途每个点与最近的网格节点相连（互通）
+ * - 通往吉朗、托基、巴拉瑞特、半岛等外围地区的公路
+ * 最短路径按行驶时间计算：两点间用 A*，整行矩阵用 Dijkstra；
+ * 工地到最近路网节点的接驳段按直线 × 系数、支路车速计算
+ */
+
+import { calculateDistance } from './travelMatrix';
+
+interface Location {
+  lat: number;
+  lng: number;
+}
+
+export type RoadClass = 'arterial' | 'highway' | 'freeway';
+
+export interface RoadEdge {
+  to: number;
+  distanceKm: number;
+  durationMinutes: number;
+  roadClass: RoadClass;
+}
+
+export interface RoadNetwork {
+  nodes: Location[];
+  adjacency: RoadEdge[][];
+}
+
+export interface RoadPath {
+  coordinates: [number, number][]; // [lng, lat]，含起点和终点的接驳段
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+// 坐标为 [lng, lat]
+type Polyline = [number, number][];
+
+const SPEED_KMH: Record<RoadClass, number> = { arterial: 45, highway: 70, freeway: 90 };
+const LOCAL_SPEED_KMH = 30;      // 接驳段（支路）
+const LOCAL_ROAD_FACTOR = 1.3;   // 接驳段直线距离 → 道路距离
+const ARTERIAL_WIGGLE = 1.1;     // 网格道路并非笔直
+const MAX_SPEED_KMH = 100;       // A* 启发函数使用（不高估剩余时间）
+const DENSIFY_KM = 2;
+const INTERCHANGE_RADIUS_KM = 1.5;
+
+// 主干道网格范围和间距（约2km）
+const GRID = { south: -38.3, north: -37.55, west: 144.55, east: 145.45, latStep: 0.018, lngStep: 0.0225 };
+
+// 水面（网格节点和路段不能落在其中）
+const WATER: Polyline[] = [
+  // 菲利普港湾（含科里奥湾）
+  [
+    [144.905, -37.868], [144.925, -37.842], [144.972, -37.865], [144.985, -37.915], [145.005, -37.955],
+    [145.06, -37.985], [145.12, -38.075], [145.12, -38.14], [145.04, -38.22], [145.02, -38.27],
+    [144.96, -38.33], [144.9, -38.36], [144.74, -38.335], [144.66, -38.3], [144.665, -38.265],
+    [144.72, -38.18], [144.71, -38.14], [144.65, -38.11], [144.56, -38.15], [144.36, -38.14],
+    [144.4, -38.09], [144.5, -38.04], [144.69, -37.98], [144.83, -37.875],
+  ],
+  // 西港湾北岸
+  [
+    [145.15, -38.3], [145.22, -38.26], [145.3, -38.24], [145.38, -38.215], [145.45, -38.22],
+    [145.45, -38.35], [145.15, -38.35],
+  ],
+];
+
+// 高速公路和外围公路的大致走向
+const ROADS: { name: string; roadClass: RoadClass; path: Polyline }[] = [
+  { name: 'West Gate / Monash Freeway', roadClass: 'freeway', path: [
+    [144.77, -37.845], [144.83, -37.835], [144.87, -37.828], [144.9, -37.829], [144.93, -37.831],
+    [144.955, -37.832], [144.985, -37.838], [145.01, -37.84], [145.04, -37.855], [145.09, -37.875],
+    [145.13, -37.89], [145.165, -37.905], [145.215, -37.925], [145.26, -37.985], [145.32, -38.025], [145.4, -38.05],
+  ] },
+  { name: 'Princes Freeway', roadClass: 'freeway', path: [
+    [144.77, -37.845], [144.7, -37.88], [144.64, -37.92], [144.55, -37.98], [144.45, -38.02],
+    [144.38, -38.07], [144.36, -38.11], [144.35, -38.15],
+  ] },
+  { name: 'Surf Coast Highway', roadClass: 'highway', path: [
+    [144.35, -38.15], [144.34, -38.22], [144.32, -38.3], [144.317, -38.33],
+  ] },
+  { name: 'Bellarine Highway', roadClass: 'highway', path: [
+    [144.35, -38.15], [144.45, -38.18], [144.55, -38.19], [144.62, -38.22], [144.655, -38.26],
+  ] },
+  { name: 'Western Freeway', roadClass: 'freeway', path: [
+    [144.8, -37.78], [144.72, -37.72], [144.62, -37.68], [144.55, -37.68], [144.44, -37.66],
+    [144.3, -37.64], [144.15, -37.6], [144.0, -37.57], [143.9, -37.56], [143.85, -37.56],
+  ] },
+  { name: 'Tullamarine Freeway / CityLink', roadClass: 'freeway', path: [
+    [144.85, -37.675], [144.88, -37.7], [144.9, -37.73], [144.92, -37.765], [144.935, -37.79],
+    [144.945, -37.805], [144.955, -37.832],
+  ] },
+  { name: 'Eastern Freeway', roadClass: 'freeway', path: [
+    [144.99, -37.795], [145.02, -37.79], [145.06, -37.79], [145.1, -37.79], [145.16, -37.81], [145.21, -37.815],
+  ] },
+  { name: 'EastLink', roadClass: 'freeway', path: [
+    [145.21, -37.815], [145.23, -37.86], [145.215, -37.925], [145.2, -37.99], [145.18, -38.05], [145.16, -38.12],
+  ] },
+  { name: 'Peninsula Link', roadClass: 'freeway', path: [
+    [145.16, -38.12], [145.13, -38.18], [145.08, -38.23], [145.05, -38.27],
+  ] },
+  { name: 'Western Ring Road', roadClass: 'freeway', path: [
+    [144.78, -37.835], [144.8, -37.78], [144.82, -37.74], [144.87, -37.7], [144.92, -37.685],
+    [144.97, -37.68], [145.04, -37.69], [145.1, -37.7],
+  ] },
+  { name: 'Hume Freeway', roadClass: 'freeway', path: [
+    [144.97, -37.68], [144.96, -37.62], [144.95, -37.55],
+  ] },
+  { name: 'Calder Freeway', roadClass: 'freeway', path: [
+    [144.9, -37.745], [144.85, -37.72], [144.8, -37.7], [144.74, -37.66],
+  ] },
+  { name: 'Maroondah Highway', roadClass: 'highway', path: [
+    [145.21, -37.815], [145.27, -37.79], [145.345, -37.76],
+  ] },
+];
+
+// 射线法判断点是否在多边形内
+function insidePolygon(location: Location, polygon: Polyline): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > location.lat) !== (yj > location.lat) &&
+      location.lng < (xj - xi) * (location.lat - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+const onWater = (location: Location) => WATER.some(polygon => insidePolygon(location, polygon));
+
+/**
+ * 生成路网：网格节点 + 加密后的公路节点
+ */
+function buildRoadNetwork(): RoadNetwork {
+  const nodes: Location[] = [];
+  const adjacency: RoadEdge[][] = [];
+  const addNode = (location: Location) => {
+    nodes.push(location);
+    adjacency.push([]);
+    return nodes.length - 1;
+  };
+  const connect = (a: number, b: number, roadClass: RoadClass, factor = 1) => {
+    const distanceKm = calculateDistance(nodes[a], nodes[b]) * factor;
+    const durationMinutes = distanceKm / SPEED_KMH[roadClass] * 60;
+    adjacency[a].push({ to: b, distanceKm, durationMinutes, roadClass });
+    adjacency[b].push({ to: a, distanceKm, durationMinutes, roadClass });
+  };
+
+  // 主干道网格（路段中点落在水面上时不连，避免跨湾）
+  const rows = Math.round((GRID.north - GRID.south) / GRID.latStep);
+  const cols = Math.round((GRID.east - GRID.west) / GRID.lngStep);
+  const grid: (number | null)[][] = [];
+  for (let r = 0; r <= rows; r++) {
+    grid.push([]);
+    for (let c = 0; c <= cols; c++) {
+      const location = { lat: GRID.south + r * GRID.latStep, lng: GRID.west + c * GRID.lngStep };
+      grid[r].push(onWater(location) ? null : addNode(location));
+    }
+  }
+  const gridNodes = nodes.length;
+  const linkGrid = (a: number | null, b: number | null) => {
+    if (a === null || b === null) return;
+    const midpoint = { lat: (nodes[a].lat + nodes[b].lat) / 2, lng: (nodes[a].lng + nodes[b].lng) / 2 };
+    if (!onWater(midpoint)) connect(a, b, 'arterial', ARTERIAL_WIGGLE);
+  };
+  for (let r = 0; r <= rows; r++) {
+    for (let c = 0; c <= cols; c++) {
+      if (c < cols) linkGrid(grid[r][c], grid[r][c + 1]);
+      if (r < rows) linkGrid(grid[r][c], grid[r + 1][c]);
+    }
+  }
+
+  const nearestGridNode = (location: Location) => {
+    let best = -1;
+    let bestDistance = Infinity;
+    for (let i = 0; i < gridNodes; i++) {
+      const distance = calculateDistance(location, nodes[i]);
+      if (distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    }
+    return { node: best, distance: bestDistance };
+  };
+
+  // 公路：同一坐标的端点共用节点（公路之间相连），沿途节点与附近网格节点相连
+  const shared = new Map<string, number>();
+  ROADS.forEach(({ roadClass, path }) => {
+    let previous: number | null = null;
+    path.forEach(([lng, lat], index) => {
+      const points: Location[] = [];
+      if (index > 0) {
+        const [prevLng, prevLat] = path[index - 1];
+        const steps = Math.ceil(calculateDistance({ lat: prevLat, lng: prevLng }, { lat, lng }) / DENSIFY_KM);
+        for (let s = 1; s < steps; s++) {
+          points.push({ lat: prevLat + (lat - prevLat) * s / steps, lng: prevLng + (lng - prevLng) * s / steps });
+        }
+      }
+      points.push({ lat, lng });
+
+      points.forEach((location, i) => {
+        const isVertex = i === points.length - 1;
+        const key = `${location.lng},${location.lat}`;
+        let node = isVertex ? shared.get(key) : undefined;
+        if (node === undefined) {
+          node = addNode(location);
+          if (isVertex) shared.set(key, node);
+          const interchange = nearestGridNode(location);
+          if (interchange.node !== -1 && interchange.distance <= INTERCHANGE_RADIUS_KM) {
+            connect(node, interchange.node, 'arterial', ARTERIAL_WIGGLE);
+          }
+        }
+        if (previous !== null) connect(previous, node, roadClass);
+        previous = node;
+      });
+    });
+  });
+
+  return { nodes, adjacency };
+}
+
+let network: RoadNetwork | null = null;
+
+export function getRoadNetwork(): RoadNetwork {
+  if (!network) network = buildRoadNetwork();
+  return network;
+}
+
+/**
+ * 路网的全部路段（用于离线底图绘制，每条无向路段只出现一次）
+ */
+export function getRoadSegments(): { from: Location; to: Location; roadClass: RoadClass }[] {
+  const { nodes, adjacency } = getRoadNetwork();
+  return adjacency.flatMap((edges, from) => edges
+    .filter(edge => edge.to > from)
+    .map(edge => ({ from: nodes[from], to: nodes[edge.to], roadClass: edge.roadClass })));
+}
+
+export function getWaterPolygons(): Polyline[] {
+  return WATER;
+}
+
+// 最近节点（按坐标缓存）
+const nearestCache = new Map<string, number>();
+
+function nearestNode(location: Location): number {
+  const key = `${location.lat.toFixed(6)},${location.lng.toFixed(6)}`;
+  const cached = nearestCache.get(key);
+  if (cached !== undefined) return cached;
+  const { nodes } = getRoadNetwork();
+  let best = 0;
+  let bestDistance = Infinity;
+  nodes.forEach((node, i) => {
+    const distance = calculateDistance(location, node);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  nearestCache.set(key, best);
+  return best;
+}
+
+function connector(a: Location, b: Location): { distanceKm: number; durationMinutes: number } {
+  const distanceKm = calculateDistance(a, b) * LOCAL_ROAD_FACTOR;
+  return { distanceKm, durationMinutes: distanceKm / LOCAL_SPEED_KMH * 60 };
+}
+
+// 二叉堆（按 priority 取最小）
+interface HeapItem { node: number; priority: number }
+
+function heapPush(heap: HeapItem[], item: HeapItem) {
+  heap.push(item);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].priority <= heap[i].priority) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+function heapPop(heap: HeapItem[]): HeapItem | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length > 0 && last) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && heap[left].priority < heap[smallest].priority) smallest = left;
+      if (right < heap.length && heap[right].priority < heap[smallest].priority) smallest = right;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+  return top;
+}
+
+interface SearchResult {
+  duration: Float64Array;
+  distance: Float64Array;
+  previous: Int32Array;
+}
+
+/**
+ * 按行驶时间搜索最短路径：给定 target 时为 A*（到达即停止），否则为完整 Dijkstra
+ */
+function search(source: number, target?: number): SearchResult {
+  const { nodes, adjacency } = getRoadNetwork();
+  const duration = new Float64Array(nodes.length).fill(Infinity);
+  const distance = new Float64Array(nodes.length).fill(Infinity);
+  const previous = new Int32Array(nodes.length).fill(-1);
+  const settled = new Uint8Array(nodes.length);
+  const heuristic = (node: number) => target === undefined
+    ? 0
+    : calculateDistance(nodes[node], nodes[target]) / MAX_SPEED_KMH * 60;
+
+  duration[source] = 0;
+  distance[source] = 0;
+  const heap: HeapItem[] = [{ node: source, priority: heuristic(source) }];
+  for (let item = heapPop(heap); item; item = heapPop(heap)) {
+    const { node } = item;
+    if (settled[node]) continue;
+    settled[node] = 1;
+    if (node === target) break;
+    adjacency[node].forEach(edge => {
+      const next = duration[node] + edge.durationMinutes;
+      if (next < duration[edge.to]) {
+        duration[edge.to] = next;
+        distance[edge.to] = distance[node] + edge.distanceKm;
+        previous[edge.to] = node;
+        heapPush(heap, { node: edge.to, priority: next + heuristic(edge.to) });
+      }
+    });
+  }
+  return { duration, distance, previous };
+}
+
+/**
+ * 两点间最快路线（A*），含两端接驳段；路网不连通时退回直线接驳
+ */
+export function findRoadPath(from: Location, to: Location): RoadPath {
+  const { nodes } = getRoadNetwork();
+  const start = nearestNode(from);
+  const end = nearestNode(to);
+  const { duration, distance, previous } = search(start, end);
+  if (!Number.isFinite(duration[end])) {
+    const direct = connector(from, to);
+    return { coordinates: [[from.lng, from.lat], [to.lng, to.lat]], ...direct };
+  }
+
+  const path: number[] = [];
+  for (let node = end; node !== -1; node = previous[node]) path.unshift(node);
+  const head = connector(from, nodes[start]);
+  const tail = connector(nodes[end], to);
+  return {
+    coordinates: [
+      [from.lng, from.lat],
+      ...path.map(node => [nodes[node].lng, nodes[node].lat] as [number, number]),
+      [to.lng, to.lat],
+    ],
+    distanceKm: head.distanceKm + distance[end] + tail.distanceKm,
+    durationMinutes: head.durationMinutes + duration[end] + tail.durationMinutes,
+  };
+}
+
+/**
+ * 从一个点到多个点的道路距离和时间（一次 Dijkstra）
+ */
+export function roadDistancesFrom(
+  from: Location,
+  targets: Location[]
+): { distanceKm: number; durationMinutes: number }[] {
+  const { nodes } = getRoadNetwork();
+  const start = nearestNode(from);
+  const { duration, distance } = search(start);
+  const head = connector(from, nodes[start]);
+
+  return targets.map(to => {
+    if (to.lat === from.lat && to.lng === from.lng) return { distanceKm: 0, durationMinutes: 0 };
+    const end = nearestNode(to);
+    if (!Number.isFinite(duration[end])) return connector(from, to);
+    const tail = connector(nodes[end], to);
+    return {
+      distanceKm: head.distanceKm + distance[end] + tail.distanceKm,
+      durationMinutes: head.durationMinutes + duration[end] + tail.durationMinutes,
+    };
+  });
+}
@@ -3,6 +3,47 @@
  * 使用遗传算法/模拟退火生成多个候选解
  */
 
+import type { Depot, DepotAssignmentMode } from './depots';
+import { classifyTransportTask, type ContractRecord } from './dataset';
+import { assignSitesToFleet, fitClustersToVehicles, type Vehicle } from './fleet';
+import { getRequiredCategories, type EquipmentCategory } from './vehicleTypes';
+import {
+  EMPTY_LOAD,
+  getEquipmentLoad,
+  planCapacitatedTrips,
+  scaleLoad,
+  type SiteDemand,
+} from './capacity';
+import {
+  DEFAULT_SHIFT,
+  fitRouteToShift,
+  formatClock,
+  getServiceMinutes,
+  getSiteTimeWindow,
+  scheduleRoute,
+  timeWindowPenalty,
+  type ScheduledStop,
+  type TimeWindow,
+  type VehicleShift,
+} from './timeWindows';
+import {
+  crossoverRoutes,
+  evaluateRouteObjectives,
+  insertNonDominated,
+  mutateRoutes,
+  objectivesToVector,
+  runNsga2,
+  type GenomeContext,
+  type RouteGenome,
+  type RouteObjectives,
+} from './nsga2';
+import { annealRoutes } from './localSearch';
+import { DEFAULT_CLUSTERING, clusterLocations, type ClusteringOptions } from './clustering';
+import { estimateWorkload, planWeek } from './weeklyPlanner';
+import { createTravelMatrix, type TravelMatrix, type TravelMatrixData } from './travelMatrix';
+import type { OptimizerControl } from './optimizerProtocol';
+import { createRandom, randomSeed, shuffle, type RandomSource } from './random';
+
 interface Location {
   lat: number;
   lng: number;
@@ -13,46 +54,63 @@ interface Task {
   location: Location;
   type: 'delivery' | 'collection' | 'swap' | 'inspection';
   priority: number;
+  depot?: { name?: string } | null; // 合同所属仓库
+  demand: SiteDemand; // 本任务需要送出/收回的装载量
+  window: TimeWindow; // 工地可进入时间
+  categories: EquipmentCategory[]; // 工地设备类别（决定可用车型）
+}
+
+interface TaskCluster {
+  depot: Depot;
+  vehicle: Vehicle;
+  tasks: Task[];
 }
 
 interface Route {
   vehicleId: string;
+  vehicleName: string;
+  depotId: string;
   tasks: Task[];
-  route: Location[];
+  route: Location[]; // 含中途回仓库装货的点
+  stops: ScheduledStop[]; // 带ETA的站点
+  trips: number;
+  peakUtilisation: number;
+  startTime: number; // 离开仓库
+  endTime: number; // 回到仓库
+  violations: string[]; // 时间窗/班次违规
   totalDistance: number;
+  cost: number; // 距离 + 时间窗惩罚
+  costPerKm: number; // 车辆每公里成本
   score: number; // 适应度分数
 }
 
-interface OptimizationResult {
+interface ParetoRouteSolution {
+  solution: Route[];
+  objectives: RouteObjectives;
+  deferredSiteIds: string[]; // 采用该方案时当天放不下的工地
+}
+
+// 进化得到的方案（尚未按班次截断）
+type EvolvedSolution = Omit<ParetoRouteSolution, 'deferredSiteIds'>;
+
+export interface RouteOptimizationResult {
   bestSolution: Route[];
-  alternativeSolutions: Route[][]; // 次优解
+  alternativeSolutions: Route[][]; // 次优解（Pareto前沿上的其他权衡）
+  paretoFront: ParetoRouteSolution[]; // 按成本排序
+  seed: number; // 本次使用的随机种子
+  unservedSiteIds: string[]; // 车队中没有能运输其设备的可用车辆
+  deferredSiteIds: string[]; // 当天班次内放不下（工时预估超出或路线截断）
   iterations: number;
   convergence: number[];
 }
 
-/**
- * 计算两点间的距离（km）
- */
-function calculateDistance(a: Location, b: Location): number {
-  const R = 6371; // 地球半径（km）
-  const dLat = (b.lat - a.lat) * Math.PI / 180;
-  const dLon = (b.lng - a.lng) * Math.PI / 180;
-  
-  const a1 = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  
-  const c = 2 * Math.atan2(Math.sqrt(a1), Math.sqrt(1 - a1));
-  return R * c;
-}
-
 /**
  * 计算路线总距离
  */
-function calculateRouteDistance(route: Location[]): number {
+function calculateRouteDistance(route: Location[], matrix: TravelMatrix): number {
   let total = 0;
   for (let i = 0; i < route.length - 1; i++) {
-    total += calculateDistance(route[i], route[i + 1]);
+    total += matrix.distance(route[i], route[i + 1]);
   }
   return total;
 }
@@ -61,28 +119,33 @@ function calculateRouteDistance(route: Location[]): number {
  * 从工地选择当天要执行的任务
  * 处理一个工地有多个历史任务的情况
  */
-export function selectDailyTasks(sites: any[]): Task[] {
+export function selectDailyTasks(sites: ContractRecord[]): Task[] {
   const tasks: Task[] = [];
   
   sites.forEach(site => {
-    if (!site.transport_tasks || site.transport_tasks.length === 0) return;
+    if (site.transport_tasks.length === 0) return;
     
     const hasManyTasks = site.transport_tasks.length > 3;
+    const siteLoad = getEquipmentLoad(site.equipment);
+    const window = getSiteTimeWindow(site);
+    const categories = getRequiredCategories(site.equipment);
     
     if (hasManyTasks) {
       // 如果工地有很多任务（历史累计），只选择当天需要的
       // 假设：有Delivery就执行一次送货，有Collection就执行一次回收
-      const hasDelivery = site.transport_tasks.some((t: any) => 
-        t.type.toLowerCase().includes('delivery'));
-      const hasCollection = site.transport_tasks.some((t: any) => 
-        t.type.toLowerCase().includes('collection'));
+      const hasDelivery = site.transport_tasks.some(t => classifyTransportTask(t.type) === 'delivery');
+      const hasCollection = site.transport_tasks.some(t => classifyTransportTask(t.type) === 'collection');
       
       if (hasDelivery) {
         tasks.push({
           siteId: site.id,
           location: site.location,
           type: 'delivery',
-          priority: 1
+          priority: 1,
+          depot: site.depot,
+          demand: { delivery: siteLoad, collection: EMPTY_LOAD },
+          window,
+          categories
         });
       }
       
@@ -91,18 +154,32 @@ export function selectDailyTasks(sites: any[]): Task[] {
           siteId: site.id,
           location: site.location,
           type: 'collection',
-          priority: 2
+          priority: 2,
+          depot: site.depot,
+          demand: { delivery: EMPTY_LOAD, collection: siteLoad },
+          window,
+          categories
         });
       }
     } else {
-      // 任务少的工地，每个任务都执行
-      site.transport_tasks.forEach((task: any) => {
-        const isDelivery = task.type.toLowerCase().includes('delivery');
+      // 任务少的工地，每个任务都执行（同方向的任务平分工地装载量）
+      const deliveryCount = site.transport_tasks.filter(t => classifyTransportTask(t.type) === 'delivery').length;
+      const collectionCount = site.transport_tasks.length - deliveryCount;
+      
+      site.transport_tasks.forEach(task => {
+        const isDelivery = classifyTransportTask(task.type) === 'delivery';
+        const share = scaleLoad(siteLoad, 1 / (isDelivery ? deliveryCount : collectionCount));
         tasks.push({
           siteId: site.id,
           location: site.location,
           type: isDelivery ? 'delivery' : 'collection',
-          priority: isDelivery ? 1 : 2
+          priority: isDelivery ? 1 : 2,
+          depot: site.depot,
+          demand: isDelivery
+            ? { delivery: share, collection: EMPTY_LOAD }
+            : { delivery: EMPTY_LOAD, collection: share },
+          window,
+          categories
         });
       });
     }
@@ -112,62 +189,45 @@ export function selectDailyTasks(sites: any[]): Task[] {
 }
 
 /**
- * K-means聚类算法 - 将工地分组
+ * 多仓库聚类：任务交给有兼容可用车辆的仓库后，在每个仓库内按车辆数聚类（每辆车一个聚类，见 clustering.ts）
+ * 车型不能运输的任务移到同仓库的兼容车辆
  */
-function clusterSites(tasks: Task[], k: number): Task[][] {
-  // 简化的K-means实现
-  const clusters: Task[][] = Array(k).fill(null).map(() => []);
-  
-  // 初始化聚类中心（选择分散的点）
-  const centers: Location[] = [];
-  const allTasks = [...tasks];
-  
-  // 选第一个中心（最北的点）
-  centers.push(allTasks.sort((a, b) => a.location.lat - b.location.lat)[0].location);
-  
-  // 选其他中心（与现有中心最远的点）
-  for (let i = 1; i < k; i++) {
-    let maxMinDist = 0;
-    let farthest = allTasks[0];
-    
-    for (const task of allTasks) {
-      const minDist = Math.min(...centers.map(c => calculateDistance(c, task.location)));
-      if (minDist > maxMinDist) {
-        maxMinDist = minDist;
-        farthest = task;
-      }
-    }
-    centers.push(farthest.location);
-  }
-  
-  // 分配任务到最近的聚类
-  tasks.forEach(task => {
-    let minDist = Infinity;
-    let clusterIndex = 0;
-    
-    centers.forEach((center, index) => {
-      const dist = calculateDistance(center, task.location);
-      if (dist < minDist) {
-        minDist = dist;
-        clusterIndex = index;
-      }
+function clusterTasksByVehicle(
+  tasks: Task[],
+  fleet: Vehicle[],
+  depotMode: DepotAssignmentMode,
+  clustering: ClusteringOptions,
+  matrix: TravelMatrix
+): { clusters: TaskCluster[]; unserved: Task[] } {
+  const result: TaskCluster[] = [];
+  const getCategories = (task: Task) => task.categories;
+  const { groups, unserved } = assignSitesToFleet(tasks, fleet, depotMode, getCategories);
+  
+  groups.forEach(({ depot, vehicles, sites: groupTasks }) => {
+    const { clusters } = clusterLocations(groupTasks, vehicles.length, {
+      ...clustering,
+      getWeight: task => estimateWorkload(depot.location, task.location, getServiceMinutes(task.demand), matrix),
+    });
+    fitClustersToVehicles(clusters, vehicles, getCategories).forEach((cluster, index) => {
+      result.push({ depot, vehicle: vehicles[index], tasks: cluster });
     });
-    
-    clusters[clusterIndex].push(task);
   });
   
-  return clusters.filter(c => c.length > 0);
+  return { clusters: result, unserved };
 }
 
 /**
- * 贪心算法 - TSP最近邻（确保返回仓库）
+ * 访问顺序的总距离（仓库 → 任务 → 仓库，不含中途装货）
  */
-function greedyTSP(depot: Location, tasks: Task[]): Location[] {
-  if (tasks.length === 0) {
-    return [depot, depot]; // 空路线也返回仓库
-  }
-  
-  const route: Location[] = [depot]; // 从仓库出发
+function calculateTourDistance(depot: Location, order: Task[], matrix: TravelMatrix): number {
+  return calculateRouteDistance([depot, ...order.map(t => t.location), depot], matrix);
+}
+
+/**
+ * 贪心算法 - TSP最近邻，返回任务访问顺序（从仓库出发）
+ */
+function greedyTSP(depot: Location, tasks: Task[], matrix: TravelMatrix): Task[] {
+  const order: Task[] = [];
   const remaining = [...tasks];
   let current = depot;
   
@@ -176,7 +236,7 @@ function greedyTSP(depot: Location, tasks: Task[]): Location[] {
     let nearestIndex = 0;
     
     remaining.forEach((task, index) => {
-      const dist = calculateDistance(current, task.location);
+      const dist = matrix.distance(current, task.location);
       if (dist < minDist) {
         minDist = dist;
         nearestIndex = index;
@@ -184,44 +244,42 @@ function greedyTSP(depot: Location, tasks: Task[]): Location[] {
     });
     
     current = remaining[nearestIndex].location;
-    route.push(current);
+    order.push(remaining[nearestIndex]);
     remaining.splice(nearestIndex, 1);
   }
   
-  route.push(depot); // 必须返回仓库
-  return route;
+  return order;
 }
 
 /**
- * 2-opt改进算法（保持起点和终点不变）
+ * 2-opt改进算法（起点和终点固定为仓库）
  */
-function twoOptImprove(route: Location[]): Location[] {
-  if (route.length <= 3) return route; // 太短无法优化
+function twoOptImprove(depot: Location, order: Task[], matrix: TravelMatrix): Task[] {
+  if (order.length <= 1) return order; // 太短无法优化
   
   let improved = true;
-  let bestRoute = [...route];
+  let bestOrder = [...order];
   let iterations = 0;
   const maxIterations = 100; // 防止无限循环
   
   while (improved && iterations < maxIterations) {
     improved = false;
     iterations++;
-    const bestDistance = calculateRouteDistance(bestRoute);
+    const bestDistance = calculateTourDistance(depot, bestOrder, matrix);
     
-    // 只优化中间部分，保持起点[0]和终点[length-1]不变
-    for (let i = 1; i < bestRoute.length - 2; i++) {
-      for (let j = i + 1; j < bestRoute.length - 1; j++) {
+    for (let i = 0; i < bestOrder.length - 1; i++) {
+      for (let j = i + 1; j < bestOrder.length; j++) {
         // 尝试反转i到j之间的路线段
-        const newRoute = [
-          ...bestRoute.slice(0, i),
-          ...bestRoute.slice(i, j + 1).reverse(),
-          ...bestRoute.slice(j + 1)
+        const newOrder = [
+          ...bestOrder.slice(0, i),
+          ...bestOrder.slice(i, j + 1).reverse(),
+          ...bestOrder.slice(j + 1)
         ];
         
-        const newDistance = calculateRouteDistance(newRoute);
+        const newDistance = calculateTourDistance(depot, newOrder, matrix);
         
         if (newDistance < bestDistance - 0.01) { // 需要有实质性改进
-          bestRoute = newRoute;
+          bestOrder = newOrder;
           improved = true;
           break;
         }
@@ -230,124 +288,233 @@ function twoOptImprove(route: Location[]): Location[] {
     }
   }
   
-  // 确保起点和终点仍然是仓库
-  if (bestRoute.length > 0) {
-    const depot = bestRoute[0];
-    bestRoute[bestRoute.length - 1] = depot;
-  }
+  return bestOrder;
+}
+
+/**
+ * 按容量把访问顺序拆分成多趟，推算ETA，生成完整路线
+ */
+function buildRoute(
+  vehicle: Vehicle,
+  depot: Depot,
+  order: Task[],
+  shift: VehicleShift,
+  matrix: TravelMatrix
+): Route {
+  const planned = planCapacitatedTrips(
+    depot.location,
+    order.map(task => ({ siteId: task.siteId, location: task.location, demand: task.demand })),
+    vehicle.capacity
+  );
+  const distance = calculateRouteDistance(planned.route, matrix);
+  const windows = new Map(order.map(task => [task.siteId, task.window]));
+  const schedule = scheduleRoute(depot.location, planned.stops, windows, shift, matrix);
+  const cost = distance + timeWindowPenalty(schedule);
   
-  return bestRoute;
+  return {
+    vehicleId: vehicle.id,
+    vehicleName: vehicle.name,
+    depotId: depot.id,
+    tasks: order,
+    route: planned.route,
+    stops: schedule.stops,
+    trips: planned.trips,
+    peakUtilisation: planned.peakUtilisation,
+    startTime: schedule.start,
+    endTime: schedule.end,
+    violations: schedule.violations,
+    totalDistance: distance,
+    cost,
+    costPerKm: vehicle.costPerKm,
+    score: 1 / cost // 成本越低分数越高
+  };
 }
 
 /**
- * 生成多个候选解（模拟进化计算）
+ * NSGA-II 生成Pareto前沿（成本 / 排放 / 工作量均衡）
+ * 每个任务聚类对应一辆车，任务只能在同仓库的兼容车辆间移动
+ * 进化前后各做一次跨路线模拟退火（见 localSearch.ts）
  */
-function generateAlternatives(depot: Location, taskClusters: Task[][], iterations: number = 5): Route[][] {
-  const alternatives: Route[][] = [];
+async function generateAlternatives(
+  taskClusters: TaskCluster[],
+  shift: VehicleShift,
+  matrix: TravelMatrix,
+  random: RandomSource,
+  generations: number = 20,
+  control?: OptimizerControl
+): Promise<{ front: EvolvedSolution[]; convergence: number[] }> {
+  const tasks = taskClusters.flatMap(cluster => cluster.tasks);
+  const taskIndex = new Map(tasks.map((task, index) => [task, index]));
+  const context: GenomeContext = {
+    locations: tasks.map(task => task.location),
+    itemDepots: taskClusters.flatMap(({ depot, tasks: clusterTasks }) => clusterTasks.map(() => depot.id)),
+    itemCategories: tasks.map(task => task.categories),
+    vehicles: taskClusters.map(({ depot, vehicle }) => ({ depotId: depot.id, location: depot.location, typeId: vehicle.typeId })),
+    matrix,
+  };
   
-  for (let iter = 0; iter < iterations; iter++) {
-    // 每次迭代使用稍微不同的策略
-    const randomFactor = Math.random();
-    const routes: Route[] = [];
-    
-    taskClusters.forEach((clusterTasks, index) => {
-      if (clusterTasks.length === 0) return;
-      
-      // 添加随机性
-      let shuffledTasks = [...clusterTasks];
-      if (randomFactor > 0.5) {
-        // 随机打乱任务顺序
-        shuffledTasks = shuffledTasks.sort(() => Math.random() - 0.5);
-      }
-      
-      // 生成路线
-      const routePoints = greedyTSP(depot, shuffledTasks);
-      const distance = calculateRouteDistance(routePoints);
-      
-      routes.push({
-        vehicleId: `Truck-${String.fromCharCode(65 + index)}`,
-        tasks: shuffledTasks,
-        route: routePoints,
-        totalDistance: distance,
-        score: 1 / distance // 距离越短分数越高
-      });
-    });
-    
-    alternatives.push(routes);
+  const decoded = new WeakMap<RouteGenome, Route[]>();
+  const decode = (genome: RouteGenome): Route[] => {
+    let routes = decoded.get(genome);
+    if (!routes) {
+      routes = genome
+        .map((order, index) => ({ order, index }))
+        .filter(({ order }) => order.length > 0)
+        .map(({ order, index }) => buildRoute(
+          taskClusters[index].vehicle,
+          taskClusters[index].depot,
+          order.map(i => tasks[i]),
+          shift,
+          matrix
+        ));
+      decoded.set(genome, routes);
+    }
+    return routes;
+  };
+  const totalCost = (routes: Route[]) => routes.reduce((sum, r) => sum + r.cost, 0);
+  
+  // 初始种群：贪心TSP（部分随机打乱），前一半用2-opt改进
+  const populationSize = 12;
+  const initialPopulation: RouteGenome[] = Array.from({ length: populationSize }, (_, individual) =>
+    taskClusters.map(({ depot, tasks: clusterTasks }) => {
+      const shuffledTasks = individual % 2 === 1
+        ? shuffle(clusterTasks, random)
+        : clusterTasks;
+      let order = greedyTSP(depot.location, shuffledTasks, matrix);
+      if (individual < populationSize / 2) order = twoOptImprove(depot.location, order, matrix);
+      return order.map(task => taskIndex.get(task)!);
+    })
+  );
+  
+  // 跨路线模拟退火（成本为单车运营成本），先改进第一个个体
+  const routeCost = (vehicleIndex: number, order: number[]) => evaluateRouteObjectives([buildRoute(
+    taskClusters[vehicleIndex].vehicle,
+    taskClusters[vehicleIndex].depot,
+    order.map(i => tasks[i]),
+    shift,
+    matrix
+  )], matrix).costAud;
+  initialPopulation[0] = annealRoutes(initialPopulation[0], context, routeCost, { random }).genome;
+  
+  const convergence: number[] = [];
+  const finalFront = await runNsga2<RouteGenome>({
+    initialPopulation,
+    evaluate: genome => objectivesToVector(evaluateRouteObjectives(decode(genome), matrix)),
+    crossover: (a, b, random) => crossoverRoutes(a, b, context, random),
+    mutate: (genome, random) => mutateRoutes(genome, context, random),
+    generations,
+    random,
+    onGeneration: async (_gen, population) => {
+      convergence.push(Math.min(...population.map(individual => totalCost(decode(individual.genome)))));
+      await control?.checkpoint();
+    }
+  });
+  
+  const toParetoSolution = (genome: RouteGenome): EvolvedSolution => {
+    const solution = decode(genome);
+    return { solution, objectives: evaluateRouteObjectives(solution, matrix) };
+  };
+  let front = finalFront.map(individual => toParetoSolution(individual.genome));
+  
+  // 成本最低的方案再做一次模拟退火，不被前沿支配时并入
+  const cheapest = finalFront.reduce<typeof finalFront[number] | undefined>((best, individual) =>
+    !best || totalCost(decode(individual.genome)) < totalCost(decode(best.genome)) ? individual : best, undefined);
+  if (cheapest) {
+    const polished = toParetoSolution(annealRoutes(cheapest.genome, context, routeCost, { random }).genome);
+    front = insertNonDominated(front, polished, item => objectivesToVector(item.objectives));
   }
   
-  return alternatives;
+  return { front, convergence };
 }
 
 /**
  * 主优化函数 - 生成最优解和多个次优解
  */
-export function optimizeRoutesWithAlternatives(
-  sites: any[],
-  depot: Location,
-  numVehicles: number = 4
-): OptimizationResult {
-  
-  // 1. 选择当天要执行的任务（处理多任务工地）
-  const dailyTasks = selectDailyTasks(sites);
-  
-  // 2. 按地理位置聚类
-  const taskClusters = clusterSites(dailyTasks, numVehicles);
+export async function optimizeRoutesWithAlternatives(
+  sites: ContractRecord[],
+  fleet: Vehicle[],
+  depotMode: DepotAssignmentMode = 'owning',
+  shift: VehicleShift = DEFAULT_SHIFT,
+  control?: OptimizerControl,
+  seed: number = randomSeed(),
+  clustering: ClusteringOptions = DEFAULT_CLUSTERING,
+  travelMatrix?: TravelMatrixData
+): Promise<RouteOptimizationResult> {
+  const matrix = createTravelMatrix(travelMatrix);
+  
+  // 1. 选择当天要执行的任务（处理多任务工地），送货优先
+  const dailyTasks = selectDailyTasks(sites).sort((a, b) => a.priority - b.priority);
+  
+  // 2. 与周计划相同的工时预估：只保留一个班次内放得下的任务，其余推迟
+  const today = planWeek(dailyTasks, fleet, shift, {
+    depotMode,
+    workingDays: 1,
+    getCategories: task => task.categories,
+    getServiceMinutes: task => getServiceMinutes(task.demand),
+    matrix,
+  });
   
-  // 3. 生成多个候选解
-  const alternatives = generateAlternatives(depot, taskClusters, 8);
+  // 3. 按仓库分组后再按可用车辆聚类（任务只分给能运输其设备的车型）
+  const { clusters: taskClusters, unserved } = clusterTasksByVehicle(today.days[0], fleet, depotMode, clustering, matrix);
   
-  // 4. 对每个候选解应用2-opt改进
-  const improvedAlternatives = alternatives.map(solution => 
-    solution.map(route => ({
-      ...route,
-      route: twoOptImprove(route.route),
-      totalDistance: calculateRouteDistance(twoOptImprove(route.route))
-    }))
+  // 4. NSGA-II 进化，得到Pareto前沿
+  const generations = 20;
+  const { front: evolvedFront, convergence } = await generateAlternatives(
+    taskClusters, shift, matrix, createRandom(seed), generations, control
   );
   
-  // 5. 选择最优解
-  const bestSolution = improvedAlternatives.reduce((best, current) => {
-    const bestTotalDist = best.reduce((sum, r) => sum + r.totalDistance, 0);
-    const currentTotalDist = current.reduce((sum, r) => sum + r.totalDistance, 0);
-    return currentTotalDist < bestTotalDist ? current : best;
+  // 5. 每个方案的路线在班次结束处截断，截下的任务和工时预估放不下的任务一起推迟（每个方案各自记录）
+  const clusterByVehicle = new Map(taskClusters.map(cluster => [cluster.vehicle.id, cluster]));
+  const front: ParetoRouteSolution[] = evolvedFront.map(({ solution }) => {
+    const deferred = [...today.deferred];
+    const fitted = solution.flatMap(route => {
+      const { depot, vehicle } = clusterByVehicle.get(route.vehicleId)!;
+      const result = fitRouteToShift(route, route.tasks, shift, tasks => buildRoute(vehicle, depot, tasks, shift, matrix));
+      deferred.push(...result.overflow);
+      return result.route ? [result.route] : [];
+    });
+    return {
+      solution: fitted,
+      objectives: evaluateRouteObjectives(fitted, matrix),
+      deferredSiteIds: Array.from(new Set(deferred.map(task => task.siteId))),
+    };
   });
   
-  // 6. 选择2-3个次优解用于展示
-  const sortedSolutions = improvedAlternatives
-    .map(solution => ({
-      solution,
-      totalDistance: solution.reduce((sum, r) => sum + r.totalDistance, 0)
-    }))
-    .sort((a, b) => a.totalDistance - b.totalDistance);
+  // 6. 选择最优解（推迟的工地最少，其次距离 + 时间窗惩罚最低）
+  const totalCost = (solution: Route[]) => solution.reduce((sum, r) => sum + r.cost, 0);
+  const sortedSolutions = [...front].sort((a, b) =>
+    a.deferredSiteIds.length - b.deferredSiteIds.length || totalCost(a.solution) - totalCost(b.solution)
+  );
+  const bestSolution = sortedSolutions[0]?.solution ?? [];
+  const deferredSiteIds = sortedSolutions[0]?.deferredSiteIds ?? Array.from(new Set(today.deferred.map(task => task.siteId)));
+  if (deferredSiteIds.length > 0) {
+    console.log(`⏭️ ${deferredSiteIds.length} site(s) do not fit in the ${formatClock(shift.start)}–${formatClock(shift.end)} shift and are deferred`);
+  }
   
+  // 7. Pareto前沿上的其他权衡作为次优解展示
   const alternativeSolutions = sortedSolutions
     .slice(1, 4) // 跳过最优解，取第2-4名
     .map(s => s.solution);
   
-  // 7. 收敛过程（用于动画）
-  const convergence = improvedAlternatives.map(solution => 
-    solution.reduce((sum, r) => sum + r.totalDistance, 0)
-  ).sort((a, b) => b - a); // 从差到好排序
-  
   return {
     bestSolution,
     alternativeSolutions,
-    iterations: alternatives.length,
-    convergence
+    paretoFront: front,
+    seed,
+    unservedSiteIds: Array.from(new Set([...today.unserved, ...unserved].map(task => task.siteId))),
+    deferredSiteIds,
+    iterations: generations,
+    convergence: [...convergence].sort((a, b) => b - a) // 从差到好排序（用于动画）
   };
 }
 
 /**
  * 解释：为什么任务数>工地数
  */
-export function explainTaskSiteRatio(sites: any[]): string {
-  const sitesWithMultipleTasks = sites.filter(s => 
-    s.transport_tasks && s.transport_tasks.length > 3
-  );
+export function explainTaskSiteRatio(sites: ContractRecord[]): string {
+  const sitesWithMultipleTasks = sites.filter(s => s.transport_tasks.length > 3);
   
-  const avgTasksPerSite = sites.reduce((sum, s) => 
-    sum + (s.transport_tasks?.length || 0), 0) / sites.length;
+  const avgTasksPerSite = sites.reduce((sum, s) => sum + s.transport_tasks.length, 0) / sites.length;
   
   return `
   Many sites have multiple transport tasks because:
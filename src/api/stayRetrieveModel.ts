@@ -0,0 +1,184 @@
+/**
+ * 留在工地 / 收回仓库 - 逻辑回归模型
+ * P(收回) = sigmoid(截距 + Σ 系数 × (特征 - 均值) / 尺度)
+ * 特征来自合同日期、设备构成、到所属仓库的距离和当前利用率
+ * 系数从 public/models/stay_retrieve.json 加载（可不改代码调整），加载失败时使用内置默认值
+ */
+
+import { classifyTransportTask, type ContractRecord } from './dataset';
+import { getOwningDepot } from './depots';
+import { getItemLoad } from './capacity';
+import { getEquipmentCategory } from './vehicleTypes';
+import type { TravelMatrix } from './travelMatrix';
+
+export type StayRetrieveFeature =
+  | 'daysToContractEnd'
+  | 'contractAgeDays'
+  | 'offHired'
+  | 'collectionShare'
+  | 'highValueShare'
+  | 'unitsOnSite'
+  | 'depotDistanceKm'
+  | 'fleetUtilisation';
+
+export interface LogisticCoefficient {
+  feature: StayRetrieveFeature;
+  weight: number;
+  mean: number;  // 标准化：(x - mean) / scale
+  scale: number;
+}
+
+export interface StayRetrieveModel {
+  version: string;
+  intercept: number;
+  threshold: number; // P(收回) ≥ threshold 时建议收回
+  coefficients: LogisticCoefficient[];
+}
+
+export interface FeatureContribution {
+  feature: StayRetrieveFeature;
+  value: number;
+  contribution: number; // 对 log-odds 的贡献（正 = 倾向收回）
+}
+
+export interface StayRetrievePrediction {
+  siteId: string;
+  probability: number; // P(收回)
+  decision: 'STAY_ON_SITE' | 'RETRIEVE_TO_DEPOT';
+  contributions: FeatureContribution[]; // 按 |贡献| 从大到小
+}
+
+export interface StayRetrieveContext {
+  planningDate?: string;
+  utilisationRate: number; // 0-100（仪表盘设置）
+  matrix: TravelMatrix;
+}
+
+export const FEATURE_LABELS: Record<StayRetrieveFeature, (value: number) => string> = {
+  daysToContractEnd: v => v >= 0 ? `contract ends in ${Math.round(v)} days` : `contract ended ${Math.round(-v)} days ago`,
+  contractAgeDays: v => `on hire for ${Math.round(v)} days`,
+  offHired: v => v > 0 ? 'off-hired' : 'still on hire',
+  collectionShare: v => `${Math.round(v * 100)}% of transport tasks are collections`,
+  highValueShare: v => `${Math.round(v * 100)}% high-value equipment`,
+  unitsOnSite: v => `${Math.round(v)} units on site`,
+  depotDistanceKm: v => `${v.toFixed(0)} km from depot`,
+  fleetUtilisation: v => `fleet utilisation ${Math.round(v * 100)}%`,
+};
+
+export const DEFAULT_STAY_RETRIEVE_MODEL: StayRetrieveModel = {
+  version: 'default-2024-06',
+  intercept: -0.6,
+  threshold: 0.5,
+  coefficients: [
+    { feature: 'daysToContractEnd', weight: -1.4, mean: 140, scale: 130 },
+    { feature: 'contractAgeDays', weight: 0.3, mean: 200, scale: 200 },
+    { feature: 'offHired', weight: 1.6, mean: 0, scale: 1 },
+    { feature: 'collectionShare', weight: 0.8, mean: 0.5, scale: 0.25 },
+    { feature: 'highValueShare', weight: 0.5, mean: 0.3, scale: 0.4 },
+    { feature: 'unitsOnSite', weight: -0.2, mean: 30, scale: 40 },
+    { feature: 'depotDistanceKm', weight: -0.5, mean: 35, scale: 25 },
+    { feature: 'fleetUtilisation', weight: 0.7, mean: 0.75, scale: 0.15 },
+  ],
+};
+
+// 灯塔和 VMS 显示屏单价高，闲置时优先收回再部署
+const HIGH_VALUE_CATEGORIES = new Set(['Light_Tower', 'VMS_Board']);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * 提取一个合同的模型特征
+ */
+export function extractStayRetrieveFeatures(
+  site: ContractRecord,
+  context: StayRetrieveContext
+): Record<StayRetrieveFeature, number> {
+  const now = Date.parse(context.planningDate ?? '') || Date.now();
+  const start = Date.parse(site.dates?.start ?? '');
+  const end = Date.parse(site.dates?.end ?? '');
+
+  const physical = site.equipment.filter(item => item.quantity > 0 && getItemLoad(item.description).weightKg > 0);
+  const units = physical.reduce((sum, item) => sum + item.quantity, 0);
+  const highValueUnits = physical
+    .filter(item => HIGH_VALUE_CATEGORIES.has(getEquipmentCategory(item.description)))
+    .reduce((sum, item) => sum + item.quantity, 0);
+
+  const kinds = site.transport_tasks.map(task => classifyTransportTask(task.type));
+  const collections = kinds.filter(kind => kind === 'collection').length;
+  const directional = kinds.filter(kind => kind === 'collection' || kind === 'delivery').length;
+
+  const depot = getOwningDepot(site).location;
+  return {
+    daysToContractEnd: Number.isFinite(end) ? Math.max(-365, Math.min(730, (end - now) / MS_PER_DAY)) : 180,
+    contractAgeDays: Number.isFinite(start) ? Math.max(0, (now - start) / MS_PER_DAY) : 0,
+    offHired: site.status.toLowerCase().includes('off-hire') ? 1 : 0,
+    collectionShare: directional > 0 ? collections / directional : 0.5,
+    highValueShare: units > 0 ? highValueUnits / units : 0,
+    unitsOnSite: units,
+    depotDistanceKm: context.matrix.distance(depot, site.location),
+    fleetUtilisation: context.utilisationRate / 100,
+  };
+}
+
+/**
+ * 预测一个合同的 P(收回) 和各特征贡献
+ */
+export function predictStayRetrieve(
+  site: ContractRecord,
+  context: StayRetrieveContext,
+  model: StayRetrieveModel = DEFAULT_STAY_RETRIEVE_MODEL
+): StayRetrievePrediction {
+  const features = extractStayRetrieveFeatures(site, context);
+  const contributions = model.coefficients.map(({ feature, weight, mean, scale }) => ({
+    feature,
+    value: features[feature],
+    contribution: weight * (features[feature] - mean) / (scale || 1),
+  }));
+  const probability = sigmoid(model.intercept + contributions.reduce((sum, c) => sum + c.contribution, 0));
+  return {
+    siteId: site.id,
+    probability,
+    decision: probability >= model.threshold ? 'RETRIEVE_TO_DEPOT' : 'STAY_ON_SITE',
+    contributions: contributions.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution)),
+  };
+}
+
+/**
+ * 决策说明：概率 + 贡献最大的几个特征
+ */
+export function describeStayRetrieve(prediction: StayRetrievePrediction, topFeatures = 3): string {
+  const factors = prediction.contributions
+    .slice(0, topFeatures)
+    .map(c => `${FEATURE_LABELS[c.feature](c.value)} (${c.contribution >= 0 ? '+' : ''}${c.contribution.toFixed(2)})`);
+  return `P(retrieve) = ${prediction.probability.toFixed(2)}. Top factors: ${factors.join('; ')}.`;
+}
+
+const isModel = (value: unknown): value is StayRetrieveModel => {
+  const model = value as StayRetrieveModel | null;
+  return typeof model?.intercept === 'number'
+    && typeof model.threshold === 'number'
+    && Array.isArray(model.coefficients)
+    && model.coefficients.every(c =>
+      c.feature in FEATURE_LABELS && typeof c.weight === 'number' && typeof c.mean === 'number' && typeof c.scale === 'number');
+};
+
+let modelCache: Promise<StayRetrieveModel> | null = null;
+
+/**
+ * 加载模型系数（只请求一次；格式不对或请求失败时使用默认系数）
+ */
+export function loadStayRetrieveModel(url = '/models/stay_retrieve.json'): Promise<StayRetrieveModel> {
+  modelCache ??= fetch(url)
+    .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+    .then(json => {
+      if (!isModel(json)) throw new Error('invalid model format');
+      console.log(`✅ Loaded stay/retrieve model ${json.version}`);
+      return json;
+    })
+    .catch(error => {
+      console.warn('⚠️ Stay/retrieve model unavailable, using default coefficients:', error);
+      return DEFAULT_STAY_RETRIEVE_MODEL;
+    });
+  return modelCache;
+}
@@ -0,0 +1,71 @@
+/**
+ * 墨尔本及周边的主要区域（近似中心坐标）
+ * 合同数据大多没有 suburb 字段，按坐标取最近的区域名，用于地图显示和分区需求预测
+ */
+
+import { calculateDistance } from './travelMatrix';
+
+interface Location {
+  lat: number;
+  lng: number;
+}
+
+export const SUBURBS: { name: string; location: Location }[] = [
+  { name: 'Melbourne', location: { lat: -37.8136, lng: 144.9631 } },
+  { name: 'Docklands', location: { lat: -37.8150, lng: 144.9460 } },
+  { name: 'Southbank', location: { lat: -37.8230, lng: 144.9650 } },
+  { name: 'Port Melbourne', location: { lat: -37.8390, lng: 144.9420 } },
+  { name: 'St Kilda', location: { lat: -37.8680, lng: 144.9810 } },
+  { name: 'Richmond', location: { lat: -37.8230, lng: 144.9980 } },
+  { name: 'Fitzroy', location: { lat: -37.7990, lng: 144.9780 } },
+  { name: 'Brunswick', location: { lat: -37.7670, lng: 144.9600 } },
+  { name: 'Coburg', location: { lat: -37.7440, lng: 144.9660 } },
+  { name: 'Preston', location: { lat: -37.7440, lng: 145.0030 } },
+  { name: 'Thomastown', location: { lat: -37.6820, lng: 145.0140 } },
+  { name: 'Epping', location: { lat: -37.6440, lng: 145.0090 } },
+  { name: 'Campbellfield', location: { lat: -37.6800, lng: 144.9600 } },
+  { name: 'Broadmeadows', location: { lat: -37.6830, lng: 144.9190 } },
+  { name: 'Craigieburn', location: { lat: -37.6000, lng: 144.9430 } },
+  { name: 'Essendon', location: { lat: -37.7550, lng: 144.9180 } },
+  { name: 'Tullamarine', location: { lat: -37.7010, lng: 144.8800 } },
+  { name: 'Sunbury', location: { lat: -37.5770, lng: 144.7260 } },
+  { name: 'Footscray', location: { lat: -37.8000, lng: 144.9000 } },
+  { name: 'Sunshine', location: { lat: -37.7880, lng: 144.8320 } },
+  { name: 'Altona', location: { lat: -37.8670, lng: 144.8300 } },
+  { name: 'Laverton North', location: { lat: -37.8270, lng: 144.7720 } },
+  { name: 'Werribee', location: { lat: -37.9000, lng: 144.6600 } },
+  { name: 'Melton', location: { lat: -37.6830, lng: 144.5830 } },
+  { name: 'Heidelberg', location: { lat: -37.7560, lng: 145.0670 } },
+  { name: 'Doncaster', location: { lat: -37.7880, lng: 145.1240 } },
+  { name: 'Box Hill', location: { lat: -37.8190, lng: 145.1220 } },
+  { name: 'Ringwood', location: { lat: -37.8150, lng: 145.2290 } },
+  { name: 'Lilydale', location: { lat: -37.7560, lng: 145.3480 } },
+  { name: 'Glen Waverley', location: { lat: -37.8780, lng: 145.1650 } },
+  { name: 'Clayton', location: { lat: -37.9250, lng: 145.1200 } },
+  { name: 'Moorabbin', location: { lat: -37.9380, lng: 145.0580 } },
+  { name: 'Dandenong', location: { lat: -37.9870, lng: 145.2150 } },
+  { name: 'Frankston', location: { lat: -38.1440, lng: 145.1260 } },
+  { name: 'Cranbourne', location: { lat: -38.0990, lng: 145.2830 } },
+  { name: 'Pakenham', location: { lat: -38.0710, lng: 145.4870 } },
+  { name: 'Mornington', location: { lat: -38.2180, lng: 145.0380 } },
+  { name: 'Geelong', location: { lat: -38.1490, lng: 144.3610 } },
+  { name: 'Torquay', location: { lat: -38.3310, lng: 144.3260 } },
+  { name: 'Ballarat', location: { lat: -37.5620, lng: 143.8500 } },
+  { name: 'Bendigo', location: { lat: -36.7570, lng: 144.2790 } },
+];
+
+/**
+ * 距离最近的区域名
+ */
+export function getNearestSuburb(location: Location): string {
+  let best = SUBURBS[0];
+  let bestDist = Infinity;
+  SUBURBS.forEach(suburb => {
+    const dist = calculateDistance(suburb.location, location);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = suburb;
+    }
+  });
+  return best.name;
+}
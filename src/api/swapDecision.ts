@@ -0,0 +1,197 @@
+/**
+ * 设备交换决策 - 用自有库存替换工地上的竞争对手租赁设备
+ * 每条竞争对手租赁（工地 × 设备类别）与各仓库的同类库存逐一比较：
+ * - 每日节省 = (竞争对手日租金 - 自有设备日成本) × 数量，按剩余租期折现
+ * - 交换成本 = 现在送货 + 租期结束时回收（仓库往返，距离来自行驶矩阵），回收按租期末折现
+ * - 剩余租期来自租期预测（见 hireDuration.ts），同时按置信区间两端计算 NPV 范围
+ * 只推荐 NPV 为正的交换；同一库存不重复分配（按 NPV 从高到低贪心分配）
+ */
+
+import { DEPOTS } from './depots';
+import { DEFAULT_COST_PER_KM } from './fleet';
+import type { ContractRecord } from './dataset';
+import type { HireDurationPrediction } from './hireDuration';
+import type { TravelMatrix } from './travelMatrix';
+import { getItemLoad } from './capacity';
+import { getEquipmentCategory, type EquipmentCategory } from './vehicleTypes';
+
+// 仓库库存中的一类设备
+export interface DepotStockItem {
+  id: string;
+  depotId: string;
+  category: EquipmentCategory;
+  description: string;
+  available: number; // 可调出的数量
+  dailyCost: number; // 自有设备每件每天的成本（折旧 + 保养，AUD）
+}
+
+export interface SwapConfig {
+  annualDiscountRate: number;
+  handlingCost: number; // 每趟装卸和调度的固定成本（AUD）
+  costPerKm: number;
+  competitorDailyRates: Record<EquipmentCategory, number>; // 合同没有竞争对手报价时的默认日租金（每件）
+}
+
+export interface SwapEvaluation {
+  siteId: string;
+  category: EquipmentCategory;
+  quantity: number;
+  stockItemId: string;
+  depotId: string;
+  competitorDailyRate: number; // 每件
+  ownDailyCost: number;        // 每件
+  remainingDays: number;
+  remainingDaysLow: number;    // 租期预测的置信区间
+  remainingDaysHigh: number;
+  transportCost: number;       // 送货 + 回收（未折现）
+  npv: number;
+  npvLow: number;              // 按置信区间两端的剩余租期计算
+  npvHigh: number;
+}
+
+export const DEFAULT_SWAP_CONFIG: SwapConfig = {
+  annualDiscountRate: 0.08,
+  handlingCost: 85,
+  costPerKm: DEFAULT_COST_PER_KM,
+  competitorDailyRates: {
+    Barrier: 6,
+    Safety_Barrier: 4,
+    Light_Tower: 95,
+    VMS_Board: 120,
+    Equipment: 40,
+  },
+};
+
+// 各仓库可调出的库存（仓库ID与 depots.ts 一致）
+export const DEFAULT_DEPOT_STOCK: DepotStockItem[] = [
+  { id: 'VB-SB-01', depotId: 'VIC BARRIERS', category: 'Safety_Barrier', description: 'Armorzone Water Filled Barrier', available: 120, dailyCost: 1.2 },
+  { id: 'VB-BR-01', depotId: 'VIC BARRIERS', category: 'Barrier', description: 'Concrete Barrier', available: 60, dailyCost: 1.8 },
+  { id: 'VB-EQ-01', depotId: 'VIC BARRIERS', category: 'Equipment', description: 'Temporary Fence Panel', available: 80, dailyCost: 0.9 },
+  { id: 'VE-LT-01', depotId: 'VIC ELECTRONICS', category: 'Light_Tower', description: 'Hybrid Light Tower', available: 6, dailyCost: 28 },
+  { id: 'VE-VMS-01', depotId: 'VIC ELECTRONICS', category: 'VMS_Board', description: 'VMS Board', available: 5, dailyCost: 35 },
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const isCompetitorRental = (site: Pick<ContractRecord, 'rental_info'>): boolean =>
+  site.rental_info?.is_competitor_rental === true;
+
+/**
+ * 剩余租期（天）：合同结束日期在计划日期之后时按结束日期计算，否则使用默认租期（没有租期预测时使用）
+ */
+export function getRemainingHireDays(
+  site: Pick<ContractRecord, 'dates'>,
+  planningDate: string | undefined,
+  defaultDays: number
+): number {
+  const end = Date.parse(site.dates?.end ?? '');
+  const now = Date.parse(planningDate ?? '');
+  if (Number.isFinite(end) && Number.isFinite(now) && end > now) {
+    return Math.ceil((end - now) / MS_PER_DAY);
+  }
+  return defaultDays;
+}
+
+/**
+ * 单个交换方案的 NPV（日折现）
+ */
+export function calculateSwapNpv(
+  dailySaving: number,
+  remainingDays: number,
+  deliveryCost: number,
+  collectionCost: number,
+  annualDiscountRate: number
+): number {
+  const dailyRate = Math.pow(1 + annualDiscountRate, 1 / 365) - 1;
+  const annuity = dailyRate > 0 ? (1 - Math.pow(1 + dailyRate, -remainingDays)) / dailyRate : remainingDays;
+  return dailySaving * annuity - deliveryCost - collectionCost / Math.pow(1 + dailyRate, remainingDays);
+}
+
+// 工地上竞争对手设备按类别汇总（费用类明细不计）
+function getRentedLines(site: ContractRecord): { category: EquipmentCategory; quantity: number; rate: number }[] {
+  const lines = new Map<EquipmentCategory, { quantity: number; charge: number }>();
+  site.equipment.forEach(item => {
+    if (item.quantity <= 0 || getItemLoad(item.description).weightKg <= 0) return;
+    const category = getEquipmentCategory(item.description);
+    const line = lines.get(category) ?? { quantity: 0, charge: 0 };
+    line.quantity += item.quantity;
+    line.charge += item.rate * item.quantity;
+    lines.set(category, line);
+  });
+  return Array.from(lines, ([category, line]) => ({
+    category,
+    quantity: line.quantity,
+    rate: line.charge > 0 ? line.charge / line.quantity : 0,
+  }));
+}
+
+/**
+ * 为竞争对手租赁工地规划交换：返回全部正 NPV 的交换（按 NPV 从高到低）
+ */
+export function planSwaps(
+  sites: ContractRecord[],
+  stock: DepotStockItem[],
+  matrix: TravelMatrix,
+  options: { planningDate?: string; defaultHireDays: number; hirePredictions?: Map<string, HireDurationPrediction> },
+  config: SwapConfig = DEFAULT_SWAP_CONFIG
+): SwapEvaluation[] {
+  const depotLocations = new Map(DEPOTS.map(depot => [depot.id, depot.location]));
+  const candidates: SwapEvaluation[] = [];
+
+  sites.filter(isCompetitorRental).forEach(site => {
+    const hire = options.hirePredictions?.get(site.id);
+    const remainingDays = hire?.remainingDays ?? getRemainingHireDays(site, options.planningDate, options.defaultHireDays);
+    const remainingDaysLow = hire?.remainingLowDays ?? remainingDays;
+    const remainingDaysHigh = hire?.remainingHighDays ?? remainingDays;
+    getRentedLines(site).forEach(line => {
+      const competitorDailyRate = site.rental_info?.competitor_daily_rate
+        ?? (line.rate > 0 ? line.rate : config.competitorDailyRates[line.category]);
+      stock
+        .filter(item => item.category === line.category && item.available >= line.quantity)
+        .forEach(item => {
+          const depot = depotLocations.get(item.depotId);
+          if (!depot) return;
+          const tripCost = config.handlingCost
+            + (matrix.distance(depot, site.location) + matrix.distance(site.location, depot)) * config.costPerKm;
+          const npvFor = (days: number) => calculateSwapNpv(
+            (competitorDailyRate - item.dailyCost) * line.quantity,
+            days,
+            tripCost,
+            tripCost,
+            config.annualDiscountRate
+          );
+          candidates.push({
+            siteId: site.id,
+            category: line.category,
+            quantity: line.quantity,
+            stockItemId: item.id,
+            depotId: item.depotId,
+            competitorDailyRate,
+            ownDailyCost: item.dailyCost,
+            remainingDays,
+            remainingDaysLow,
+            remainingDaysHigh,
+            transportCost: tripCost * 2,
+            npv: npvFor(remainingDays),
+            npvLow: npvFor(remainingDaysLow),
+            npvHigh: npvFor(remainingDaysHigh),
+          });
+        });
+    });
+  });
+
+  // 贪心分配库存：NPV 高的先分配，每条租赁只交换一次
+  const remaining = new Map(stock.map(item => [item.id, item.available]));
+  const swapped = new Set<string>();
+  return candidates
+    .filter(candidate => candidate.npv > 0)
+    .sort((a, b) => b.npv - a.npv)
+    .filter(candidate => {
+      const lineKey = `${candidate.siteId}:${candidate.category}`;
+      const available = remaining.get(candidate.stockItemId) ?? 0;
+      if (swapped.has(lineKey) || available < candidate.quantity) return false;
+      swapped.add(lineKey);
+      remaining.set(candidate.stockItemId, available - candidate.quantity);
+      return true;
+    });
+}
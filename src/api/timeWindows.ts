@@ -0,0 +1,262 @@
+/**
+ * 时间窗模型 - 带时间窗的车辆路线规划（VRPTW）
+ * 每个工地有可进入的时间窗和服务时长，每辆车有班次开始/结束时间，
+ * 按访问顺序推算每个站点的到达/离开时间（ETA），并统计迟到和超时
+ */
+
+import type { Load, PlannedStop } from './capacity';
+import { DEFAULT_TRAVEL_MATRIX, type TravelMatrix } from './travelMatrix';
+
+interface Location {
+  lat: number;
+  lng: number;
+}
+
+// 时间均以距当天0点的分钟数表示
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+export type VehicleShift = TimeWindow;
+
+// 默认班次 06:00 - 18:00
+export const DEFAULT_SHIFT: VehicleShift = { start: 6 * 60, end: 18 * 60 };
+
+// 默认工地进入时间（工作时间）
+export const DEFAULT_TIME_WINDOW: TimeWindow = { start: 7 * 60, end: 17 * 60 };
+
+// 客户要求夜间/下班后作业的工地
+const AFTER_HOURS_WINDOW: TimeWindow = { start: 18 * 60, end: 23 * 60 + 59 };
+
+const BASE_SERVICE_MINUTES = 15;   // 每次到场的固定时间（签到、安全检查）
+const MINUTES_PER_SLOT = 4;        // 每个车斗位置的装卸时间
+const DEPOT_TURNAROUND_MINUTES = 30; // 中途回仓库重新装货
+
+// 违反时间窗的惩罚（折算为km，用于和距离一起比较方案）
+const LATENESS_PENALTY_PER_MINUTE = 2;
+const OVERTIME_PENALTY_PER_MINUTE = 1;
+
+/**
+ * 解析 "07:30" 格式的时间
+ */
+export function parseClock(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * 分钟数格式化为 "HH:MM"（超过24点的时间按次日显示为 +1）
+ */
+export function formatClock(minutes: number): string {
+  const total = Math.round(minutes);
+  const day = Math.floor(total / (24 * 60));
+  const inDay = total - day * 24 * 60;
+  const hh = String(Math.floor(inDay / 60)).padStart(2, '0');
+  const mm = String(inDay % 60).padStart(2, '0');
+  return `${hh}:${mm}${day > 0 ? ` +${day}` : ''}`;
+}
+
+/**
+ * 从文字中解析时间段，例如 "Relocating Armorzones (7am-12pm)"
+ */
+function parseWindowFromText(text: string): TimeWindow | null {
+  const match = text.toLowerCase().match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)\s*-\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)/);
+  if (!match) return null;
+
+  const toMinutes = (h: string, m: string | undefined, meridiem: string) => {
+    const hours = (Number(h) % 12) + (meridiem === 'pm' ? 12 : 0);
+    return hours * 60 + Number(m || 0);
+  };
+
+  const start = toMinutes(match[1], match[2], match[3]);
+  const end = toMinutes(match[4], match[5], match[6]);
+  return end > start ? { start, end } : null;
+}
+
+/**
+ * 工地的进入时间窗
+ * 优先使用数据中的 time_window 字段，其次从任务/设备描述推断，否则为工作时间
+ */
+export function getSiteTimeWindow(site: {
+  time_window?: { start?: string; end?: string } | null;
+  transport_tasks?: Array<{ type: string }>;
+  equipment?: Array<{ description: string }>;
+}): TimeWindow {
+  const start = parseClock(site.time_window?.start);
+  const end = parseClock(site.time_window?.end);
+  if (start !== null && end !== null && end > start) {
+    return { start, end };
+  }
+
+  const texts = [
+    ...(site.transport_tasks || []).map(t => t.type),
+    ...(site.equipment || []).map(e => e.description),
+  ];
+
+  for (const text of texts) {
+    const window = parseWindowFromText(text);
+    if (window) return window;
+  }
+
+  if (texts.some(text => /after hours|\ba\/h\b|night/i.test(text))) {
+    return AFTER_HOURS_WINDOW;
+  }
+
+  return DEFAULT_TIME_WINDOW;
+}
+
+/**
+ * 服务时长：固定到场时间 + 按装卸量计算的时间
+ */
+export function getServiceMinutes(stop: { delivery: Load; collection: Load }): number {
+  const slots = stop.delivery.slots + stop.collection.slots;
+  return Math.round(BASE_SERVICE_MINUTES + slots * MINUTES_PER_SLOT);
+}
+
+/**
+ * 两点间的行驶时间（分钟，道路系数估算；优化器使用传入的行驶矩阵）
+ */
+export function travelMinutes(a: Location, b: Location): number {
+  return DEFAULT_TRAVEL_MATRIX.duration(a, b);
+}
+
+// 带ETA的站点
+export interface ScheduledStop extends PlannedStop {
+  arrival: number;      // 到达时间
+  departure: number;    // 离开时间
+  window: TimeWindow;
+  waitMinutes: number;  // 早到等待
+  lateMinutes: number;  // 晚于时间窗结束
+}
+
+export interface RouteSchedule {
+  stops: ScheduledStop[];
+  start: number;            // 离开仓库
+  end: number;              // 最后回到仓库
+  lateMinutes: number;      // 所有站点迟到分钟之和
+  overtimeMinutes: number;  // 超出班次结束的分钟
+  violations: string[];     // 人类可读的违规说明
+}
+
+/**
+ * 按顺序推算每个站点的ETA（含中途回仓库装货的时间）
+ */
+export function scheduleRoute(
+  depot: Location,
+  stops: PlannedStop[],
+  windows: Map<string, TimeWindow>,
+  shift: VehicleShift = DEFAULT_SHIFT,
+  matrix: TravelMatrix = DEFAULT_TRAVEL_MATRIX
+): RouteSchedule {
+  const scheduled: ScheduledStop[] = [];
+  const violations: string[] = [];
+  let time = shift.start;
+  let position = depot;
+  let lateMinutes = 0;
+
+  stops.forEach((stop, index) => {
+    // 新的一趟：先回仓库装货
+    if (index > 0 && stop.trip !== stops[index - 1].trip) {
+      time += matrix.duration(position, depot) + DEPOT_TURNAROUND_MINUTES;
+      position = depot;
+    }
+
+    const window = windows.get(stop.siteId) || DEFAULT_TIME_WINDOW;
+    const arrival = time + matrix.duration(position, stop.location);
+    const serviceStart = Math.max(arrival, window.start);
+    const late = Math.max(0, arrival - window.end);
+    const departure = serviceStart + getServiceMinutes(stop);
+
+    if (late > 0) {
+      violations.push(`${stop.siteId}: arrives ${formatClock(arrival)}, window closes ${formatClock(window.end)}`);
+    }
+
+    scheduled.push({
+      ...stop,
+      arrival,
+      departure,
+      window,
+      waitMinutes: serviceStart - arrival,
+      lateMinutes: late,
+    });
+
+    lateMinutes += late;
+    time = departure;
+    position = stop.location;
+  });
+
+  const end = stops.length > 0 ? time + matrix.duration(position, depot) : shift.start;
+  const overtimeMinutes = Math.max(0, end - shift.end);
+  if (overtimeMinutes > 0) {
+    violations.push(`Returns to depot at ${formatClock(end)}, shift ends ${formatClock(shift.end)}`);
+  }
+
+  return {
+    stops: scheduled,
+    start: shift.start,
+    end,
+    lateMinutes,
+    overtimeMinutes,
+    violations,
+  };
+}
+
+/**
+ * 时间窗惩罚（km当量），加到路线距离上比较方案优劣
+ */
+export function timeWindowPenalty(schedule: { lateMinutes: number; overtimeMinutes: number }): number {
+  return schedule.lateMinutes * LATENESS_PENALTY_PER_MINUTE +
+    schedule.overtimeMinutes * OVERTIME_PENALTY_PER_MINUTE;
+}
+
+/**
+ * 快速估算一条访问顺序的时间窗惩罚（不考虑中途装货），供2-opt等局部搜索使用
+ */
+export function estimateTourPenalty(
+  depot: Location,
+  order: Array<{ location: Location; window: TimeWindow; serviceMinutes: number }>,
+  shift: VehicleShift = DEFAULT_SHIFT,
+  matrix: TravelMatrix = DEFAULT_TRAVEL_MATRIX
+): number {
+  let time = shift.start;
+  let position = depot;
+  let lateMinutes = 0;
+
+  order.forEach(stop => {
+    const arrival = time + matrix.duration(position, stop.location);
+    lateMinutes += Math.max(0, arrival - stop.window.end);
+    time = Math.max(arrival, stop.window.start) + stop.serviceMinutes;
+    position = stop.location;
+  });
+
+  const end = time + matrix.duration(position, depot);
+  return timeWindowPenalty({ lateMinutes, overtimeMinutes: Math.max(0, end - shift.end) });
+}
+
+/**
+ * 在班次结束处截断路线：从最后一个工地起逐个移出并重新排程，直到按时回到仓库
+ * 优化过程中超时只是惩罚，输出的方案必须能在班次内完成；rebuild 按剩余的访问顺序重建路线
+ */
+export function fitRouteToShift<T, R extends { endTime: number }>(
+  route: R,
+  order: T[],
+  shift: VehicleShift,
+  rebuild: (order: T[]) => R
+): { route: R | null; overflow: T[] } {
+  let fitted = route;
+  let remaining = order;
+  const overflow: T[] = [];
+  while (fitted.endTime > shift.end && remaining.length > 0) {
+    overflow.unshift(remaining[remaining.length - 1]);
+    remaining = remaining.slice(0, -1);
+    if (remaining.length === 0) return { route: null, overflow };
+    fitted = rebuild(remaining);
+  }
+  return { route: fitted, overflow };
+}
@@ -0,0 +1,291 @@
+/**
+ * 行驶距离/时间矩阵 - 所有优化器和节省计算共用
+ * 规划开始前为全部工地和仓库一次性构建完整矩阵并缓存，优化过程中只查表：
+ * - haversine：直线距离
+ * - roadFactor：直线距离 × 道路系数（默认，不需要网络）
+ * - mapbox：Mapbox Matrix API（每次请求最多25个坐标，按块请求，经 mapServices 限流队列）
+ * - osrm：OSRM table 服务（服务器地址见 VITE_OSRM_URL）；未配置时使用本地替身（返回同样格式的响应）
+ * - roadGraph：离线路网（roadNetwork.ts）上的最短路径，不需要网络
+ * 远程来源失败时回退为 roadFactor（离线模式下为 roadGraph）
+ */
+
+import { OSRM_URL, fetchMapbox, isOfflineMode } from './mapServices';
+import { roadDistancesFrom } from './roadNetwork';
+
+interface Location {
+  lat: number;
+  lng: number;
+}
+
+export type TravelMatrixProviderId = 'haversine' | 'roadFactor' | 'mapbox' | 'osrm' | 'roadGraph';
+
+// 可结构化克隆，随优化请求传给Worker
+export interface TravelMatrixData {
+  provider: TravelMatrixProviderId; // 实际使用的来源（远程失败时为 roadFactor）
+  keys: string[];                   // 坐标键（见 locationKey）
+  distancesKm: number[][];          // [起点][终点]
+  durationsMinutes: number[][];
+}
+
+export interface TravelMatrix {
+  provider: TravelMatrixProviderId;
+  distance(from: Location, to: Location): number; // km
+  duration(from: Location, to: Location): number; // 分钟
+}
+
+export interface TravelMatrixProvider {
+  id: TravelMatrixProviderId;
+  buildMatrix(points: Location[]): Promise<TravelMatrixData>;
+}
+
+export interface TravelMatrixSettings {
+  osrmUrl?: string; // 例如 http://localhost:5000（缺省为 VITE_OSRM_URL）
+}
+
+export const TRAVEL_MATRIX_PROVIDERS: { id: TravelMatrixProviderId; name: string }[] = [
+  { id: 'roadFactor', name: 'Road factor estimate' },
+  { id: 'haversine', name: 'Straight line' },
+  { id: 'mapbox', name: 'Mapbox Matrix' },
+  { id: 'osrm', name: 'OSRM' },
+  { id: 'roadGraph', name: 'Offline road graph' },
+];
+
+const ROAD_FACTOR = 1.4;         // 直线距离 → 道路距离
+const AVERAGE_SPEED_KMH = 40;    // 墨尔本市区平均车速
+const MAPBOX_MAX_COORDINATES = 25;
+const OSRM_MAX_COORDINATES = 100; // OSRM 默认 max-table-size
+
+/**
+ * 计算两点间的直线距离（km），各模块共用
+ */
+export function calculateDistance(a: Location, b: Location): number {
+  const R = 6371;
+  const dLat = (b.lat - a.lat) * Math.PI / 180;
+  const dLon = (b.lng - a.lng) * Math.PI / 180;
+
+  const a1 = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a1), Math.sqrt(1 - a1));
+  return R * c;
+}
+
+export function locationKey(location: Location): string {
+  return `${location.lat.toFixed(6)},${location.lng.toFixed(6)}`;
+}
+
+// 道路系数估算（矩阵中没有的点也用它）
+function estimateDistance(from: Location, to: Location): number {
+  return calculateDistance(from, to) * ROAD_FACTOR;
+}
+
+function estimateDuration(from: Location, to: Location): number {
+  return estimateDistance(from, to) / AVERAGE_SPEED_KMH * 60;
+}
+
+/**
+ * 默认矩阵：按需用道路系数估算（未构建矩阵时使用，如单元计算和时间窗估算）
+ */
+export const DEFAULT_TRAVEL_MATRIX: TravelMatrix = {
+  provider: 'roadFactor',
+  distance: estimateDistance,
+  duration: estimateDuration,
+};
+
+/**
+ * 由矩阵数据创建查表对象；不在矩阵中的点回退为道路系数估算
+ */
+export function createTravelMatrix(data?: TravelMatrixData): TravelMatrix {
+  if (!data) return DEFAULT_TRAVEL_MATRIX;
+  const index = new Map(data.keys.map((key, i) => [key, i]));
+  // 优化过程中同一坐标对象会被反复查询，缓存其下标避免每次拼接坐标键
+  const indexCache = new WeakMap<Location, number | undefined>();
+  const indexOf = (location: Location) => {
+    if (indexCache.has(location)) return indexCache.get(location);
+    const i = index.get(locationKey(location));
+    indexCache.set(location, i);
+    return i;
+  };
+  const lookup = (table: number[][], from: Location, to: Location, estimate: (a: Location, b: Location) => number) => {
+    const i = indexOf(from);
+    const j = indexOf(to);
+    return i === undefined || j === undefined ? estimate(from, to) : table[i][j];
+  };
+
+  return {
+    provider: data.provider,
+    distance: (from, to) => lookup(data.distancesKm, from, to, estimateDistance),
+    duration: (from, to) => lookup(data.durationsMinutes, from, to, estimateDuration),
+  };
+}
+
+/**
+ * 逐对计算的矩阵（本地来源）
+ */
+function computeMatrix(
+  provider: TravelMatrixProviderId,
+  points: Location[],
+  distance: (a: Location, b: Location) => number,
+  duration: (a: Location, b: Location) => number
+): TravelMatrixData {
+  return {
+    provider,
+    keys: points.map(locationKey),
+    distancesKm: points.map(a => points.map(b => distance(a, b))),
+    durationsMinutes: points.map(a => points.map(b => duration(a, b))),
+  };
+}
+
+// table 响应（Mapbox Matrix 与 OSRM 格式相同）：距离为米，时间为秒，无法到达为 null
+interface TableResponse {
+  code: string;
+  distances?: (number | null)[][];
+  durations?: (number | null)[][];
+}
+
+/**
+ * 分块请求 table 服务：每块的起点和终点坐标合计不超过 maxCoordinates
+ */
+async function buildMatrixInBlocks(
+  provider: TravelMatrixProviderId,
+  points: Location[],
+  maxCoordinates: number,
+  requestTable: (coordinates: Location[], sources: number[], destinations: number[]) => Promise<TableResponse>
+): Promise<TravelMatrixData> {
+  const blockSize = Math.max(1, Math.floor(maxCoordinates / 2));
+  const blocks: number[][] = [];
+  for (let start = 0; start < points.length; start += blockSize) {
+    blocks.push(points.map((_, i) => i).slice(start, start + blockSize));
+  }
+
+  const distancesKm = points.map(() => points.map(() => 0));
+  const durationsMinutes = points.map(() => points.map(() => 0));
+
+  for (const from of blocks) {
+    for (const to of blocks) {
+      // 同一块时起点和终点共用坐标
+      const coordinates = from === to ? from : [...from, ...to];
+      const sources = from.map((_, i) => i);
+      const destinations = from === to ? sources : to.map((_, i) => from.length + i);
+      const response = await requestTable(coordinates.map(i => points[i]), sources, destinations);
+      if (response.code !== 'Ok') throw new Error(`${provider} table request failed: ${response.code}`);
+
+      from.forEach((a, i) => to.forEach((b, j) => {
+        const metres = response.distances?.[i]?.[j];
+        const seconds = response.durations?.[i]?.[j];
+        distancesKm[a][b] = metres == null ? estimateDistance(points[a], points[b]) : metres / 1000;
+        durationsMinutes[a][b] = seconds == null ? estimateDuration(points[a], points[b]) : seconds / 60;
+      }));
+    }
+  }
+
+  return { provider, keys: points.map(locationKey), distancesKm, durationsMinutes };
+}
+
+const formatCoordinates = (coordinates: Location[]) =>
+  coordinates.map(c => `${c.lng},${c.lat}`).join(';');
+
+async function fetchTable(url: string, request: (url: string) => Promise<Response> = fetch): Promise<TableResponse> {
+  const response = await request(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.json();
+}
+
+/**
+ * OSRM 本地替身：按道路系数回答 table 请求（响应格式与 OSRM 相同，部署真实服务器后只需配置地址）
+ */
+function localOsrmTable(coordinates: Location[], sources: number[], destinations: number[]): TableResponse {
+  return {
+    code: 'Ok',
+    distances: sources.map(i => destinations.map(j => estimateDistance(coordinates[i], coordinates[j]) * 1000)),
+    durations: sources.map(i => destinations.map(j => estimateDuration(coordinates[i], coordinates[j]) * 60)),
+  };
+}
+
+export function createTravelMatrixProvider(
+  id: TravelMatrixProviderId,
+  settings: TravelMatrixSettings = {}
+): TravelMatrixProvider {
+  const osrmUrl = settings.osrmUrl ?? OSRM_URL;
+  switch (id) {
+    case 'haversine':
+      return {
+        id,
+        buildMatrix: async points => computeMatrix(id, points, calculateDistance,
+          (a, b) => calculateDistance(a, b) / AVERAGE_SPEED_KMH * 60),
+      };
+    case 'mapbox':
+      return {
+        id,
+        buildMatrix: points => buildMatrixInBlocks(id, points, MAPBOX_MAX_COORDINATES, (coordinates, sources, destinations) => fetchTable(
+          `https://api.mapbox.com/directions-matrix/v1/mapbox/driving/${formatCoordinates(coordinates)}` +
+          `?sources=${sources.join(';')}&destinations=${destinations.join(';')}&annotations=distance,duration`,
+          fetchMapbox
+        )),
+      };
+    case 'osrm':
+      return {
+        id,
+        buildMatrix: points => buildMatrixInBlocks(id, points, OSRM_MAX_COORDINATES, async (coordinates, sources, destinations) =>
+          osrmUrl
+            ? fetchTable(
+              `${osrmUrl.replace(/\/$/, '')}/table/v1/driving/${formatCoordinates(coordinates)}` +
+              `?sources=${sources.join(';')}&destinations=${destinations.join(';')}&annotations=distance,duration`
+            )
+            : localOsrmTable(coordinates, sources, destinations)),
+      };
+    case 'roadGraph':
+      return {
+        id,
+        buildMatrix: async points => {
+          const rows = points.map(from => roadDistancesFrom(from, points));
+          return {
+            provider: id,
+            keys: points.map(locationKey),
+            distancesKm: rows.map(row => row.map(cell => cell.distanceKm)),
+            durationsMinutes: rows.map(row => row.map(cell => cell.durationMinutes)),
+          };
+        },
+      };
+    default:
+      return {
+        id: 'roadFactor',
+        buildMatrix: async points => computeMatrix('roadFactor', points, estimateDistance, estimateDuration),
+      };
+  }
+}
+
+// 已构建的矩阵（按来源缓存，新的点集包含在缓存中时直接复用）
+const matrixCache = new Map<TravelMatrixProviderId, TravelMatrixData>();
+
+/**
+ * 获取覆盖全部点的矩阵（优先使用缓存；远程来源失败时回退为道路系数估算）
+ */
+export async function getTravelMatrixData(
+  id: TravelMatrixProviderId,
+  points: Location[],
+  settings: TravelMatrixSettings = {}
+): Promise<TravelMatrixData> {
+  const unique = Array.from(new Map(points.map(p => [locationKey(p), { lat: p.lat, lng: p.lng }])).values());
+  const cached = matrixCache.get(id);
+  if (cached) {
+    const keys = new Set(cached.keys);
+    if (unique.every(p => keys.has(locationKey(p)))) return cached;
+  }
+
+  try {
+    const data = await createTravelMatrixProvider(id, settings).buildMatrix(unique);
+    matrixCache.set(id, data);
+    console.log(`🧮 Built ${unique.length}×${unique.length} travel matrix (${id})`);
+    return data;
+  } catch (error) {
+    const fallback: TravelMatrixProviderId = isOfflineMode() && id !== 'roadGraph' ? 'roadGraph' : 'roadFactor';
+    console.warn(`⚠️ ${id} travel matrix unavailable, falling back to ${fallback}:`, error);
+    return getTravelMatrixData(fallback, unique);
+  }
+}
+
+export function clearTravelMatrixCache(): void {
+  matrixCache.clear();
+}
@@ -0,0 +1,107 @@
+/**
+ * 车辆类型与设备兼容性
+ * 防撞垫（Absorb、BG800）和混凝土护栏需要吊车，VMS显示屏和灯塔用皮卡拖挂即可
+ * 兼容规则按设备类别（与地图上工地的 type 相同）定义
+ */
+
+import { getItemLoad, type VehicleCapacity } from './capacity';
+
+export type EquipmentCategory = 'Barrier' | 'Light_Tower' | 'VMS_Board' | 'Safety_Barrier' | 'Equipment';
+
+// 按描述关键字判断设备类别（先匹配先生效）
+const CATEGORY_KEYWORDS: { category: EquipmentCategory; keywords: string[] }[] = [
+  // 注水塑料护栏较轻，先于 'barrier' 匹配（"Armorzone Water Filled Barrier"）
+  { category: 'Safety_Barrier', keywords: ['armorzone', 'amorzone', 'amrorzone', 'wfb', 'water filled'] },
+  { category: 'Barrier', keywords: ['barrier', 'absorb', 'bg800', 'quadguard', 'db80', 'jj hook', 'concrete', 'highway guard'] },
+  { category: 'Light_Tower', keywords: ['light', 'tower'] },
+  { category: 'VMS_Board', keywords: ['vms', 'sign'] },
+];
+
+/**
+ * 单件设备的类别
+ */
+export function getEquipmentCategory(description: string): EquipmentCategory {
+  const desc = description.toLowerCase();
+  const match = CATEGORY_KEYWORDS.find(c => c.keywords.some(k => desc.includes(k)));
+  return match ? match.category : 'Equipment';
+}
+
+/**
+ * 工地设备需要的全部类别（费用类明细不计）
+ */
+export function getRequiredCategories(
+  equipment: Array<{ description: string; quantity: number }> = []
+): EquipmentCategory[] {
+  const categories = new Set<EquipmentCategory>();
+  equipment.forEach(item => {
+    if (getItemLoad(item.description).weightKg > 0) {
+      categories.add(getEquipmentCategory(item.description));
+    }
+  });
+  return Array.from(categories);
+}
+
+/**
+ * 工地的主要设备类别（件数最多，费用类明细不计）
+ */
+export function getPrimaryCategory(
+  equipment: Array<{ description: string; quantity: number }> = []
+): EquipmentCategory {
+  const units = new Map<EquipmentCategory, number>();
+  equipment.forEach(item => {
+    if (item.quantity <= 0 || getItemLoad(item.description).weightKg <= 0) return;
+    const category = getEquipmentCategory(item.description);
+    units.set(category, (units.get(category) ?? 0) + item.quantity);
+  });
+  let best: EquipmentCategory = 'Equipment';
+  let bestUnits = 0;
+  units.forEach((count, category) => {
+    if (count > bestUnits) {
+      bestUnits = count;
+      best = category;
+    }
+  });
+  return best;
+}
+
+export type VehicleTypeId = 'crane_truck' | 'flatbed' | 'ute';
+
+export interface VehicleType {
+  id: VehicleTypeId;
+  name: string;
+  capacity: VehicleCapacity;        // 该类型车辆的默认容量
+  categories: EquipmentCategory[];  // 可运输的设备类别
+}
+
+export const VEHICLE_TYPES: VehicleType[] = [
+  {
+    id: 'crane_truck',
+    name: 'Crane truck',
+    capacity: { weightKg: 12000, volumeM3: 40, slots: 24 },
+    categories: ['Barrier', 'Safety_Barrier', 'Light_Tower', 'VMS_Board', 'Equipment'],
+  },
+  {
+    id: 'flatbed',
+    name: 'Flatbed',
+    capacity: { weightKg: 12000, volumeM3: 40, slots: 24 },
+    categories: ['Safety_Barrier', 'Light_Tower', 'VMS_Board', 'Equipment'],
+  },
+  {
+    id: 'ute',
+    name: 'Ute',
+    capacity: { weightKg: 2500, volumeM3: 8, slots: 8 },
+    categories: ['Light_Tower', 'VMS_Board', 'Equipment'],
+  },
+];
+
+export function getVehicleType(id: VehicleTypeId): VehicleType {
+  return VEHICLE_TYPES.find(t => t.id === id) || VEHICLE_TYPES[0];
+}
+
+/**
+ * 该类型车辆能否运输全部所需类别
+ */
+export function canCarry(typeId: VehicleTypeId, categories: EquipmentCategory[]): boolean {
+  const carried = getVehicleType(typeId).categories;
+  return categories.every(category => carried.includes(category));
+}
@@ -0,0 +1,117 @@
+/**
+ * 周计划 - 把本周选中的工地分配到各个工作日
+ * 每个仓库每天的工作量上限 = 该仓库可用车辆的班次时长（按车型能服务的工地比例折算），
+ * 工地按仓库周围的方位角扫描分组，同一天的工地相邻、路线紧凑
+ * 整周放不下的工地（优先级最低的先放弃）推迟到下周；需求预测中的新访问预先占用一部分工时
+ */
+
+import type { DepotAssignmentMode, DepotOwnedSite } from './depots';
+import { assignSitesToFleet, canServe, type Vehicle } from './fleet';
+import type { VehicleShift } from './timeWindows';
+import { DEFAULT_TRAVEL_MATRIX, type TravelMatrix } from './travelMatrix';
+import type { EquipmentCategory } from './vehicleTypes';
+
+export const WORKING_DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+
+export function getDayLabel(day: number): string {
+  return WORKING_DAYS[day] || `Day ${day + 1}`;
+}
+
+// 班次中可用于访问工地的比例（其余留给装车、午休和路况）
+const SHIFT_UTILISATION = 0.85;
+
+export interface WeekPlan<T> {
+  days: T[][];      // 下标 0 = 周一
+  deferred: T[];    // 本周放不下，推迟
+  unserved: T[];    // 车队中没有兼容车型
+}
+
+export interface WeekPlanOptions<T> {
+  depotMode?: DepotAssignmentMode;
+  workingDays?: number;
+  getCategories?: (site: T) => EquipmentCategory[];
+  getServiceMinutes: (site: T) => number;
+  matrix?: TravelMatrix;
+  reservedVisits?: number; // 预测中尚未进入任务池的访问（按各仓库的工地占比和平均工作量预留工时）
+}
+
+/**
+ * 单个工地占用的车辆时间（粗略估算）：现场服务 + 往返仓库
+ * 装载量大的工地通常需要单独一趟，按往返计算偏保守
+ */
+export function estimateWorkload(
+  depot: { lat: number; lng: number },
+  location: { lat: number; lng: number },
+  serviceMinutes: number,
+  matrix: TravelMatrix = DEFAULT_TRAVEL_MATRIX
+): number {
+  return serviceMinutes + matrix.duration(depot, location) + matrix.duration(location, depot);
+}
+
+/**
+ * 生成周计划（sites 按优先级从高到低排列）
+ */
+export function planWeek<T extends DepotOwnedSite>(
+  sites: T[],
+  fleet: Vehicle[],
+  shift: VehicleShift,
+  options: WeekPlanOptions<T>
+): WeekPlan<T> {
+  const {
+    depotMode = 'owning',
+    workingDays = WORKING_DAYS.length,
+    getCategories = () => [],
+    getServiceMinutes,
+    matrix = DEFAULT_TRAVEL_MATRIX,
+    reservedVisits = 0,
+  } = options;
+  const days: T[][] = Array.from({ length: workingDays }, () => []);
+  const deferred: T[] = [];
+  const { groups, unserved } = assignSitesToFleet(sites, fleet, depotMode, getCategories);
+  const shiftMinutes = Math.max(0, shift.end - shift.start) * SHIFT_UTILISATION;
+  const assignedSites = groups.reduce((sum, group) => sum + group.sites.length, 0);
+
+  groups.forEach(({ depot, vehicles, sites: groupSites }) => {
+    // 只能服务部分工地的车辆（如皮卡）按可服务比例计入
+    const dailyCapacity = groupSites.length === 0 ? 0 : vehicles.reduce((sum, vehicle) =>
+      sum + shiftMinutes * groupSites.filter(site => canServe(vehicle, getCategories(site))).length / groupSites.length, 0);
+    const workload = new Map(groupSites.map(site => [
+      site,
+      estimateWorkload(depot.location, site.location, getServiceMinutes(site), matrix),
+    ]));
+
+    // 1. 扣除预测访问的工时后，按优先级装入整周容量，超出的推迟
+    const averageWorkload = groupSites.length === 0 ? 0 :
+      Array.from(workload.values()).reduce((sum, minutes) => sum + minutes, 0) / groupSites.length;
+    const reserved = reservedVisits * groupSites.length / Math.max(1, assignedSites) * averageWorkload;
+    const weekCapacity = Math.max(0, dailyCapacity * workingDays - reserved);
+    const scheduled: T[] = [];
+    let weekLoad = 0;
+    groupSites.forEach(site => {
+      const minutes = workload.get(site)!;
+      if (weekLoad + minutes > weekCapacity && scheduled.length > 0) {
+        deferred.push(site);
+        return;
+      }
+      scheduled.push(site);
+      weekLoad += minutes;
+    });
+
+    // 2. 按方位角扫描，依次填满每一天（每天目标为平均工作量，不超过日容量）
+    const angle = (site: T) => Math.atan2(site.location.lat - depot.location.lat, site.location.lng - depot.location.lng);
+    const target = Math.min(dailyCapacity, weekLoad / workingDays);
+    let day = 0;
+    let dayLoad = 0;
+    [...scheduled].sort((a, b) => angle(a) - angle(b)).forEach(site => {
+      const minutes = workload.get(site)!;
+      if (dayLoad > 0 && dayLoad + minutes / 2 > target && day < workingDays - 1) {
+        day++;
+        dayLoad = 0;
+      }
+      days[day].push(site);
+      dayLoad += minutes;
+    });
+  });
+
+  return { days, deferred, unserved };
+}
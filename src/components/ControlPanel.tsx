@@ -1,7 +1,21 @@
-import { Package, LoaderCircle, AlertCircle, CheckCircle } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Package, LoaderCircle, AlertCircle, CheckCircle, Warehouse, Pause, Play, X, Truck, Plus, SlidersHorizontal } from 'lucide-react';
 import type { SimulationParams } from '../App';
 import type { Asset } from '../api/client';
-import { WEEKLY_PRIORITY_CAPACITY } from '../api/progressiveOptimizer';
+import { DEPOTS } from '../api/depots';
+import { createVehicle, type Vehicle } from '../api/fleet';
+import { VEHICLE_TYPES, getVehicleType, type VehicleTypeId } from '../api/vehicleTypes';
+import { DEFAULT_PRIORITY_CONFIG, getWeeklySiteSlots, rankSites, type PriorityWeights } from '../api/priorityEngine';
+import type { Backlog } from '../api/backlog';
+import type { ClusterBalance, ClusteringMethod } from '../api/clustering';
+import { TRAVEL_MATRIX_PROVIDERS, type TravelMatrixProviderId } from '../api/travelMatrix';
+import { hasMapboxToken, hasOsrmServer } from '../api/mapServices';
+import { classifyTransportTask, ISSUE_LABELS, type ContractDataset, type DatasetIssueCode, type DatasetValidationReport } from '../api/dataset';
+import CsvImport from './CsvImport';
+import { needsInspection, type HealthThresholds } from '../api/healthModel';
+import { forecastDemand, getForecastVisits } from '../api/demandForecast';
+import type { HireDurationPrediction } from '../api/hireDuration';
+import { clearDirectionsCache, getDirectionsCacheStats, subscribeDirectionsCache, type DirectionsCacheStats } from '../api/directionsCache';
 
 interface ControlPanelProps {
   params: SimulationParams;
@@ -9,42 +23,113 @@ interface ControlPanelProps {
   onAnalyzeTaskPool: () => void;
   onOptimize: () => void;
   isLoading: boolean;
+  isPaused?: boolean;
+  onTogglePause?: () => void; // 暂停/恢复正在运行的优化
+  onCancelOptimize?: () => void; // 取消正在运行的优化
   taskPoolAnalyzed: boolean;
   assets?: Asset[];
+  datasetValidation?: DatasetValidationReport | null; // 加载时的数据集校验结果
+  onImportDataset?: (dataset: ContractDataset, validation: DatasetValidationReport) => void; // CSV 导入
+  backlog?: Backlog; // 之前规划中推迟的工地
+  onClearBacklog?: () => void;
 }
 
-const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPool, onOptimize, isLoading, taskPoolAnalyzed, assets = [] }: ControlPanelProps) => {
+const formatPoints = (points: number) => points >= 0 ? `+${points}` : `${points}`;
+
+// 优先级权重输入项
+const PRIORITY_WEIGHT_FIELDS: { key: keyof PriorityWeights; label: string }[] = [
+  { key: 'perTask', label: 'Per task' },
+  { key: 'delivery', label: 'Delivery' },
+  { key: 'collection', label: 'Collection' },
+  { key: 'competitorRental', label: 'Competitor' },
+  { key: 'contractEnding', label: 'Contract ending' },
+  { key: 'keyCustomer', label: 'Key customer' },
+  { key: 'taskAgePerWeek', label: 'Age / week' },
+  { key: 'deferredPerWeek', label: 'Deferred / week' },
+];
+
+const ControlPanel = ({
+  params,
+  setParams,
+  onAnalyzeTaskPool,
+  onOptimize,
+  isLoading,
+  isPaused = false,
+  onTogglePause,
+  onCancelOptimize,
+  taskPoolAnalyzed,
+  assets = [],
+  datasetValidation = null,
+  onImportDataset,
+  backlog = {},
+  onClearBacklog
+}: ControlPanelProps) => {
   // 计算真实任务数（从数据动态统计）
   const deliveryCount = assets.reduce((sum, asset) => 
-    sum + (asset.transport_tasks?.filter((t: any) => 
-      t.type.toLowerCase().includes('delivery')).length || 0), 0);
+    sum + (asset.transport_tasks?.filter(t => classifyTransportTask(t.type) === 'delivery').length || 0), 0);
   
   const collectionCount = assets.reduce((sum, asset) => 
-    sum + (asset.transport_tasks?.filter((t: any) => 
-      t.type.toLowerCase().includes('collection')).length || 0), 0);
+    sum + (asset.transport_tasks?.filter(t => classifyTransportTask(t.type) === 'collection').length || 0), 0);
   
   const totalTasks = deliveryCount + collectionCount;
   const activeSites = assets.filter(a => a.transport_tasks && a.transport_tasks.length > 0).length;
   const totalCustomers = new Set(assets.map(a => a.customer).filter(Boolean)).size;
+  const depotCount = new Set(assets.map(a => a.depotId).filter(Boolean)).size;
+  const availableVehicles = params.fleet.filter(v => v.available).length;
+  const canOptimize = !isLoading && availableVehicles > 0;
+
+  const [directionsCache, setDirectionsCache] = useState<DirectionsCacheStats>(getDirectionsCacheStats);
+  useEffect(() => subscribeDirectionsCache(setDirectionsCache), []);
+
+  // 健康阈值：严重阈值不高于检查阈值
+  const updateHealthThreshold = (key: keyof HealthThresholds, value: number) => {
+    if (!Number.isFinite(value)) return;
+    setParams(prev => {
+      const health = { ...prev.health, [key]: Math.max(0, Math.min(100, value)) };
+      if (health.critical > health.inspect) {
+        if (key === 'critical') health.inspect = health.critical;
+        else health.critical = health.inspect;
+      }
+      return { ...prev, health };
+    });
+  };
+
+  const updateVehicle = (id: string, changes: Partial<Vehicle>) => {
+    setParams(prev => ({
+      ...prev,
+      fleet: prev.fleet.map(v => v.id === id ? { ...v, ...changes } : v)
+    }));
+  };
   
   // 计算AI生成的任务（基于真实数据推断）
   const competitorRentals = assets.filter(a => a.status === 'competitor_rental').length;
-  const swapTasks = Math.min(competitorRentals, 3); // 最多3个交换任务
-  const inspectionTasks = Math.floor(assets.length * 0.03); // 约3%需要检查
+  const swapTasks = competitorRentals; // 交换候选（是否执行由 NPV 决定，见 swapDecision.ts）
+  const inspectionTasks = assets.filter(a => a.health && needsInspection(a.health, params.health)).length; // 健康模型判断需要检查
   const aiGeneratedTasks = swapTasks + inspectionTasks;
   
-  // 计算本周优先工地包含的任务数
-  const prioritySitesWithTasks = assets
-    .filter(a => a.transport_tasks && a.transport_tasks.length > 0)
-    .sort((a, b) => {
-      // 简化的优先级：任务多的在前
-      const scoreA = (a.transport_tasks?.length || 0) * 10 + 
-        (a.transport_tasks?.some((t: any) => t.type.toLowerCase().includes('delivery')) ? 50 : 0);
-      const scoreB = (b.transport_tasks?.length || 0) * 10 +
-        (b.transport_tasks?.some((t: any) => t.type.toLowerCase().includes('delivery')) ? 50 : 0);
-      return scoreB - scoreA;
-    })
-    .slice(0, WEEKLY_PRIORITY_CAPACITY);
+  // 需求预测：按历史合同日期预测未来几周的送货/回收
+  // 回收按每个合同的租期预测（结束日期的概率分布，见 App）汇总；
+  // 本周的预测作为单独的"预测"行计入任务池和本周计划，优化器为其预留名额和车辆工时
+  const demandForecast = useMemo(
+    () => forecastDemand(assets, {
+      planningDate: params.priority.referenceDate,
+      hirePredictions: new Map(assets.flatMap(asset => asset.hire ? [[asset.id, asset.hire] as [string, HireDurationPrediction]] : [])),
+    }),
+    [assets, params.priority.referenceDate]
+  );
+  const forecastThisWeek = demandForecast.weeks[0];
+  const forecastTasks = getForecastVisits(forecastThisWeek);
+  const forecastTopSeries = demandForecast.series
+    .filter(series => series.deliveries[0] + series.collections[0] >= 0.5)
+    .slice(0, 3);
+  
+  // 本周优先工地：与优化器使用同一个优先级引擎（预测的新访问占用一部分名额）
+  const rankedSites = rankSites(assets, params.priority, backlog);
+  const backlogSize = Object.keys(backlog).length;
+  const prioritySitesWithTasks = rankedSites
+    .slice(0, getWeeklySiteSlots(params.priority, forecastTasks))
+    .map(item => item.site);
+  const weeklySiteIds = new Set(prioritySitesWithTasks.map(site => site.id));
   
   const weeklyTasks = prioritySitesWithTasks.reduce((sum, site) => 
     sum + (site.transport_tasks?.length || 0), 0);
@@ -128,6 +213,51 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
             </div>
           </div>
 
+          {/* 数据集校验：被剔除的记录和警告（展开查看明细） */}
+          {datasetValidation && (
+            <details style={{
+              marginBottom: '12px',
+              padding: '8px 10px',
+              borderRadius: '8px',
+              fontSize: '10px',
+              background: datasetValidation.rejectedRecords > 0 ? '#fef2f2' : datasetValidation.issues.length > 0 ? '#fffbeb' : '#f0fdf4',
+              border: `1px solid ${datasetValidation.rejectedRecords > 0 ? '#fecaca' : datasetValidation.issues.length > 0 ? '#fde68a' : '#bbf7d0'}`,
+              color: '#475569'
+            }}>
+              <summary style={{ cursor: datasetValidation.issues.length > 0 ? 'pointer' : 'default', fontWeight: '600' }}>
+                Data: {datasetValidation.validRecords}/{datasetValidation.totalRecords} records loaded
+                {datasetValidation.rejectedRecords > 0 && ` • ${datasetValidation.rejectedRecords} rejected`}
+                {datasetValidation.issues.length > 0
+                  ? ` • ${datasetValidation.issues.length} issue${datasetValidation.issues.length === 1 ? '' : 's'}`
+                  : ' • no issues'}
+              </summary>
+              {(Object.keys(datasetValidation.counts) as DatasetIssueCode[]).map(code => (
+                <div key={code} style={{ marginTop: '6px' }}>
+                  <div style={{ fontWeight: '600' }}>
+                    {ISSUE_LABELS[code]} ({datasetValidation.counts[code]})
+                  </div>
+                  <ul style={{ margin: '2px 0 0 0', paddingLeft: '14px', maxHeight: '90px', overflowY: 'auto' }}>
+                    {datasetValidation.issues.filter(issue => issue.code === code).map((issue, i) => (
+                      <li key={i} style={{ color: issue.severity === 'error' ? '#b91c1c' : '#92400e' }}>
+                        <strong>{issue.recordId}</strong>: {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </details>
+          )}
+
+          {/* 从租赁系统导出的 CSV 导入任务池 */}
+          {onImportDataset && (
+            <details style={{ marginBottom: '12px', fontSize: '10px', color: '#475569' }}>
+              <summary style={{ cursor: 'pointer', fontWeight: '600' }}>Import from CSV</summary>
+              <div style={{ marginTop: '6px' }}>
+                <CsvImport onImport={onImportDataset} disabled={isLoading} />
+              </div>
+            </details>
+          )}
+
           {/* 第一阶段：分析任务池按钮 */}
           {!taskPoolAnalyzed && (
             <div>
@@ -247,6 +377,25 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
                 </div>
               </div>
 
+              {/* 健康阈值：低于检查阈值安排检查，地图标记边框按等级着色 */}
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '10px', fontSize: '10px', color: '#475569' }}>
+                <span style={{ fontWeight: '600' }}>Health</span>
+                {([['inspect', 'Inspect <'], ['critical', 'Critical <']] as const).map(([key, label]) => (
+                  <label key={key} style={{ display: 'flex', alignItems: 'center', gap: '3px' }}>
+                    <span>{label}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={params.health[key]}
+                      disabled={isLoading}
+                      onChange={e => updateHealthThreshold(key, Number(e.target.value))}
+                      style={{ width: '42px', fontSize: '10px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+                    />
+                  </label>
+                ))}
+              </div>
+
               {/* 待完成任务总数 */}
               <div style={{
                 background: '#f8fafc',
@@ -262,6 +411,24 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
                 <span style={{ fontWeight: '600', color: '#64748b' }}>Total Pending Tasks</span>
                 <span style={{ fontWeight: '700', color: '#0f172a', fontSize: '14px' }}>{totalTasks + aiGeneratedTasks}</span>
               </div>
+              {forecastTasks > 0 && (
+                <div style={{
+                  borderRadius: '6px',
+                  padding: '6px 8px',
+                  border: '1px dashed #93c5fd',
+                  marginTop: '-4px',
+                  marginBottom: '8px',
+                  fontSize: '10px',
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  color: '#1e40af',
+                  fontStyle: 'italic'
+                }}>
+                  <span style={{ fontWeight: '600' }}>+ Forecast this week (not booked yet)</span>
+                  <span style={{ fontWeight: '700' }}>~{forecastTasks}</span>
+                </div>
+              )}
 
               {/* 本周执行计划 */}
               <div style={{
@@ -281,11 +448,16 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
                       SITES
                     </div>
                     <div style={{ fontSize: '18px', fontWeight: '700', color: '#1e3a8a' }}>
-                      {WEEKLY_PRIORITY_CAPACITY}
+                      {prioritySitesWithTasks.length}
                     </div>
                     <div style={{ fontSize: '7px', color: '#64748b' }}>
                       of {activeSites}
                     </div>
+                    {forecastTasks > 0 && (
+                      <div style={{ fontSize: '7px', color: '#1e40af', fontStyle: 'italic' }}>
+                        + ~{forecastTasks} forecast
+                      </div>
+                    )}
                   </div>
                   
                   <div style={{ textAlign: 'center' }}>
@@ -298,6 +470,11 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
                     <div style={{ fontSize: '7px', color: '#64748b' }}>
                       operations
                     </div>
+                    {forecastTasks > 0 && (
+                      <div style={{ fontSize: '7px', color: '#1e40af', fontStyle: 'italic' }}>
+                        + ~{forecastTasks} forecast
+                      </div>
+                    )}
                   </div>
                   
                   <div style={{ textAlign: 'center' }}>
@@ -305,7 +482,7 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
                       COST
                     </div>
                     <div style={{ fontSize: '18px', fontWeight: '700', color: '#1e3a8a' }}>
-                      ${(WEEKLY_PRIORITY_CAPACITY * 225 / 1000).toFixed(1)}K
+                      ${((prioritySitesWithTasks.length + forecastTasks) * 225 / 1000).toFixed(1)}K
                     </div>
                     <div style={{ fontSize: '7px', color: '#64748b' }}>
                       baseline
@@ -315,11 +492,511 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
                 <div style={{ fontSize: '9px', color: '#64748b', textAlign: 'center', fontStyle: 'italic' }}>
                   AI-prioritized for this week
             </div>
+
+                {/* 需求预测：未来几周预计新增的送货/回收（括号内为已知合同日期排定的数量） */}
+                {demandForecast.weeks.length > 0 && (
+                  <div style={{ marginTop: '8px', paddingTop: '8px', borderTop: '1px solid #bfdbfe', fontSize: '9px', color: '#475569' }}>
+                    <div style={{ fontWeight: '700', color: '#1e40af', marginBottom: '4px' }}>
+                      DEMAND FORECAST • ~{forecastTasks} new tasks expected this week (capacity reserved in the plan)
+                    </div>
+                    <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr 1fr', gap: '2px 8px' }}>
+                      <span style={{ fontWeight: '600' }}>Week of</span>
+                      <span style={{ fontWeight: '600' }}>Deliveries</span>
+                      <span style={{ fontWeight: '600' }}>Collections</span>
+                      {demandForecast.weeks.map(week => (
+                        <div key={week.weekStart} style={{ display: 'contents' }}>
+                          <span>{week.weekStart.slice(5)}</span>
+                          <span>{week.deliveries.toFixed(1)} ({week.scheduledDeliveries})</span>
+                          <span>{week.collections.toFixed(1)} ({week.scheduledCollections})</span>
+                        </div>
+                      ))}
+                    </div>
+                    {forecastTopSeries.length > 0 && (
+                      <div style={{ marginTop: '4px' }}>
+                        Busiest: {forecastTopSeries.map(series => `${series.area} ${series.category.replace(/_/g, ' ')}`).join(', ')}
+                      </div>
+                    )}
+                    <div style={{ marginTop: '2px', color: '#94a3b8' }}>
+                      Holt smoothing on {demandForecast.historyWeeks} weeks of contract history (parentheses: booked contract dates).
+                      Collections include {demandForecast.weeks.reduce((sum, week) => sum + week.predictedCollections, 0).toFixed(1)} hire ends predicted from customer and equipment history
+                    </div>
+                  </div>
+                )}
           </div>
             </>
           )}
         </div>
 
+        {/* 优先级引擎卡片：各因素权重和本周容量 */}
+        <div style={{
+          background: 'white',
+          borderRadius: '16px',
+          boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)',
+          border: '1px solid #f1f5f9',
+          padding: '16px 20px',
+          flexShrink: 0
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '10px' }}>
+            <div style={{
+              padding: '6px',
+              background: 'linear-gradient(135deg, #f59e0b, #d97706)',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(245, 158, 11, 0.3)'
+            }}>
+              <SlidersHorizontal style={{ width: '16px', height: '16px', color: 'white' }} />
+            </div>
+            <div style={{ flex: 1 }}>
+              <h3 style={{ fontSize: '15px', fontWeight: '600', color: '#1e293b', marginBottom: '0', lineHeight: '1.2' }}>
+                Priority
+              </h3>
+              <p style={{ fontSize: '10px', color: '#94a3b8', marginTop: '2px' }}>
+                Points per factor used to pick this week's sites
+              </p>
+            </div>
+            <button
+              onClick={() => setParams(prev => ({
+                ...prev,
+                priority: { ...DEFAULT_PRIORITY_CONFIG, referenceDate: prev.priority.referenceDate }
+              }))}
+              disabled={isLoading}
+              style={{ fontSize: '10px', color: '#64748b', background: 'none', border: 'none', cursor: 'pointer', textDecoration: 'underline' }}
+            >
+              reset
+            </button>
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 10px' }}>
+            {PRIORITY_WEIGHT_FIELDS.map(({ key, label }) => (
+              <label key={key} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '4px', fontSize: '10px', color: '#475569' }}>
+                <span>{label}</span>
+                <input
+                  type="number"
+                  step={1}
+                  value={params.priority.weights[key]}
+                  disabled={isLoading}
+                  onChange={e => {
+                    const value = Number(e.target.value);
+                    if (!Number.isFinite(value)) return;
+                    setParams(prev => ({
+                      ...prev,
+                      priority: { ...prev.priority, weights: { ...prev.priority.weights, [key]: value } }
+                    }));
+                  }}
+                  style={{ width: '44px', fontSize: '10px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+                />
+              </label>
+            ))}
+            <label
+              title="Site visits per week, including the ones reserved for this week's demand forecast"
+              style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '4px', fontSize: '10px', color: '#475569' }}
+            >
+              <span>Sites / week</span>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={params.priority.weeklyCapacity}
+                disabled={isLoading}
+                onChange={e => {
+                  const value = Math.floor(Number(e.target.value));
+                  if (Number.isFinite(value) && value > 0) {
+                    setParams(prev => ({ ...prev, priority: { ...prev.priority, weeklyCapacity: value } }));
+                  }
+                }}
+                style={{ width: '44px', fontSize: '10px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+              />
+            </label>
+            <label
+              title="Customers with at least this many sites in the task pool count as key customers"
+              style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '4px', fontSize: '10px', color: '#475569' }}
+            >
+              <span>Key cust. ≥ sites</span>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={params.priority.keyCustomerMinSites}
+                disabled={isLoading}
+                onChange={e => {
+                  const value = Math.floor(Number(e.target.value));
+                  if (Number.isFinite(value) && value > 0) {
+                    setParams(prev => ({ ...prev, priority: { ...prev.priority, keyCustomerMinSites: value } }));
+                  }
+                }}
+                style={{ width: '44px', fontSize: '10px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+              />
+            </label>
+          </div>
+
+          {/* 计划周与积压：推迟的工地跨规划周期保留，每推迟一周优先级提高 */}
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '6px', marginTop: '8px', paddingTop: '8px', borderTop: '1px solid #fde68a', fontSize: '10px', color: '#475569' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              <span>Week of</span>
+              <input
+                type="date"
+                value={params.priority.referenceDate?.slice(0, 10) ?? ''}
+                disabled={isLoading}
+                onChange={e => {
+                  const value = e.target.value;
+                  if (value) setParams(prev => ({ ...prev, priority: { ...prev.priority, referenceDate: `${value}T00:00:00` } }));
+                }}
+                style={{ fontSize: '10px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+              />
+            </label>
+            <span title="Sites left out of earlier plans; they gain priority for every week they wait">
+              Backlog: {backlogSize} site{backlogSize === 1 ? '' : 's'}
+              {backlogSize > 0 && onClearBacklog && (
+                <button
+                  onClick={onClearBacklog}
+                  disabled={isLoading}
+                  style={{ marginLeft: '4px', fontSize: '10px', color: '#64748b', background: 'none', border: 'none', cursor: 'pointer', textDecoration: 'underline', padding: 0 }}
+                >
+                  clear
+                </button>
+              )}
+            </span>
+          </div>
+        </div>
+
+        {/* 仓库设置卡片 */}
+        <div style={{
+          background: 'white',
+          borderRadius: '16px',
+          boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)',
+          border: '1px solid #f1f5f9',
+          padding: '16px 20px',
+          flexShrink: 0
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '10px' }}>
+            <div style={{
+              padding: '6px',
+              background: 'linear-gradient(135deg, #8b5cf6, #7c3aed)',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(139, 92, 246, 0.3)'
+            }}>
+              <Warehouse style={{ width: '16px', height: '16px', color: 'white' }} />
+            </div>
+            <div>
+              <h3 style={{ fontSize: '15px', fontWeight: '600', color: '#1e293b', marginBottom: '0', lineHeight: '1.2' }}>
+                Depots
+              </h3>
+              <p style={{ fontSize: '10px', color: '#94a3b8', marginTop: '2px' }}>
+                {depotCount} depots in contracts
+              </p>
+            </div>
+          </div>
+
+          <label style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            fontSize: '11px',
+            color: '#475569',
+            cursor: isLoading ? 'not-allowed' : 'pointer'
+          }}>
+            <input
+              type="checkbox"
+              checked={params.depotAssignment === 'cheapest'}
+              disabled={isLoading}
+              onChange={e => setParams(prev => ({
+                ...prev,
+                depotAssignment: e.target.checked ? 'cheapest' : 'owning'
+              }))}
+            />
+            <span>Allow serving sites from the nearest depot</span>
+          </label>
+          <div style={{ fontSize: '9px', color: '#94a3b8', marginTop: '4px', paddingLeft: '22px' }}>
+            {params.depotAssignment === 'cheapest'
+              ? 'Sites are routed from the cheapest depot'
+              : "Sites are routed from their contract's own depot"}
+          </div>
+
+          {/* 车辆班次：超出班次或迟于工地时间窗的路线会被惩罚 */}
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            fontSize: '11px',
+            color: '#475569',
+            marginTop: '10px'
+          }}>
+            <span>Vehicle shift</span>
+            <input
+              type="time"
+              value={params.shiftStart}
+              disabled={isLoading}
+              onChange={e => setParams(prev => ({ ...prev, shiftStart: e.target.value }))}
+              style={{ fontSize: '11px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+            />
+            <span>–</span>
+            <input
+              type="time"
+              value={params.shiftEnd}
+              disabled={isLoading}
+              onChange={e => setParams(prev => ({ ...prev, shiftEnd: e.target.value }))}
+              style={{ fontSize: '11px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+            />
+          </div>
+
+          {/* 初始聚类：每辆车的工地分组（路线优化的起点），均衡模式限制每车的站点数或工作量 */}
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            fontSize: '11px',
+            color: '#475569',
+            marginTop: '10px'
+          }}>
+            <span>Clustering</span>
+            <select
+              value={params.clustering.method}
+              disabled={isLoading}
+              onChange={e => setParams(prev => ({
+                ...prev,
+                clustering: { ...prev.clustering, method: e.target.value as ClusteringMethod }
+              }))}
+              style={{ fontSize: '11px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+            >
+              <option value="kmeans">k-means</option>
+              <option value="kmedoids">k-medoids</option>
+            </select>
+            <select
+              value={params.clustering.balance}
+              disabled={isLoading}
+              onChange={e => setParams(prev => ({
+                ...prev,
+                clustering: { ...prev.clustering, balance: e.target.value as ClusterBalance }
+              }))}
+              style={{ fontSize: '11px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+            >
+              <option value="workload">balance workload</option>
+              <option value="stops">balance stops</option>
+              <option value="none">unbalanced</option>
+            </select>
+          </div>
+
+          {/* 行驶矩阵来源：规划前为全部工地和仓库构建一次，远程来源失败时回退为道路系数估算 */}
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            fontSize: '11px',
+            color: '#475569',
+            marginTop: '8px'
+          }}>
+            <span>Travel times</span>
+            <select
+              value={params.travelProvider}
+              disabled={isLoading}
+              onChange={e => setParams(prev => ({ ...prev, travelProvider: e.target.value as TravelMatrixProviderId }))}
+              style={{ fontSize: '11px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+            >
+              {TRAVEL_MATRIX_PROVIDERS.map(provider => {
+                const needsToken = provider.id === 'mapbox' && !hasMapboxToken();
+                const needsServer = provider.id === 'osrm' && !hasOsrmServer();
+                return (
+                  <option key={provider.id} value={provider.id} disabled={needsToken || needsServer}>
+                    {provider.name}{needsToken ? ' (no token)' : needsServer ? ' (no server)' : ''}
+                  </option>
+                );
+              })}
+            </select>
+          </div>
+
+          {/* 道路路线缓存（内存 + IndexedDB）：命中的路线不再调用 Directions API */}
+          <div
+            title="Road geometry fetched from Mapbox Directions is cached across runs and page reloads"
+            style={{ fontSize: '10px', color: '#94a3b8', marginTop: '6px' }}
+          >
+            Directions cache: {directionsCache.entries} route{directionsCache.entries === 1 ? '' : 's'} · {directionsCache.hits} hit{directionsCache.hits === 1 ? '' : 's'} / {directionsCache.misses} miss{directionsCache.misses === 1 ? '' : 'es'}
+            <button
+              onClick={() => { void clearDirectionsCache(); }}
+              disabled={isLoading}
+              style={{ marginLeft: '4px', fontSize: '10px', color: '#64748b', background: 'none', border: 'none', cursor: 'pointer', textDecoration: 'underline', padding: 0 }}
+            >
+              clear
+            </button>
+          </div>
+
+          {/* 随机种子：留空则每次运行使用新种子，填入结果中的种子可复现已批准的方案 */}
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            fontSize: '11px',
+            color: '#475569',
+            marginTop: '8px'
+          }}>
+            <span>Seed</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={params.seed ?? ''}
+              placeholder="random"
+              disabled={isLoading}
+              onChange={e => {
+                const value = e.target.value.trim();
+                setParams(prev => ({
+                  ...prev,
+                  seed: value === '' || !Number.isFinite(Number(value)) ? null : Math.floor(Number(value))
+                }));
+              }}
+              style={{ width: '110px', fontSize: '11px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+            />
+            {params.seed !== null && (
+              <button
+                onClick={() => setParams(prev => ({ ...prev, seed: null }))}
+                disabled={isLoading}
+                style={{ fontSize: '10px', color: '#64748b', background: 'none', border: 'none', cursor: 'pointer', textDecoration: 'underline' }}
+              >
+                clear
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* 车队卡片：车辆可用性、所属仓库、载重和每公里成本 */}
+        <div style={{
+          background: 'white',
+          borderRadius: '16px',
+          boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)',
+          border: '1px solid #f1f5f9',
+          padding: '16px 20px',
+          flexShrink: 0
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '10px' }}>
+            <div style={{
+              padding: '6px',
+              background: 'linear-gradient(135deg, #0ea5e9, #0284c7)',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(14, 165, 233, 0.3)'
+            }}>
+              <Truck style={{ width: '16px', height: '16px', color: 'white' }} />
+            </div>
+            <div style={{ flex: 1 }}>
+              <h3 style={{ fontSize: '15px', fontWeight: '600', color: '#1e293b', marginBottom: '0', lineHeight: '1.2' }}>
+                Fleet
+              </h3>
+              <p style={{ fontSize: '10px', color: availableVehicles > 0 ? '#94a3b8' : '#dc2626', marginTop: '2px' }}>
+                {availableVehicles > 0
+                  ? `${availableVehicles} of ${params.fleet.length} vehicles available`
+                  : 'No vehicles available – enable at least one'}
+              </p>
+            </div>
+            <button
+              onClick={() => setParams(prev => ({ ...prev, fleet: [...prev.fleet, createVehicle(prev.fleet)] }))}
+              disabled={isLoading}
+              title="Add vehicle"
+              style={{
+                padding: '4px',
+                background: 'none',
+                border: '1px solid #e2e8f0',
+                borderRadius: '6px',
+                color: '#475569',
+                cursor: isLoading ? 'not-allowed' : 'pointer',
+                display: 'flex'
+              }}
+            >
+              <Plus style={{ width: '14px', height: '14px' }} />
+            </button>
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {params.fleet.map(vehicle => (
+              <div
+                key={vehicle.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
+                  fontSize: '10px',
+                  color: '#475569',
+                  opacity: vehicle.available ? 1 : 0.5
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={vehicle.available}
+                  disabled={isLoading}
+                  title={`${vehicle.id} available`}
+                  onChange={e => updateVehicle(vehicle.id, { available: e.target.checked })}
+                />
+                <input
+                  type="text"
+                  value={vehicle.name}
+                  disabled={isLoading}
+                  onChange={e => updateVehicle(vehicle.id, { name: e.target.value })}
+                  style={{ width: '52px', fontSize: '10px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+                />
+                <select
+                  value={vehicle.typeId}
+                  disabled={isLoading}
+                  title={`Carries: ${getVehicleType(vehicle.typeId).categories.join(', ')}`}
+                  onChange={e => {
+                    const type = getVehicleType(e.target.value as VehicleTypeId);
+                    updateVehicle(vehicle.id, { typeId: type.id, capacity: type.capacity });
+                  }}
+                  style={{ width: '58px', fontSize: '10px', padding: '2px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+                >
+                  {VEHICLE_TYPES.map(type => (
+                    <option key={type.id} value={type.id}>{type.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={vehicle.depotId}
+                  disabled={isLoading}
+                  onChange={e => updateVehicle(vehicle.id, { depotId: e.target.value })}
+                  style={{ width: '64px', fontSize: '10px', padding: '2px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+                >
+                  {DEPOTS.map(depot => (
+                    <option key={depot.id} value={depot.id}>{depot.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  value={vehicle.capacity.weightKg / 1000}
+                  disabled={isLoading}
+                  title="Payload (t)"
+                  onChange={e => {
+                    const tonnes = Number(e.target.value);
+                    if (Number.isFinite(tonnes) && tonnes > 0) {
+                      updateVehicle(vehicle.id, { capacity: { ...vehicle.capacity, weightKg: tonnes * 1000 } });
+                    }
+                  }}
+                  style={{ width: '40px', fontSize: '10px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+                />
+                <span>t</span>
+                <span>$</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={vehicle.costPerKm}
+                  disabled={isLoading}
+                  title="Cost per km (AUD)"
+                  onChange={e => {
+                    const cost = Number(e.target.value);
+                    if (Number.isFinite(cost) && cost >= 0) updateVehicle(vehicle.id, { costPerKm: cost });
+                  }}
+                  style={{ width: '40px', fontSize: '10px', padding: '2px 4px', border: '1px solid #e2e8f0', borderRadius: '4px' }}
+                />
+                <span>/km</span>
+                <button
+                  onClick={() => setParams(prev => ({ ...prev, fleet: prev.fleet.filter(v => v.id !== vehicle.id) }))}
+                  disabled={isLoading}
+                  title={`Remove ${vehicle.name}`}
+                  style={{ marginLeft: 'auto', padding: '0', background: 'none', border: 'none', color: '#94a3b8', cursor: isLoading ? 'not-allowed' : 'pointer', display: 'flex' }}
+                >
+                  <X style={{ width: '12px', height: '12px' }} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* 资产状态卡片 - 固定高度，内部滚动 */}
         <div style={{
           background: 'linear-gradient(135deg, #f0fdf4, #dcfce7)',
@@ -372,11 +1049,8 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
                   Loading task pool...
                 </div>
               ) : (
-                // 只显示有运输任务的工地，并按任务数量排序
-                assets
-                  .filter(asset => asset.transport_tasks && asset.transport_tasks.length > 0)
-                  .sort((a, b) => (b.transport_tasks?.length || 0) - (a.transport_tasks?.length || 0))
-                  .map(asset => {
+                // 只显示有运输任务的工地，按优先级分数排序
+                rankedSites.map(({ site: asset, priority }) => {
                   const deliveryCount = asset.transport_tasks?.filter((t: any) => 
                     t.type.toLowerCase().includes('delivery')).length || 0;
                   const collectionCount = asset.transport_tasks?.filter((t: any) => 
@@ -403,6 +1077,20 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
                             {asset.customer || 'Site'} {asset.location?.suburb && `• ${asset.location.suburb}`}
                       </div>
                     </div>
+                        <div
+                          title={priority.breakdown.map(item => `${item.label}: ${formatPoints(item.points)}`).join('\n')}
+                          style={{
+                            padding: '2px 6px',
+                            marginRight: '6px',
+                            borderRadius: '6px',
+                            fontSize: '10px',
+                            fontWeight: '700',
+                            background: weeklySiteIds.has(asset.id) ? '#dbeafe' : '#f1f5f9',
+                            color: weeklySiteIds.has(asset.id) ? '#1e40af' : '#94a3b8'
+                          }}
+                        >
+                          {priority.score}
+                        </div>
                         <div style={{
                           display: 'flex',
                           alignItems: 'center',
@@ -447,6 +1135,10 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
                           </div>
                         )}
                       </div>
+                      {/* 优先级评分明细 */}
+                      <div style={{ fontSize: '9px', color: '#94a3b8', lineHeight: 1.4 }}>
+                        {priority.breakdown.map(item => `${item.label} ${formatPoints(item.points)}`).join(' · ')}
+                      </div>
                     </div>
                   );
                 })
@@ -458,14 +1150,14 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
 
       {/* 优化按钮 - 固定在底部（只在任务池分析后显示） */}
       {taskPoolAnalyzed && (
-      <div style={{ padding: '0 24px 24px 24px', flexShrink: 0 }}>
+      <div style={{ padding: '0 24px 24px 24px', flexShrink: 0, display: 'flex', gap: '8px' }}>
         <button 
           onClick={onOptimize}
-          disabled={isLoading}
+          disabled={!canOptimize}
           style={{
-            width: '100%',
+            flex: 1,
             padding: '14px',
-            background: isLoading 
+            background: !canOptimize 
               ? 'linear-gradient(135deg, #cbd5e1, #94a3b8)' 
                 : 'linear-gradient(135deg, #10b981, #059669)',
             color: 'white',
@@ -473,8 +1165,8 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
             fontWeight: '700',
             borderRadius: '12px',
             border: 'none',
-            cursor: isLoading ? 'not-allowed' : 'pointer',
-            boxShadow: isLoading 
+            cursor: !canOptimize ? 'not-allowed' : 'pointer',
+            boxShadow: !canOptimize 
               ? 'none' 
                 : '0 10px 15px -3px rgba(16, 185, 129, 0.3)',
             transition: 'all 0.3s',
@@ -486,27 +1178,69 @@ const ControlPanel = ({ params: _params, setParams: _setParams, onAnalyzeTaskPoo
             overflow: 'hidden'
           }}
           onMouseEnter={e => {
-            if (!isLoading) {
+            if (canOptimize) {
               e.currentTarget.style.transform = 'translateY(-2px)';
                 e.currentTarget.style.boxShadow = '0 20px 25px -5px rgba(16, 185, 129, 0.3)';
             }
           }}
           onMouseLeave={e => {
             e.currentTarget.style.transform = 'translateY(0)';
-            e.currentTarget.style.boxShadow = isLoading 
+            e.currentTarget.style.boxShadow = !canOptimize 
               ? 'none' 
                 : '0 10px 15px -3px rgba(16, 185, 129, 0.3)';
           }}
         >
           {isLoading ? (
             <>
-              <LoaderCircle style={{ width: '18px', height: '18px', animation: 'spin 1s linear infinite' }} />
-                <span>Optimizing Routes...</span>
+              <LoaderCircle style={{ width: '18px', height: '18px', animation: isPaused ? 'none' : 'spin 1s linear infinite' }} />
+                <span>{isPaused ? 'Paused' : 'Optimizing Routes...'}</span>
             </>
           ) : (
               <span>Optimize Routes</span>
           )}
         </button>
+        {isLoading && onTogglePause && (
+          <button
+            onClick={onTogglePause}
+            title={isPaused ? 'Resume optimization' : 'Pause optimization'}
+            style={{
+              padding: '0 14px',
+              background: 'white',
+              color: '#475569',
+              borderRadius: '12px',
+              border: '1px solid #cbd5e1',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center'
+            }}
+          >
+            {isPaused
+              ? <Play style={{ width: '16px', height: '16px' }} />
+              : <Pause style={{ width: '16px', height: '16px' }} />}
+          </button>
+        )}
+        {isLoading && onCancelOptimize && (
+          <button
+            onClick={onCancelOptimize}
+            title="Cancel optimization"
+            style={{
+              padding: '0 14px',
+              background: 'white',
+              color: '#dc2626',
+              fontSize: '13px',
+              fontWeight: '600',
+              borderRadius: '12px',
+              border: '1px solid #fca5a5',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px'
+            }}
+          >
+            <X style={{ width: '14px', height: '14px' }} />
+            Cancel
+          </button>
+        )}
       </div>
       )}
 
@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import {
+  CSV_FIELDS,
+  CSV_FILE_KINDS,
+  createImportFile,
+  guessColumnMapping,
+  previewCsvImport,
+  type CsvFileKind,
+  type CsvImportFile,
+} from '../api/csvImport';
+import type { ContractDataset, DatasetValidationReport } from '../api/dataset';
+
+interface CsvImportProps {
+  onImport: (dataset: ContractDataset, validation: DatasetValidationReport) => void;
+  disabled?: boolean;
+}
+
+const selectStyle = { fontSize: '10px', padding: '1px 2px', border: '1px solid #e2e8f0', borderRadius: '4px', maxWidth: '120px' };
+
+// --- Component ---
+// 拖入（或选择）租赁系统导出的 CSV：识别表类型 → 调整列映射 → 预览识别结果 → 导入
+const CsvImport = ({ onImport, disabled = false }: CsvImportProps) => {
+  const [files, setFiles] = useState<CsvImportFile[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = useMemo(() => files.length > 0 ? previewCsvImport(files) : null, [files]);
+  const hasContracts = files.some(file => file.kind === 'contracts');
+  const canImport = !disabled && preview !== null && hasContracts && preview.missingFields.length === 0 && preview.sites > 0;
+
+  const addFiles = async (list: FileList | null) => {
+    if (!list || disabled) return;
+    setError(null);
+    try {
+      const added = await Promise.all(Array.from(list).map(async file => createImportFile(file.name, await file.text())));
+      const empty = added.filter(file => file.table.headers.length === 0);
+      if (empty.length > 0) setError(`No header row found in ${empty.map(file => file.name).join(', ')}`);
+      setFiles(prev => [...prev, ...added.filter(file => file.table.headers.length > 0)]);
+    } catch (err) {
+      setError(`Could not read file: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const updateFile = (index: number, changes: Partial<CsvImportFile>) => {
+    setFiles(prev => prev.map((file, i) => i === index ? { ...file, ...changes } : file));
+  };
+
+  const changeKind = (index: number, kind: CsvFileKind) => {
+    updateFile(index, { kind, mapping: guessColumnMapping(files[index].table.headers, kind) });
+  };
+
+  const handleImport = () => {
+    if (!preview || !canImport) return;
+    onImport(preview.dataset, preview.report);
+    setFiles([]);
+  };
+
+  return (
+    <div style={{ fontSize: '10px', color: '#475569' }}>
+      <label
+        onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={e => { e.preventDefault(); setIsDragging(false); addFiles(e.dataTransfer.files); }}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '6px',
+          padding: '10px',
+          borderRadius: '8px',
+          border: `1px dashed ${isDragging ? '#0ea5e9' : '#cbd5e1'}`,
+          background: isDragging ? '#f0f9ff' : '#f8fafc',
+          cursor: disabled ? 'not-allowed' : 'pointer'
+        }}
+      >
+        <Upload style={{ width: '14px', height: '14px' }} />
+        <span>Drop contract, equipment and transport CSVs or click to choose</span>
+        <input type="file" accept=".csv,text/csv" multiple disabled={disabled} style={{ display: 'none' }}
+          onChange={e => { addFiles(e.target.files); e.target.value = ''; }} />
+      </label>
+      {error && <div style={{ marginTop: '4px', color: '#b91c1c' }}>{error}</div>}
+
+      {/* 每个文件：表类型和列映射 */}
+      {files.map((file, index) => (
+        <div key={`${file.name}-${index}`} style={{ marginTop: '8px', padding: '6px 8px', border: '1px solid #e2e8f0', borderRadius: '6px' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <strong style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={file.name}>{file.name}</strong>
+            <span>{file.table.rows.length} rows</span>
+            <select value={file.kind} onChange={e => changeKind(index, e.target.value as CsvFileKind)} style={selectStyle}>
+              {CSV_FILE_KINDS.map(kind => <option key={kind.id} value={kind.id}>{kind.label}</option>)}
+            </select>
+            <button onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))} title="Remove file"
+              style={{ background: 'none', border: 'none', cursor: 'pointer', padding: 0, color: '#94a3b8' }}>
+              <X style={{ width: '12px', height: '12px' }} />
+            </button>
+          </div>
+          <details style={{ marginTop: '4px' }}>
+            <summary style={{ cursor: 'pointer' }}>Column mapping</summary>
+            <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '3px 6px', marginTop: '4px', alignItems: 'center' }}>
+              {CSV_FIELDS[file.kind].map(field => (
+                <label key={field.key} style={{ display: 'contents' }}>
+                  <span style={{ color: field.required && file.mapping[field.key] === -1 ? '#b91c1c' : undefined }}>
+                    {field.label}{field.required ? ' *' : ''}
+                  </span>
+                  <select
+                    value={file.mapping[field.key] ?? -1}
+                    onChange={e => updateFile(index, { mapping: { ...file.mapping, [field.key]: Number(e.target.value) } })}
+                    style={selectStyle}
+                  >
+                    <option value={-1}>(not mapped)</option>
+                    {file.table.headers.map((header, column) => <option key={column} value={column}>{header || `Column ${column + 1}`}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </details>
+        </div>
+      ))}
+
+      {/* 预览：识别出的工地、任务和客户 */}
+      {preview && (
+        <div style={{ marginTop: '8px', padding: '8px', background: '#f0f9ff', border: '1px solid #bae6fd', borderRadius: '6px' }}>
+          <div style={{ fontWeight: '600', color: '#0369a1' }}>
+            {preview.sites} sites ({preview.sitesWithTasks} with tasks) • {preview.tasks} tasks • {preview.customers} customers
+          </div>
+          <div style={{ marginTop: '2px' }}>
+            {preview.deliveries} deliveries • {preview.collections} collections
+            {preview.report.rejectedRecords > 0 && ` • ${preview.report.rejectedRecords} contracts rejected`}
+            {preview.report.issues.length > 0 && ` • ${preview.report.issues.length} validation issues`}
+          </div>
+          {!hasContracts && <div style={{ marginTop: '2px', color: '#b91c1c' }}>A contracts file with site coordinates is required</div>}
+          {preview.missingFields.length > 0 && (
+            <div style={{ marginTop: '2px', color: '#b91c1c' }}>Map required columns: {preview.missingFields.join(', ')}</div>
+          )}
+          {preview.unmatchedRows > 0 && (
+            <div style={{ marginTop: '2px', color: '#92400e' }}>{preview.unmatchedRows} equipment/transport rows have no matching contract and are skipped</div>
+          )}
+          <div style={{ display: 'flex', gap: '6px', marginTop: '6px' }}>
+            <button onClick={handleImport} disabled={!canImport}
+              style={{ flex: 1, padding: '5px', fontSize: '11px', fontWeight: '600', color: 'white', border: 'none', borderRadius: '6px', background: canImport ? '#0284c7' : '#94a3b8', cursor: canImport ? 'pointer' : 'not-allowed' }}>
+              Import {preview.sites} sites
+            </button>
+            <button onClick={() => setFiles([])}
+              style={{ padding: '5px 8px', fontSize: '11px', color: '#475569', border: '1px solid #e2e8f0', borderRadius: '6px', background: 'white', cursor: 'pointer' }}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CsvImport;
@@ -1,9 +1,19 @@
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useState } from 'react';
 import mapboxgl from 'mapbox-gl';
 import type { Marker } from 'mapbox-gl';
 import type { OptimizationResult, Asset } from '../api/client';
-
-mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_TOKEN;
+import { getDepot } from '../api/depots';
+import { formatClock } from '../api/timeWindows';
+import { fetchDirections } from '../api/directions';
+import { MAPBOX_TOKEN, OFFLINE_MODE } from '../api/mapServices';
+import { getVehicleColor } from './vehicleColors';
+import { HEALTH_COLORS, STATUS_COLORS } from './siteColors';
+import { getHealthBand, type HealthThresholds } from '../api/healthModel';
+import { describeHireDuration } from '../api/hireDuration';
+import OfflineMap from './OfflineMap';
+
+// token 只来自环境变量（见 mapServices），离线模式下不创建 Mapbox 地图，改用 OfflineMap
+mapboxgl.accessToken = MAPBOX_TOKEN ?? '';
 
 // 扩展window对象类型
 declare global {
@@ -16,35 +26,34 @@ interface MapViewProps {
   initialAssets: Asset[];
   optimizationResults: OptimizationResult | null;
   optimizationProgress?: any; // 实时优化进度
+  onSelectDay?: (day: number) => void; // 切换周计划中显示的工作日
+  healthThresholds?: HealthThresholds; // 标记边框按健康等级着色
 }
 
 // --- Helper Functions & Constants ---
-// 工地状态颜色映射
-const STATUS_COLORS: Record<string, string> = {
-  'pending_delivery': '#f59e0b',     // amber-500 - 等待送货
-  'pending_collection': '#8b5cf6',   // violet-500 - 等待回收
-  'active_operations': '#3b82f6',    // blue-500 - 有多个运输任务
-  'deployed': '#22c55e',             // green-500 - 已部署稳定运行
-  'competitor_rental': '#ef4444',    // red-500 - 竞争对手租赁
-  
-  // 兼容旧状态
-  'available': '#f59e0b',
-  'in_use': '#3b82f6',
-  'needs_inspection': '#f97316',
-  'rented_from_competitor': '#ef4444',
-};
 
-const ROUTE_COLORS = ['#16a34a', '#c026d3', '#db2777', '#0ea5e9', '#f59e0b', '#8b5cf6']; // green, fuchsia, pink, cyan, amber, violet
+// 移除ID以指定前缀开头的图层和数据源（路线数量随车队大小变化）
+const removeLayersByPrefix = (mapInstance: mapboxgl.Map, prefix: string) => {
+  const style = mapInstance.getStyle();
+  if (!style) return;
+  style.layers
+    .filter(layer => layer.id.startsWith(prefix))
+    .forEach(layer => mapInstance.removeLayer(layer.id));
+  Object.keys(style.sources)
+    .filter(id => id.startsWith(prefix))
+    .forEach(id => mapInstance.removeSource(id));
+};
 
 // --- Component ---
-const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: MapViewProps) => {
+const MapView = ({ initialAssets, optimizationResults, optimizationProgress, onSelectDay, healthThresholds }: MapViewProps) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const markers = useRef<Marker[]>([]);
+  const [showClusters, setShowClusters] = useState(false); // 显示初始聚类叠加层
 
   // Effect 1: Initialize Map
   useEffect(() => {
-    if (map.current || !mapContainer.current) return;
+    if (map.current || !mapContainer.current || OFFLINE_MODE) return;
     map.current = new mapboxgl.Map({
       container: mapContainer.current,
       style: 'mapbox://styles/mapbox/light-v11',
@@ -87,13 +96,14 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
     const assetsToDisplay = Array.from(uniqueLocations.values());
     
     assetsToDisplay.forEach(asset => {
+      const healthBand = asset.health_score !== undefined ? getHealthBand(asset.health_score, healthThresholds) : 'good';
       const el = document.createElement('div');
       el.className = 'marker';
       el.style.backgroundColor = STATUS_COLORS[asset.status] || '#64748b';
       el.style.width = '20px';
       el.style.height = '20px';
       el.style.borderRadius = '50%';
-      el.style.border = '3px solid white';
+      el.style.border = `3px solid ${HEALTH_COLORS[healthBand]}`;
       el.style.boxShadow = '0 2px 8px rgba(0,0,0,0.3)';
       el.style.cursor = 'pointer';
       el.style.transition = 'width 0.2s, height 0.2s, box-shadow 0.2s';
@@ -152,6 +162,9 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
           <div style="font-size: 11px; color: #64748b; margin-bottom: 8px; padding-bottom: 6px; border-bottom: 1px solid #e2e8f0;">
             ${asset.customer ? `👤 Customer: <strong>${asset.customer}</strong>` : 'Contract Site'}
             ${asset.location?.suburb ? `<br/>📍 ${asset.location.suburb}` : ''}
+            ${asset.timeWindow ? `<br/>🕒 Access ${formatClock(asset.timeWindow.start)}–${formatClock(asset.timeWindow.end)}` : ''}
+            ${asset.health ? `<br/>🩺 Health <strong style="color: ${healthBand === 'good' ? '#16a34a' : HEALTH_COLORS[healthBand]};">${asset.health.score}/100</strong> • ${asset.health.lastInspection ? `inspected ${asset.health.daysSinceInspection} days ago` : 'never inspected'}` : ''}
+            ${asset.hire ? `<br/>📅 ${describeHireDuration(asset.hire)}` : ''}
           </div>
           <div style="display: flex; flex-direction: column; gap: 6px; font-size: 12px;">
             <div style="background: ${STATUS_COLORS[asset.status]}15; padding: 4px 8px; border-radius: 5px; border-left: 3px solid ${STATUS_COLORS[asset.status]}; display: inline-flex; flex-direction: column; max-width: 140px;">
@@ -185,41 +198,48 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
       markers.current.push(marker);
     });
 
-    // Add main depot marker (Melbourne CBD - Real depot location)
-    const depotEl = document.createElement('div');
-    depotEl.style.backgroundColor = '#8b5cf6'; // purple
-    depotEl.style.width = '35px';
-    depotEl.style.height = '35px';
-    depotEl.style.borderRadius = '6px';
-    depotEl.style.border = '3px solid white';
-    depotEl.style.boxShadow = '0 2px 8px rgba(139, 92, 246, 0.5)';
-    depotEl.style.display = 'flex';
-    depotEl.style.alignItems = 'center';
-    depotEl.style.justifyContent = 'center';
-    depotEl.style.cursor = 'pointer';
-    depotEl.style.transition = 'box-shadow 0.2s';
-    depotEl.innerHTML = '<span style="color: white; font-weight: bold; font-size: 16px;">🏭</span>';
+    // Add one marker per depot referenced by the loaded contracts
+    const depotIds = Array.from(new Set(initialAssets.map(a => a.depotId)));
     
-    // Add hover effect for depot
-    depotEl.addEventListener('mouseenter', () => {
-      depotEl.style.boxShadow = '0 4px 12px rgba(139, 92, 246, 0.7)';
-    });
-    depotEl.addEventListener('mouseleave', () => {
+    depotIds.forEach(depotId => {
+      const depot = getDepot(depotId);
+      const siteCount = initialAssets.filter(a => a.depotId === depotId).length;
+      
+      const depotEl = document.createElement('div');
+      depotEl.style.backgroundColor = '#8b5cf6'; // purple
+      depotEl.style.width = '35px';
+      depotEl.style.height = '35px';
+      depotEl.style.borderRadius = '6px';
+      depotEl.style.border = '3px solid white';
       depotEl.style.boxShadow = '0 2px 8px rgba(139, 92, 246, 0.5)';
-    });
+      depotEl.style.display = 'flex';
+      depotEl.style.alignItems = 'center';
+      depotEl.style.justifyContent = 'center';
+      depotEl.style.cursor = 'pointer';
+      depotEl.style.transition = 'box-shadow 0.2s';
+      depotEl.innerHTML = '<span style="color: white; font-weight: bold; font-size: 16px;">🏭</span>';
+      
+      // Add hover effect for depot
+      depotEl.addEventListener('mouseenter', () => {
+        depotEl.style.boxShadow = '0 4px 12px rgba(139, 92, 246, 0.7)';
+      });
+      depotEl.addEventListener('mouseleave', () => {
+        depotEl.style.boxShadow = '0 2px 8px rgba(139, 92, 246, 0.5)';
+      });
 
-    const depotPopup = new mapboxgl.Popup({ 
-      offset: 25,
-      closeButton: false
-    }).setHTML('<div style="padding: 8px; font-weight: bold;">Main Depot (CBD)<br/><small>Equipment Storage & Distribution</small></div>');
+      const depotPopup = new mapboxgl.Popup({ 
+        offset: 25,
+        closeButton: false
+      }).setHTML(`<div style="padding: 8px; font-weight: bold;">${depot.name}<br/><small>${depot.address} • ${siteCount} contracts</small></div>`);
 
-    const depotMarker = new mapboxgl.Marker(depotEl)
-      .setLngLat([144.9631, -37.8136]) // Real Melbourne CBD depot coordinates
-      .setPopup(depotPopup)
-      .addTo(map.current!);
-    
-    markers.current.push(depotMarker);
-  }, [initialAssets]);
+      const depotMarker = new mapboxgl.Marker(depotEl)
+        .setLngLat([depot.location.lng, depot.location.lat])
+        .setPopup(depotPopup)
+        .addTo(map.current!);
+      
+      markers.current.push(depotMarker);
+    });
+  }, [initialAssets, healthThresholds]);
 
   // Effect 3: Render Real-time Optimization Progress (Dashed Lines)
   useEffect(() => {
@@ -230,14 +250,7 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
     
     // 清除之前的进度虚线
     const clearProgressLines = () => {
-      for (let i = 0; i < 4; i++) {
-        if (mapInstance.getLayer(`progress-route-${i}`)) {
-          mapInstance.removeLayer(`progress-route-${i}`);
-        }
-        if (mapInstance.getSource(`progress-route-${i}`)) {
-          mapInstance.removeSource(`progress-route-${i}`);
-        }
-      }
+      removeLayersByPrefix(mapInstance, 'progress-route-');
     };
     
     clearProgressLines();
@@ -250,38 +263,18 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
       const routePromises = optimizationProgress.routes.map(async (route: any, i: number) => {
         const waypoints = route.route.map((p: any) => [p.lng, p.lat] as [number, number]);
         
-        // 简化waypoints如果超过25个
-        let simplifiedWaypoints = waypoints;
-        if (waypoints.length > 25) {
-          const simplified: [number, number][] = [waypoints[0]];
-          const step = Math.max(1, Math.floor((waypoints.length - 2) / 23));
-          for (let j = step; j < waypoints.length - 1; j += step) {
-            if (simplified.length < 24) simplified.push(waypoints[j]);
-          }
-          simplified.push(waypoints[waypoints.length - 1]);
-          simplifiedWaypoints = simplified;
-        }
-        
         try {
-          const coordinates = simplifiedWaypoints.map((point: [number, number]) => `${point[0]},${point[1]}`).join(';');
-          const url = `https://api.mapbox.com/directions/v5/mapbox/driving/${coordinates}?geometries=geojson&overview=full&access_token=${mapboxgl.accessToken}`;
-          
-          const response = await fetch(url);
-          if (response.ok) {
-            const data = await response.json();
-            if (data.routes && data.routes[0]) {
-              return { index: i, coordinates: data.routes[0].geometry.coordinates };
-            }
-          }
+          const directions = await fetchDirections(route.route);
+          return { index: i, coordinates: directions.coordinates };
         } catch (error) {
           console.error(`Error fetching route ${i}:`, error);
         }
         
         // Fallback: 简单插值
         const interpolated: [number, number][] = [];
-        for (let j = 0; j < simplifiedWaypoints.length - 1; j++) {
-          const start = simplifiedWaypoints[j];
-          const end = simplifiedWaypoints[j + 1];
+        for (let j = 0; j < waypoints.length - 1; j++) {
+          const start = waypoints[j];
+          const end = waypoints[j + 1];
           for (let k = 0; k <= 10; k++) {
             const t = k / 10;
             interpolated.push([
@@ -319,7 +312,7 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
         mapInstance.addSource(layerId, { type: 'geojson', data: geojsonSource });
         
         // 使用对应车辆的颜色
-        const routeColor = ROUTE_COLORS[index % ROUTE_COLORS.length];
+        const routeColor = getVehicleColor(index);
         
         mapInstance.addLayer({
           id: layerId,
@@ -352,34 +345,11 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
 
     // Function to clear existing routes (including alternatives)
     const clearRoutes = () => {
-      // Clear main routes
-      ROUTE_COLORS.forEach((_, index) => {
-        if (mapInstance.getLayer(`route-line-${index}`)) {
-          mapInstance.removeLayer(`route-line-${index}`);
-        }
-        if (mapInstance.getLayer(`route-outline-${index}`)) {
-          mapInstance.removeLayer(`route-outline-${index}`);
-        }
-        if (mapInstance.getSource(`route-${index}`)) {
-          mapInstance.removeSource(`route-${index}`);
-        }
-      });
+      // Clear main routes (route-line-N, route-outline-N, source route-N)
+      removeLayersByPrefix(mapInstance, 'route-');
       
       // Clear alternative routes (dashed lines)
-      for (let altIndex = 0; altIndex < 3; altIndex++) {
-        for (let routeIndex = 0; routeIndex < 4; routeIndex++) {
-          const layerId = `alt-route-${altIndex}-${routeIndex}`;
-          if (mapInstance.getLayer(`${layerId}-bg`)) {
-            mapInstance.removeLayer(`${layerId}-bg`);
-          }
-          if (mapInstance.getLayer(layerId)) {
-            mapInstance.removeLayer(layerId);
-          }
-          if (mapInstance.getSource(layerId)) {
-            mapInstance.removeSource(layerId);
-          }
-        }
-      }
+      removeLayersByPrefix(mapInstance, 'alt-route-');
       
       // Clear vehicle markers - 确保完全清理
       if (window.truckMarkers && Array.isArray(window.truckMarkers)) {
@@ -406,24 +376,6 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
       // 启用Mapbox API获取真实道路
       const USE_MAPBOX_API = true;
       
-      // Mapbox API限制：最多25个waypoints
-      if (waypoints.length > 25) {
-        console.warn(`⚠️ Too many waypoints (${waypoints.length}), simplifying to 25...`);
-        // 简化waypoints：保留起点、终点和均匀采样的中间点
-        const simplified: [number, number][] = [waypoints[0]]; // 起点
-        
-        const step = Math.floor((waypoints.length - 2) / 23); // 中间23个点
-        for (let i = 1; i < waypoints.length - 1; i += step) {
-          if (simplified.length < 24) {
-            simplified.push(waypoints[i]);
-          }
-        }
-        
-        simplified.push(waypoints[waypoints.length - 1]); // 终点
-        console.log(`Simplified ${waypoints.length} waypoints to ${simplified.length}`);
-        waypoints = simplified;
-      }
-      
       if (!USE_MAPBOX_API) {
         console.log('Using direct waypoints (Mapbox API disabled for debugging)');
         // 在waypoints之间创建更多插值点，使动画更平滑
@@ -452,34 +404,14 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
         return { coordinates: interpolatedRoute, distance: 0 };
       }
       
-      // 即使只有2个点，也要调用API获取真实道路路径
-      // 之前的逻辑会导致直线连接，现在所有情况都调用API
-      
-      // Convert waypoints to string format for API
-      const coordinates = waypoints.map(point => `${point[0]},${point[1]}`).join(';');
-      
-      // Add overview=full to get detailed route geometry
-      // Use small radius (25m) for first and last points to prevent excessive snapping
-      // Use default for middle waypoints to ensure they connect to roads
-      const radiuses = waypoints.map((_, idx) => {
-        if (idx === 0 || idx === waypoints.length - 1) {
-          return '25'; // 25 meters for start/end points
-        }
-        return ''; // Default (150m) for intermediate points
-      }).join(';');
-      const url = `https://api.mapbox.com/directions/v5/mapbox/driving/${coordinates}?geometries=geojson&overview=full&radiuses=${radiuses}&access_token=${mapboxgl.accessToken}`;
-      
+      // 超过25个途经点时分块请求再拼接，每个站点都会经过
+      // 起点和终点使用小半径（25m）避免过度吸附，中间点使用默认半径以确保连接到道路
       try {
-        const response = await fetch(url);
-        if (response.ok) {
-          const data = await response.json();
-          
-          if (data.routes && data.routes.length > 0 && data.routes[0].geometry) {
-            const routeCoords = data.routes[0].geometry.coordinates;
-            const realDistance = data.routes[0].distance / 1000; // 转换为km
-            return { coordinates: routeCoords, distance: realDistance };
-          }
-        }
+        const directions = await fetchDirections(
+          waypoints.map(([lng, lat]) => ({ lng, lat })),
+          { endpointRadius: 25 }
+        );
+        return { coordinates: directions.coordinates, distance: directions.distanceKm };
       } catch (error) {
         console.error('Error fetching directions:', error);
       }
@@ -565,7 +497,7 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
           source: `route-${index}`,
           layout: { 'line-join': 'round', 'line-cap': 'round' },
           paint: {
-            'line-color': ROUTE_COLORS[index % ROUTE_COLORS.length],
+            'line-color': getVehicleColor(index),
             'line-width': 6,
             'line-opacity': 1,
           },
@@ -577,7 +509,7 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
         //   debugEl.style.width = '8px';
         //   debugEl.style.height = '8px';
         //   debugEl.style.borderRadius = '50%';
-        //   debugEl.style.backgroundColor = ROUTE_COLORS[index % ROUTE_COLORS.length];
+        //   debugEl.style.backgroundColor = getVehicleColor(index);
         //   debugEl.style.opacity = '0.5';
         //   
         //   new mapboxgl.Marker(debugEl)
@@ -592,7 +524,7 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
           startEl.style.width = '24px';
           startEl.style.height = '24px';
           startEl.style.borderRadius = '50%';
-          startEl.style.backgroundColor = ROUTE_COLORS[index % ROUTE_COLORS.length];
+          startEl.style.backgroundColor = getVehicleColor(index);
           startEl.style.border = '3px solid white';
           startEl.style.boxShadow = '0 2px 6px rgba(0,0,0,0.3)';
           startEl.style.display = 'flex';
@@ -610,7 +542,7 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
             endEl.style.width = '24px';
             endEl.style.height = '24px';
             endEl.style.borderRadius = '50%';
-            endEl.style.backgroundColor = ROUTE_COLORS[index % ROUTE_COLORS.length];
+            endEl.style.backgroundColor = getVehicleColor(index);
             endEl.style.border = '3px solid white';
             endEl.style.boxShadow = '0 2px 6px rgba(0,0,0,0.3)';
             endEl.style.display = 'flex';
@@ -644,17 +576,17 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
             background: white;
             border-radius: 8px;
             box-shadow: 0 3px 10px rgba(0,0,0,0.2);
-            border: 2px solid ${ROUTE_COLORS[index % ROUTE_COLORS.length]};
+            border: 2px solid ${getVehicleColor(index)};
             position: relative;
           ">
-            <svg width="26" height="26" viewBox="0 0 24 24" fill="${ROUTE_COLORS[index % ROUTE_COLORS.length]}">
+            <svg width="26" height="26" viewBox="0 0 24 24" fill="${getVehicleColor(index)}">
               <path d="M18,18.5A1.5,1.5 0 0,1 16.5,17A1.5,1.5 0 0,1 18,15.5A1.5,1.5 0 0,1 19.5,17A1.5,1.5 0 0,1 18,18.5M19.5,9.5L21.46,12H17V9.5M6,18.5A1.5,1.5 0 0,1 4.5,17A1.5,1.5 0 0,1 6,15.5A1.5,1.5 0 0,1 7.5,17A1.5,1.5 0 0,1 6,18.5M20,8H17V4H3C1.89,4 1,4.89 1,6V17H3A3,3 0 0,0 6,20A3,3 0 0,0 9,17H15A3,3 0 0,0 18,20A3,3 0 0,0 21,17H23V12L20,8Z"/>
             </svg>
             <div style="
               position: absolute;
               top: -8px;
               right: -8px;
-              background: ${ROUTE_COLORS[index % ROUTE_COLORS.length]};
+              background: ${getVehicleColor(index)};
               color: white;
               width: 18px;
               height: 18px;
@@ -666,7 +598,7 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
               font-weight: bold;
               border: 2px solid white;
               box-shadow: 0 1px 3px rgba(0,0,0,0.2);
-            ">${route.vehicleId.replace('Truck-', '')}</div>
+            ">${index + 1}</div>
           </div>
         `;
         
@@ -807,8 +739,191 @@ const MapView = ({ initialAssets, optimizationResults, optimizationProgress }: M
     }
   }, [optimizationResults]);
 
+  // Effect 5: 初始聚类叠加层（每辆车一组：聚类中心 + 到成员工地的虚线，颜色与该车路线一致）
+  useEffect(() => {
+    const mapInstance = map.current;
+    if (!mapInstance) return;
+
+    const drawClusters = () => {
+      removeLayersByPrefix(mapInstance, 'cluster-overlay');
+      const clusters = optimizationResults?.clusters;
+      if (!showClusters || !clusters || clusters.length === 0) return;
+
+      const siteLocations = new Map(initialAssets.map(asset => [asset.id, [asset.location.lng, asset.location.lat]]));
+      const routes = optimizationResults.optimizedRoutes;
+      const features: GeoJSON.Feature[] = clusters.flatMap((cluster, index) => {
+        const routeIndex = routes.findIndex(route => route.vehicleId === cluster.vehicleId);
+        const color = getVehicleColor(routeIndex === -1 ? routes.length + index : routeIndex);
+        const centre = [cluster.centre.lng, cluster.centre.lat];
+        const members = cluster.siteIds
+          .map(siteId => siteLocations.get(siteId))
+          .filter((location): location is number[] => location !== undefined);
+        return [
+          ...members.map((member): GeoJSON.Feature => ({
+            type: 'Feature',
+            properties: { color, kind: 'spoke' },
+            geometry: { type: 'LineString', coordinates: [centre, member] },
+          })),
+          ...members.map((member): GeoJSON.Feature => ({
+            type: 'Feature',
+            properties: { color, kind: 'member' },
+            geometry: { type: 'Point', coordinates: member },
+          })),
+          {
+            type: 'Feature',
+            properties: { color, kind: 'centre' },
+            geometry: { type: 'Point', coordinates: centre },
+          },
+        ];
+      });
+
+      mapInstance.addSource('cluster-overlay', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features },
+      });
+      mapInstance.addLayer({
+        id: 'cluster-overlay-spokes',
+        type: 'line',
+        source: 'cluster-overlay',
+        filter: ['==', ['get', 'kind'], 'spoke'],
+        paint: { 'line-color': ['get', 'color'], 'line-width': 1.5, 'line-opacity': 0.7, 'line-dasharray': [2, 2] },
+      });
+      mapInstance.addLayer({
+        id: 'cluster-overlay-members',
+        type: 'circle',
+        source: 'cluster-overlay',
+        filter: ['==', ['get', 'kind'], 'member'],
+        paint: {
+          'circle-radius': 16,
+          'circle-color': ['get', 'color'],
+          'circle-opacity': 0.18,
+          'circle-stroke-color': ['get', 'color'],
+          'circle-stroke-width': 1.5,
+        },
+      });
+      mapInstance.addLayer({
+        id: 'cluster-overlay-centres',
+        type: 'circle',
+        source: 'cluster-overlay',
+        filter: ['==', ['get', 'kind'], 'centre'],
+        paint: {
+          'circle-radius': 7,
+          'circle-color': ['get', 'color'],
+          'circle-stroke-color': '#ffffff',
+          'circle-stroke-width': 2,
+        },
+      });
+    };
+
+    if (mapInstance.isStyleLoaded()) {
+      drawClusters();
+    } else {
+      mapInstance.once('load', drawClusters);
+    }
+  }, [optimizationResults, initialAssets, showClusters]);
+
+  const days = optimizationResults?.days;
+  const hasClusters = (optimizationResults?.clusters?.length ?? 0) > 0;
+
   return (
-    <div ref={mapContainer} style={{ width: '100%', height: '100%' }} />
+    <div style={{ position: 'relative', width: '100%', height: '100%' }}>
+      <div ref={mapContainer} style={{ width: '100%', height: '100%' }} />
+
+      {/* 离线模式（无 token 或 VITE_OFFLINE_MODE）：本地底图和路网代替 Mapbox */}
+      {OFFLINE_MODE && (
+        <div style={{ position: 'absolute', inset: 0 }}>
+          <OfflineMap
+            assets={initialAssets}
+            optimizationResults={optimizationResults}
+            progressRoutes={optimizationProgress?.routes}
+            showClusters={showClusters}
+            healthThresholds={healthThresholds}
+          />
+          <div
+            title={MAPBOX_TOKEN ? 'VITE_OFFLINE_MODE is set' : 'No Mapbox token configured (VITE_MAPBOX_TOKEN)'}
+            style={{
+              position: 'absolute',
+              bottom: '12px',
+              left: '12px',
+              padding: '4px 10px',
+              borderRadius: '6px',
+              background: 'rgba(255, 255, 255, 0.9)',
+              boxShadow: '0 2px 6px rgba(0, 0, 0, 0.1)',
+              fontSize: '11px',
+              color: '#475569'
+            }}
+          >
+            Offline map · routes on simplified road network
+          </div>
+        </div>
+      )}
+
+      {/* 周计划工作日选择 */}
+      {days && days.length > 0 && onSelectDay && (
+        <div style={{
+          position: 'absolute',
+          top: '12px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          display: 'flex',
+          gap: '4px',
+          padding: '4px',
+          background: 'white',
+          borderRadius: '10px',
+          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.15)'
+        }}>
+          {days.map(schedule => {
+            const isSelected = schedule.day === optimizationResults?.selectedDay;
+            const siteCount = new Set(schedule.routes.flatMap(route => route.stops?.map(stop => stop.siteId) || [])).size;
+            return (
+              <button
+                key={schedule.day}
+                onClick={() => onSelectDay(schedule.day)}
+                disabled={schedule.routes.length === 0}
+                style={{
+                  padding: '4px 10px',
+                  borderRadius: '6px',
+                  border: 'none',
+                  background: isSelected ? 'linear-gradient(135deg, #10b981, #059669)' : 'transparent',
+                  color: isSelected ? 'white' : schedule.routes.length === 0 ? '#cbd5e1' : '#475569',
+                  cursor: schedule.routes.length === 0 ? 'default' : 'pointer',
+                  fontSize: '12px',
+                  fontWeight: 600,
+                  lineHeight: 1.2
+                }}
+              >
+                <div>{schedule.label}</div>
+                <div style={{ fontSize: '9px', fontWeight: 400, opacity: 0.8 }}>{siteCount} sites</div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* 初始聚类叠加层开关 */}
+      {hasClusters && (
+        <button
+          onClick={() => setShowClusters(!showClusters)}
+          title="Show which sites each vehicle was seeded with before route optimization"
+          style={{
+            position: 'absolute',
+            top: '12px',
+            right: '12px',
+            padding: '6px 10px',
+            borderRadius: '8px',
+            border: 'none',
+            background: showClusters ? 'linear-gradient(135deg, #10b981, #059669)' : 'white',
+            color: showClusters ? 'white' : '#475569',
+            boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.15)',
+            cursor: 'pointer',
+            fontSize: '12px',
+            fontWeight: 600
+          }}
+        >
+          {showClusters ? 'Hide clusters' : 'Show clusters'}
+        </button>
+      )}
+    </div>
   );
 };
 
@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Asset, OptimizationResult } from '../api/client';
+import { DEPOTS } from '../api/depots';
+import { fetchDirections } from '../api/directions';
+import { getRoadSegments, getWaterPolygons, type RoadClass } from '../api/roadNetwork';
+import { getVehicleColor } from './vehicleColors';
+import { HEALTH_COLORS, STATUS_COLORS } from './siteColors';
+import { getHealthBand, type HealthThresholds } from '../api/healthModel';
+import { describeHireDuration } from '../api/hireDuration';
+
+interface OfflineMapProps {
+  assets: Asset[];
+  optimizationResults: OptimizationResult | null;
+  progressRoutes?: { route: { lat: number; lng: number }[] }[]; // 优化过程中的候选路线（虚线）
+  showClusters?: boolean;
+  healthThresholds?: HealthThresholds;
+}
+
+interface ViewBox { x: number; y: number; width: number; height: number }
+
+// 等距圆柱投影（按墨尔本纬度缩放经度），单位约为 km
+const ORIGIN = { lat: -37.8136, lng: 144.9631 };
+const KM_PER_DEGREE = 111.32;
+const LNG_SCALE = Math.cos(ORIGIN.lat * Math.PI / 180);
+const project = (lng: number, lat: number): [number, number] => [
+  (lng - ORIGIN.lng) * KM_PER_DEGREE * LNG_SCALE,
+  (ORIGIN.lat - lat) * KM_PER_DEGREE,
+];
+
+// 道路线宽为屏幕像素（不随缩放变化）
+const ROAD_STYLE: Record<RoadClass, { color: string; width: number }> = {
+  arterial: { color: '#e2e8f0', width: 1 },
+  highway: { color: '#fcd34d', width: 2 },
+  freeway: { color: '#fbbf24', width: 2.5 },
+};
+
+const toPath = (coordinates: [number, number][]) =>
+  coordinates.map(([lng, lat], i) => `${i === 0 ? 'M' : 'L'}${project(lng, lat).join(',')}`).join('');
+
+// --- Component ---
+// 离线底图：本地路网 + 水面 + 工地/仓库 + 路线（SVG，不需要网络），滚轮缩放、拖动平移
+const OfflineMap = ({ assets, optimizationResults, progressRoutes, showClusters, healthThresholds }: OfflineMapProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+  const [routeGeometry, setRouteGeometry] = useState<[number, number][][]>([]);
+
+  const roads = useMemo(() => {
+    const paths: Record<RoadClass, string> = { arterial: '', highway: '', freeway: '' };
+    getRoadSegments().forEach(({ from, to, roadClass }) => {
+      paths[roadClass] += `M${project(from.lng, from.lat).join(',')}L${project(to.lng, to.lat).join(',')}`;
+    });
+    return paths;
+  }, []);
+
+  // 初始视野：包含全部工地和仓库
+  const initialView = useMemo<ViewBox>(() => {
+    const points = [...assets.map(a => a.location), ...DEPOTS.map(d => d.location)].map(p => project(p.lng, p.lat));
+    if (points.length === 0) return { x: -40, y: -40, width: 80, height: 80 };
+    const xs = points.map(p => p[0]);
+    const ys = points.map(p => p[1]);
+    const padding = 5;
+    return {
+      x: Math.min(...xs) - padding,
+      y: Math.min(...ys) - padding,
+      width: Math.max(...xs) - Math.min(...xs) + padding * 2,
+      height: Math.max(...ys) - Math.min(...ys) + padding * 2,
+    };
+  }, [assets]);
+  const [view, setView] = useState<ViewBox>(initialView);
+  useEffect(() => setView(initialView), [initialView]);
+
+  // 最终路线沿本地路网绘制（离线模式下 fetchDirections 在本地计算）
+  const routes = optimizationResults?.optimizedRoutes;
+  useEffect(() => {
+    let cancelled = false;
+    if (!routes) {
+      setRouteGeometry([]);
+      return;
+    }
+    Promise.all(routes.map(route => fetchDirections(route.route)
+      .then(directions => directions.coordinates)
+      .catch(() => route.route.map(p => [p.lng, p.lat] as [number, number]))
+    )).then(geometry => {
+      if (!cancelled) setRouteGeometry(geometry);
+    });
+    return () => { cancelled = true; };
+  }, [routes]);
+
+  // 屏幕坐标 → 底图坐标
+  const toMapPoint = (clientX: number, clientY: number) => {
+    const matrix = svgRef.current?.getScreenCTM()?.inverse();
+    if (!matrix) return null;
+    return new DOMPoint(clientX, clientY).matrixTransform(matrix);
+  };
+
+  // 以鼠标位置为中心缩放
+  const handleWheel = (event: React.WheelEvent<SVGSVGElement>) => {
+    const point = toMapPoint(event.clientX, event.clientY);
+    if (!point) return;
+    const factor = event.deltaY > 0 ? 1.2 : 1 / 1.2;
+    setView(v => ({
+      x: point.x - (point.x - v.x) * factor,
+      y: point.y - (point.y - v.y) * factor,
+      width: v.width * factor,
+      height: v.height * factor,
+    }));
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!drag.current) return;
+    const from = toMapPoint(drag.current.x, drag.current.y);
+    const to = toMapPoint(event.clientX, event.clientY);
+    drag.current = { x: event.clientX, y: event.clientY };
+    if (!from || !to) return;
+    setView(v => ({ ...v, x: v.x - (to.x - from.x), y: v.y - (to.y - from.y) }));
+  };
+
+  // 标记大小随缩放保持屏幕上大致不变
+  const unit = view.width / 800;
+  const siteLocations = new Map(assets.map(asset => [asset.id, asset.location]));
+  const clusters = showClusters ? optimizationResults?.clusters ?? [] : [];
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+      preserveAspectRatio="xMidYMid meet"
+      style={{ width: '100%', height: '100%', background: '#f8fafc', cursor: 'grab' }}
+      onWheel={handleWheel}
+      onMouseDown={event => { drag.current = { x: event.clientX, y: event.clientY }; }}
+      onMouseMove={handleMouseMove}
+      onMouseUp={() => { drag.current = null; }}
+      onMouseLeave={() => { drag.current = null; }}
+    >
+      {getWaterPolygons().map((polygon, i) => (
+        <path key={i} d={`${toPath(polygon)}Z`} fill="#bfdbfe" />
+      ))}
+      {(['arterial', 'highway', 'freeway'] as RoadClass[]).map(roadClass => (
+        <path key={roadClass} d={roads[roadClass]} stroke={ROAD_STYLE[roadClass].color} strokeWidth={ROAD_STYLE[roadClass].width} vectorEffect="non-scaling-stroke" fill="none" />
+      ))}
+
+      {/* 优化过程中的候选路线 */}
+      {progressRoutes?.map((route, i) => (
+        <path
+          key={`progress-${i}`}
+          d={toPath(route.route.map(p => [p.lng, p.lat]))}
+          stroke={getVehicleColor(i)}
+          strokeWidth={unit * 2}
+          strokeDasharray={`${unit * 6} ${unit * 4}`}
+          opacity={0.6}
+          fill="none"
+        />
+      ))}
+
+      {/* 最终路线 */}
+      {routeGeometry.map((coordinates, i) => (
+        <path key={`route-${i}`} d={toPath(coordinates)} stroke={getVehicleColor(i)} strokeWidth={unit * 4} strokeLinejoin="round" opacity={0.85} fill="none" />
+      ))}
+
+      {/* 初始聚类：中心到成员工地的虚线 */}
+      {clusters.map((cluster, index) => {
+        const routeIndex = routes?.findIndex(route => route.vehicleId === cluster.vehicleId) ?? -1;
+        const color = getVehicleColor(routeIndex === -1 ? (routes?.length ?? 0) + index : routeIndex);
+        const [cx, cy] = project(cluster.centre.lng, cluster.centre.lat);
+        return (
+          <g key={`cluster-${cluster.vehicleId}`} stroke={color}>
+            {cluster.siteIds.map(siteId => {
+              const member = siteLocations.get(siteId);
+              if (!member) return null;
+              const [mx, my] = project(member.lng, member.lat);
+              return <line key={siteId} x1={cx} y1={cy} x2={mx} y2={my} strokeWidth={unit * 1.5} strokeDasharray={`${unit * 4} ${unit * 4}`} />;
+            })}
+            <circle cx={cx} cy={cy} r={unit * 6} fill="white" strokeWidth={unit * 3} />
+          </g>
+        );
+      })}
+
+      {assets.map(asset => {
+        const [x, y] = project(asset.location.lng, asset.location.lat);
+        const healthBand = asset.health_score !== undefined ? getHealthBand(asset.health_score, healthThresholds) : 'good';
+        return (
+          <circle key={asset.id} cx={x} cy={y} r={unit * 6} fill={STATUS_COLORS[asset.status] || '#64748b'} stroke={HEALTH_COLORS[healthBand]} strokeWidth={unit * (healthBand === 'good' ? 2 : 3)}>
+            <title>{`${asset.id}${asset.customer ? ` · ${asset.customer}` : ''}${asset.location.suburb ? ` · ${asset.location.suburb}` : ''}${asset.health_score !== undefined ? ` · health ${asset.health_score}/100` : ''}${asset.hire ? ` · ${describeHireDuration(asset.hire)}` : ''}`}</title>
+          </circle>
+        );
+      })}
+
+      {DEPOTS.map(depot => {
+        const [x, y] = project(depot.location.lng, depot.location.lat);
+        return (
+          <rect key={depot.id} x={x - unit * 8} y={y - unit * 8} width={unit * 16} height={unit * 16} fill="#0f172a" stroke="white" strokeWidth={unit * 2}>
+            <title>{depot.name}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default OfflineMap;
@@ -2,13 +2,35 @@
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Bot } from 'lucide-react';
 import type { OptimizationResult } from '../api/client';
+import { formatClock } from '../api/timeWindows';
+import { getVehicleColor } from './vehicleColors';
+import type { DeferralReason } from '../api/backlog';
 
 interface ResultsModalProps {
   results: OptimizationResult | null;
   onClose: () => void;
+  onSelectTradeOff?: (index: number) => void; // 选择Pareto前沿上的方案
+  onReuseSeed?: (seed: number) => void; // 固定种子以复现此方案
+  onSelectDay?: (day: number) => void; // 切换周计划中显示的工作日
 }
 
-const ResultsModal = ({ results, onClose }: ResultsModalProps) => {
+const DEFERRAL_REASON_LABELS: Record<DeferralReason, string> = {
+  priority: 'Below weekly site limit',
+  hours: 'Fleet hours full',
+  vehicle: 'No compatible vehicle',
+};
+
+const ResultsModal = ({ results, onClose, onSelectTradeOff, onReuseSeed, onSelectDay }: ResultsModalProps) => {
+  const selectedDayLabel = results?.days?.find(day => day.day === results.selectedDay)?.label;
+  
+  // Pareto前沿上各目标的最优方案，用于标注
+  const front = results?.paretoFront ?? [];
+  const bestIndexBy = (value: (index: number) => number) =>
+    front.reduce((best, _, index) => value(index) < value(best) ? index : best, 0);
+  const lowestCostIndex = bestIndexBy(i => front[i].objectives.costAud);
+  const lowestEmissionsIndex = bestIndexBy(i => front[i].objectives.emissionsKgCO2);
+  const mostBalancedIndex = bestIndexBy(i => front[i].objectives.workloadImbalanceHours);
+
   return (
     <AnimatePresence>
       {results && (
@@ -100,6 +122,28 @@ const ResultsModal = ({ results, onClose }: ResultsModalProps) => {
                   <p style={{ marginTop: '0.25rem', color: '#6b7280', fontSize: '0.875rem' }}>
                     {results.explanation ? results.explanation.taskConsolidation : 'Route optimization completed successfully'}
                   </p>
+                  {results.seed !== undefined && (
+                    <p style={{ marginTop: '0.25rem', color: '#9ca3af', fontSize: '0.7rem' }}>
+                      Seed {results.seed}
+                      {onReuseSeed && (
+                        <button
+                          onClick={() => onReuseSeed(results.seed!)}
+                          style={{
+                            marginLeft: '0.5rem',
+                            fontSize: '0.7rem',
+                            color: '#7c3aed',
+                            background: 'none',
+                            border: 'none',
+                            cursor: 'pointer',
+                            textDecoration: 'underline',
+                            padding: 0
+                          }}
+                        >
+                          Reuse seed for next run
+                        </button>
+                      )}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -139,10 +183,14 @@ const ResultsModal = ({ results, onClose }: ResultsModalProps) => {
                       OPTIMIZED ROUTES
                     </div>
                     <div style={{ fontSize: '1.75rem', fontWeight: '700', color: '#1e3a8a' }}>
-                      {results.optimizedRoutes.length}
+                      {results.days
+                        ? results.days.reduce((sum, day) => sum + day.routes.length, 0)
+                        : results.optimizedRoutes.length}
                     </div>
                     <div style={{ fontSize: '0.6rem', color: '#3b82f6', marginTop: '0.25rem' }}>
-                      vehicles deployed
+                      {results.days
+                        ? `vehicle-days over ${results.days.filter(day => day.routes.length > 0).length} working days`
+                        : 'vehicles deployed'}
                     </div>
                   </div>
                   
@@ -166,6 +214,161 @@ const ResultsModal = ({ results, onClose }: ResultsModalProps) => {
                 
               </div>
 
+              {/* 周计划 - 选择工作日查看当天的路线和权衡 */}
+              {results.days && results.days.length > 0 && (
+                <div style={{ marginBottom: '1.5rem' }}>
+                  <h3 style={{ 
+                    fontSize: '0.85rem', 
+                    fontWeight: '700', 
+                    color: '#374151',
+                    marginBottom: '0.75rem'
+                  }}>
+                    📅 Weekly Schedule
+                  </h3>
+                  <div style={{ display: 'grid', gridTemplateColumns: `repeat(${results.days.length}, 1fr)`, gap: '0.375rem' }}>
+                    {results.days.map(schedule => {
+                      const selected = schedule.day === results.selectedDay;
+                      const siteCount = new Set(schedule.routes.flatMap(route => route.stops?.map(stop => stop.siteId) || [])).size;
+                      const distance = schedule.routes.reduce((sum, route) => sum + (route.distance || 0), 0);
+                      return (
+                        <button
+                          key={schedule.day}
+                          onClick={() => onSelectDay?.(schedule.day)}
+                          disabled={schedule.routes.length === 0}
+                          style={{
+                            padding: '0.5rem',
+                            borderRadius: '0.5rem',
+                            border: selected ? '2px solid #10b981' : '1px solid #e5e7eb',
+                            background: selected ? '#ecfdf5' : 'white',
+                            cursor: schedule.routes.length === 0 ? 'default' : 'pointer',
+                            opacity: schedule.routes.length === 0 ? 0.5 : 1,
+                            textAlign: 'left'
+                          }}
+                        >
+                          <div style={{ fontSize: '0.75rem', fontWeight: '700', color: '#1f2937' }}>{schedule.label}</div>
+                          <div style={{ fontSize: '0.6rem', color: '#6b7280' }}>
+                            {siteCount} sites · {schedule.routes.length} {schedule.routes.length === 1 ? 'route' : 'routes'}
+                          </div>
+                          <div style={{ fontSize: '0.6rem', color: '#6b7280' }}>{distance.toFixed(0)} km</div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* 推迟的工地 - 记入积压，下次规划时每推迟一周优先级提高 */}
+              {results.deferredSites && results.deferredSites.length > 0 && (
+                <div style={{ marginBottom: '1.5rem' }}>
+                  <h3 style={{ 
+                    fontSize: '0.85rem', 
+                    fontWeight: '700', 
+                    color: '#374151',
+                    marginBottom: '0.25rem'
+                  }}>
+                    ⏭️ Deferred Sites ({results.deferredSites.length})
+                  </h3>
+                  <p style={{ fontSize: '0.65rem', color: '#6b7280', marginBottom: '0.5rem' }}>
+                    Not scheduled this week. They stay in the backlog and gain priority for every week they wait.
+                    {results.backlogUpdate && (
+                      <> Waiting time is counted to {results.backlogUpdate.backlogDate.slice(0, 10)}
+                        {results.backlogUpdate.backlogDate !== results.backlogUpdate.planningDate &&
+                          ` (today, because the ${results.backlogUpdate.planningDate.slice(0, 10)} plan date is earlier)`}.</>
+                    )}
+                  </p>
+                  <div style={{ maxHeight: '10rem', overflowY: 'auto', border: '1px solid #e5e7eb', borderRadius: '0.5rem' }}>
+                    {results.deferredSites.map(site => (
+                      <div
+                        key={site.siteId}
+                        style={{
+                          display: 'flex',
+                          justifyContent: 'space-between',
+                          gap: '0.5rem',
+                          padding: '0.35rem 0.75rem',
+                          borderBottom: '1px solid #f3f4f6',
+                          fontSize: '0.7rem'
+                        }}
+                      >
+                        <span style={{ fontWeight: '600', color: '#1f2937' }}>{site.siteId}</span>
+                        <span style={{ flex: 1, color: '#6b7280' }}>{DEFERRAL_REASON_LABELS[site.reason]}</span>
+                        <span style={{ color: site.weeksDeferred >= 2 ? '#b91c1c' : site.weeksDeferred === 1 ? '#b45309' : '#6b7280', fontWeight: site.weeksDeferred > 0 ? '600' : '400' }}>
+                          {site.weeksDeferred === 0
+                            ? 'new this week'
+                            : `waiting ${site.weeksDeferred} week${site.weeksDeferred > 1 ? 's' : ''} (since ${site.since.slice(0, 10)})`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Pareto前沿 - 调度员选择成本/排放/工作量的权衡 */}
+              {front.length > 1 && (
+                <div style={{ marginBottom: '1.5rem' }}>
+                  <h3 style={{ 
+                    fontSize: '0.85rem', 
+                    fontWeight: '700', 
+                    color: '#374151',
+                    marginBottom: '0.25rem'
+                  }}>
+                    ⚖️ Trade-offs ({front.length} Pareto-optimal plans{selectedDayLabel && ` for ${selectedDayLabel}`})
+                  </h3>
+                  <p style={{ fontSize: '0.65rem', color: '#6b7280', marginBottom: '0.75rem' }}>
+                    No plan is better on every objective. Pick the balance of cost, emissions and driver workload to dispatch.
+                  </p>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                    {front.map((option, index) => {
+                      const selected = index === (results.selectedTradeOff ?? 0);
+                      const tags = [
+                        index === lowestCostIndex && 'Lowest cost',
+                        index === lowestEmissionsIndex && 'Lowest CO₂',
+                        index === mostBalancedIndex && 'Most balanced',
+                      ].filter(Boolean);
+                      return (
+                        <button
+                          key={index}
+                          onClick={() => onSelectTradeOff?.(index)}
+                          style={{
+                            display: 'grid',
+                            gridTemplateColumns: '1.5rem 1fr 1fr 1fr 1fr',
+                            alignItems: 'center',
+                            gap: '0.5rem',
+                            padding: '0.5rem 0.75rem',
+                            borderRadius: '0.5rem',
+                            border: selected ? '2px solid #7c3aed' : '1px solid #e5e7eb',
+                            background: selected ? '#f5f3ff' : 'white',
+                            cursor: onSelectTradeOff ? 'pointer' : 'default',
+                            textAlign: 'left',
+                            fontSize: '0.7rem',
+                            color: '#374151'
+                          }}
+                        >
+                          <span style={{ fontWeight: '700', color: selected ? '#7c3aed' : '#9ca3af' }}>
+                            {selected ? '●' : '○'}
+                          </span>
+                          <span>💰 ${Math.round(option.objectives.costAud).toLocaleString()}</span>
+                          <span>🌱 {option.objectives.emissionsKgCO2.toFixed(1)} kg CO₂</span>
+                          <span>⏱️ ±{option.objectives.workloadImbalanceHours.toFixed(1)} h</span>
+                          <span style={{ color: '#6b7280' }}>
+                            {option.totalDistance.toFixed(1)} km
+                            {tags.length > 0 && (
+                              <span style={{ display: 'block', fontSize: '0.6rem', color: '#7c3aed', fontWeight: '600' }}>
+                                {tags.join(' · ')}
+                              </span>
+                            )}
+                            {option.deferredSiteIds.length > 0 && (
+                              <span style={{ display: 'block', fontSize: '0.6rem', color: '#b45309' }}>
+                                {option.deferredSiteIds.length} site{option.deferredSiteIds.length === 1 ? '' : 's'} deferred
+                              </span>
+                            )}
+                          </span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* 路线详情 - 展示每条路线访问的工地 */}
               <div style={{ marginBottom: '1rem' }}>
                 <h3 style={{ 
@@ -174,8 +377,23 @@ const ResultsModal = ({ results, onClose }: ResultsModalProps) => {
                   color: '#374151',
                   marginBottom: '0.75rem'
                 }}>
-                  🚚 Route Details
+                  🚚 Route Details{selectedDayLabel && ` – ${selectedDayLabel}`}
                 </h3>
+                {results.unservedSiteIds && results.unservedSiteIds.length > 0 && (
+                  <div style={{
+                    fontSize: '0.65rem',
+                    color: '#b91c1c',
+                    background: '#fef2f2',
+                    border: '1px solid #fecaca',
+                    borderRadius: '0.375rem',
+                    padding: '0.5rem 0.75rem',
+                    marginBottom: '0.5rem'
+                  }}>
+                    ⚠️ {results.unservedSiteIds.length} site{results.unservedSiteIds.length > 1 ? 's' : ''} not routed – no available vehicle can carry the equipment
+                    (e.g. crash cushions need a crane truck): {results.unservedSiteIds.slice(0, 5).join(', ')}
+                    {results.unservedSiteIds.length > 5 && ` …and ${results.unservedSiteIds.length - 5} more`}
+                  </div>
+                )}
                 
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
                   {results.optimizedRoutes.map((route, index) => (
@@ -183,12 +401,12 @@ const ResultsModal = ({ results, onClose }: ResultsModalProps) => {
                       background: 'white',
                       borderRadius: '0.5rem',
                       padding: '0.75rem',
-                      border: `2px solid ${['#16a34a', '#c026d3', '#db2777', '#0ea5e9'][index]}`,
-                      borderLeft: `6px solid ${['#16a34a', '#c026d3', '#db2777', '#0ea5e9'][index]}`
+                      border: `2px solid ${getVehicleColor(index)}`,
+                      borderLeft: `6px solid ${getVehicleColor(index)}`
                     }}>
                       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
                         <div style={{ fontSize: '0.75rem', fontWeight: '700', color: '#1f2937' }}>
-                          {route.vehicleId}
+                          {route.vehicleName ? `${route.vehicleName} (${route.vehicleId})` : route.vehicleId}
                         </div>
                         {route.distance && (
                           <div style={{ fontSize: '0.7rem', color: '#6b7280' }}>
@@ -197,8 +415,62 @@ const ResultsModal = ({ results, onClose }: ResultsModalProps) => {
                         )}
                       </div>
                       <div style={{ fontSize: '0.65rem', color: '#6b7280' }}>
-                        Visits {route.route.length - 2} sites (depot → sites → depot)
+                        Visits {route.stops ? new Set(route.stops.map(s => s.siteId)).size : route.route.length - 2} sites (depot → sites → depot)
                       </div>
+                      {route.trips !== undefined && (
+                        <div style={{ display: 'flex', gap: '0.75rem', fontSize: '0.65rem', color: '#6b7280', marginTop: '0.25rem' }}>
+                          <span>
+                            🔁 {route.trips} {route.trips === 1 ? 'trip' : `trips (${route.trips - 1} depot reload${route.trips > 2 ? 's' : ''})`}
+                          </span>
+                          {route.peakUtilisation !== undefined && (
+                            <span style={{ color: route.peakUtilisation > 0.9 ? '#b45309' : '#6b7280' }}>
+                              📦 Peak load {Math.round(route.peakUtilisation * 100)}%
+                            </span>
+                          )}
+                          {route.stops?.some(s => s.split) && (
+                            <span>✂️ Split deliveries</span>
+                          )}
+                        </div>
+                      )}
+                      {route.startTime !== undefined && route.endTime !== undefined && (
+                        <div style={{ fontSize: '0.65rem', color: '#6b7280', marginTop: '0.25rem' }}>
+                          🕒 {formatClock(route.startTime)} → {formatClock(route.endTime)}
+                        </div>
+                      )}
+                      {route.stops && route.stops.length > 0 && (
+                        <div style={{
+                          display: 'flex',
+                          flexWrap: 'wrap',
+                          gap: '0.25rem',
+                          marginTop: '0.375rem'
+                        }}>
+                          {route.stops.map((stop, stopIndex) => (
+                            <span
+                              key={stopIndex}
+                              title={`Window ${formatClock(stop.window.start)}–${formatClock(stop.window.end)}${stop.waitMinutes > 0 ? `, waits ${Math.round(stop.waitMinutes)} min` : ''}`}
+                              style={{
+                                fontSize: '0.6rem',
+                                padding: '0.125rem 0.375rem',
+                                borderRadius: '0.25rem',
+                                background: stop.lateMinutes > 0 ? '#fee2e2' : '#f3f4f6',
+                                color: stop.lateMinutes > 0 ? '#b91c1c' : '#374151'
+                              }}
+                            >
+                              {stop.siteId} {formatClock(stop.arrival)}–{formatClock(stop.departure)}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {route.violations && route.violations.length > 0 && (
+                        <div style={{ fontSize: '0.6rem', color: '#b91c1c', marginTop: '0.375rem' }}>
+                          {route.violations.slice(0, 3).map((violation, violationIndex) => (
+                            <div key={violationIndex}>⚠️ {violation}</div>
+                          ))}
+                          {route.violations.length > 3 && (
+                            <div>…and {route.violations.length - 3} more time window issues</div>
+                          )}
+                        </div>
+                      )}
                   </div>
                 ))}
                 </div>
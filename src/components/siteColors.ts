@@ -0,0 +1,26 @@
+/**
+ * 工地状态颜色 - Mapbox 地图和离线底图共用
+ */
+
+import type { HealthBand } from '../api/healthModel';
+
+export const STATUS_COLORS: Record<string, string> = {
+  'pending_delivery': '#f59e0b',     // amber-500 - 等待送货
+  'pending_collection': '#8b5cf6',   // violet-500 - 等待回收
+  'active_operations': '#3b82f6',    // blue-500 - 有多个运输任务
+  'deployed': '#22c55e',             // green-500 - 已部署稳定运行
+  'competitor_rental': '#ef4444',    // red-500 - 竞争对手租赁
+  
+  // 兼容旧状态
+  'available': '#f59e0b',
+  'in_use': '#3b82f6',
+  'needs_inspection': '#f97316',
+  'rented_from_competitor': '#ef4444',
+};
+
+// 健康等级 - 标记边框颜色（good 保持白色边框）
+export const HEALTH_COLORS: Record<HealthBand, string> = {
+  good: '#ffffff',
+  inspect: '#f97316',   // orange-500 - 需要检查
+  critical: '#dc2626',  // red-600 - 严重
+};
@@ -0,0 +1,12 @@
+/**
+ * 车辆路线颜色 - 地图和结果弹窗共用，车辆数量不限
+ * 前6辆使用固定调色板，之后按黄金角在色相环上取色，相邻车辆颜色差异明显
+ */
+
+const BASE_COLORS = ['#16a34a', '#c026d3', '#db2777', '#0ea5e9', '#f59e0b', '#8b5cf6']; // green, fuchsia, pink, cyan, amber, violet
+
+export function getVehicleColor(index: number): string {
+  if (index < BASE_COLORS.length) return BASE_COLORS[index];
+  const hue = Math.round((index * 137.508) % 360);
+  return `hsl(${hue}, 70%, 42%)`;
+}